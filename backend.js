@@ -2,12 +2,62 @@ const express = require('express');
 const cors = require('cors');
 const bodyParser = require('body-parser');
 const http = require('http');
+const path = require('path');
+const crypto = require('crypto');
 const { Server } = require('socket.io');
+const { createStorage } = require('./backend/storage');
+const { createRollups, validatePolicyTiers } = require('./backend/rollups');
+const { createHistory, BUCKET_SIZES, AGGREGATIONS, METRICS } = require('./backend/history');
+const { createRegistry, ID_PATTERN } = require('./backend/registry');
+const { createSensorSources, parseDevicePayload, SENSOR_METRICS } = require('./backend/sensorSources');
+const { createPumps, PUMPS, MAX_FLOW_RATE } = require('./backend/pumps');
+const { createInterlocks, validateLimits, INTERLOCK_ACTUATORS, RESERVOIR_METRICS, DAY_MS } = require('./backend/interlocks');
+const { createAutomation, validateIrrigation, validateLighting } = require('./backend/automation');
+const { createLightIntegral } = require('./backend/lightIntegral');
+const { createNutrients, validateNutrientSettings, NUTRIENTS } = require('./backend/nutrients');
+const { createScheduler, validateJob, RUN_STATUSES } = require('./backend/scheduler');
+
+/**
+ * Socket.IO event contract shared with the frontend (src/types/socket.ts).
+ * Keep emits and handlers in this file in line with those interfaces.
+ * @typedef {import('./src/types/socket').ClientToServerEvents} ClientToServerEvents
+ * @typedef {import('./src/types/socket').ServerToClientEvents} ServerToClientEvents
+ * @typedef {import('./src/types/socket').InitDataPayload} InitDataPayload
+ * @typedef {import('./src/types/socket').DataUpdatePayload} DataUpdatePayload
+ * @typedef {import('./src/types/socket').ControlResponsePayload} ControlResponsePayload
+ * @typedef {import('./src/types/socket').DeviceStatusUpdatePayload} DeviceStatusUpdatePayload
+ * @typedef {import('./src/types/socket').DeviceReadingPayload} DeviceReadingPayload
+ * @typedef {import('./src/types/socket').CommandAckPayload} CommandAckPayload
+ * @typedef {import('./src/types/socket').CommandStatusPayload} CommandStatusPayload
+ * @typedef {import('./src/types/index').ReservoirLevels} ReservoirLevels
+ * @typedef {import('./src/types/api').HistoricalDataResponse} HistoricalDataResponse
+ * @typedef {import('./src/types/api').HistorySeriesResponse} HistorySeriesResponse
+ * @typedef {import('./src/types/api').RetentionPolicy} RetentionPolicy
+ * @typedef {import('./src/types/api').CommandHistoryResponse} CommandHistoryResponse
+ * @typedef {import('./src/types/api').SendCommandResponse} SendCommandResponse
+ * @typedef {import('./src/types/api').CommandAckResponse} CommandAckResponse
+ * @typedef {import('./src/types/api').GetCommandsResponse} GetCommandsResponse
+ * @typedef {import('./src/types/api').DeviceStatusResponse} DeviceStatusResponse
+ * @typedef {import('./src/types/api').PumpCalibrationResponse} PumpCalibrationResponse
+ * @typedef {import('./src/types/api').InterlockLimitsResponse} InterlockLimitsResponse
+ * @typedef {import('./src/types/api').EmergencyStopResponse} EmergencyStopResponse
+ * @typedef {import('./src/types/api').AutomationResponse} AutomationResponse
+ * @typedef {import('./src/types/api').SaveIrrigationResponse} SaveIrrigationResponse
+ * @typedef {import('./src/types/api').SaveLightingResponse} SaveLightingResponse
+ * @typedef {import('./src/types/api').SaveNutrientSettingsResponse} SaveNutrientSettingsResponse
+ * @typedef {import('./src/types/api').NutrientDosesResponse} NutrientDosesResponse
+ * @typedef {import('./src/types/api').SchedulesResponse} SchedulesResponse
+ * @typedef {import('./src/types/api').SaveScheduleResponse} SaveScheduleResponse
+ * @typedef {import('./src/types/api').ScheduleRunsResponse} ScheduleRunsResponse
+ * @typedef {import('./src/types/api').RegistryResponse} RegistryResponse
+ * @typedef {import('./src/types/api').SaveLevelRequest} SaveLevelRequest
+ */
 
 const app = express();
 const server = http.createServer(app);
 
 // Enhanced Socket.IO configuration
+/** @type {import('socket.io').Server<ClientToServerEvents, ServerToClientEvents>} */
 const io = new Server(server, {
   cors: {
     origin: [
@@ -35,7 +85,7 @@ const corsOptions = {
     'http://localhost:5173', // Add Vite dev server
   ],
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Idempotency-Key'],
   credentials: true,
 };
 app.use(cors(corsOptions));
@@ -61,75 +111,821 @@ const COMMAND_STATUS = {
   PENDING: 'pending',
   COMPLETED: 'completed',
   FAILED: 'failed',
-  TIMEOUT: 'timeout'
+  TIMEOUT: 'timeout',
+  CANCELLED: 'cancelled'
+};
+
+// Frontend action name used in controlResponse payloads
+const COMMAND_ACTIONS = {
+  [COMMAND_TYPES.WATER_PUMP]: 'water',
+  [COMMAND_TYPES.WATER_PLANT]: 'water',
+  [COMMAND_TYPES.LED]: 'light',
+  [COMMAND_TYPES.GROW_LIGHT]: 'light',
+  [COMMAND_TYPES.LIGHT_ON]: 'light',
+  [COMMAND_TYPES.LIGHT_OFF]: 'light',
+  [COMMAND_TYPES.FERT_PUMP]: 'nutrients',
+  [COMMAND_TYPES.ADD_NUTRIENTS]: 'nutrients',
+  [COMMAND_TYPES.NUTRIENT_PUMP]: 'nutrients'
+};
+
+// Pumps and lights are switched to an explicit state so that a repeated or
+// lost request cannot invert them; nutrient doses are one-shot
+const SWITCHED_ACTIONS = ['water', 'light'];
+const ACTUATOR_STATES = ['on', 'off'];
+
+// Legacy command types that name their state
+const IMPLIED_STATES = {
+  [COMMAND_TYPES.LIGHT_ON]: 'on',
+  [COMMAND_TYPES.LIGHT_OFF]: 'off'
 };
 
-// In-memory databases
-let sensorData = {};
-let historicalData = {};
-let pendingCommands = {};
-let deviceStates = {};
+// Command the backend sends to switch an actuator itself, e.g. for an auto-off
+const SWITCH_COMMANDS = {
+  water: COMMAND_TYPES.WATER_PUMP,
+  light: COMMAND_TYPES.LED
+};
 
-// Updated device mapping to match frontend expectations
-const devicePlantMap = {
-  esp32_1: 'level1', // Level 1 plant
-  esp32_2: 'level2'  // Level 2 plant
+// Device state field of each actuator
+const ACTUATOR_STATE_KEYS = {
+  water: 'waterPump',
+  light: 'light',
+  nutrients: 'nutrientPump'
 };
 
+// Durable storage for readings, device states and commands (SQLite)
+const DATABASE_PATH = process.env.DATABASE_PATH || path.join(__dirname, 'data', 'smart-agri.sqlite');
+const storage = createStorage(DATABASE_PATH);
+
+// Grow levels and the devices serving them, and which device supplies each metric of a level
+const registry = createRegistry(storage);
+const sensorSources = createSensorSources(storage, registry);
+
+// Flow calibration of every device's pumps, for doses given in ml
+const pumps = createPumps(storage);
+
+// Reservoir, run time, cooldown and daily limits checked before an actuator starts
+const interlocks = createInterlocks(storage);
+
+// Moisture-driven irrigation and photoperiod lighting of levels in auto mode,
+// evaluated every 15 seconds, and the daily light integral of every level
+const lightIntegral = createLightIntegral(storage);
+const automation = createAutomation(storage, lightIntegral);
+
+// NPK targets, recommended or automatic fertilizer doses and their measured effects
+const nutrients = createNutrients(storage);
+const AUTOMATION_INTERVAL_MS = 15 * 1000;
+const AUTOMATION_REPORT_GAP_MS = 5 * 1000;
+
+// Recurring actuator jobs, checked often enough to run within seconds of their time
+const scheduler = createScheduler(storage);
+const SCHEDULE_INTERVAL_MS = 10 * 1000;
+// Days of upcoming occurrences sent to clients
+const SCHEDULE_DAYS = 7;
+
+// 1-minute and hourly rollups with retention tiers per plant type
+const rollups = createRollups(storage);
+const history = createHistory(rollups);
+const ROLLUP_INTERVAL_MS = 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Commands are timed out if the device has not picked them up within 5 minutes
+const COMMAND_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Run time of one-shot commands sent without a duration or dose
+const DEFAULT_COMMAND_DURATION_MS = 3000;
+
+// Timers for commands waiting on their device, keyed by command id
+const commandTimeouts = new Map();
+
+// A command handed to a device is not handed out again for 30 seconds; if the
+// device has not acknowledged it by then, the next poll returns it again
+const COMMAND_LEASE_MS = 30 * 1000;
+
+// Lease expiry (epoch ms) of commands handed to their device, keyed by command id
+const commandLeases = new Map();
+
+// Timers switching off actuators that reach their maximum run time, keyed by deviceId:actuator
+const autoOffTimers = new Map();
+
+// Reason of the last interlock refusal logged, keyed by deviceId:actuator. The
+// automation retries a refused start on every evaluation; only a new reason is logged.
+const loggedRefusals = new Map();
+
+const createDefaultDeviceState = (connectionStatus = 'disconnected') => ({
+  light: false,
+  waterPump: false,
+  nutrientPump: false,
+  lastWatered: null,
+  lastNutrients: null,
+  lastUpdated: new Date().toISOString(),
+  connectionStatus,
+  lastSeen: connectionStatus === 'connected' ? new Date().toISOString() : null
+});
+
+// Stored state of a device, created on first use
+const getDeviceState = (deviceId) =>
+  storage.getDeviceState(deviceId) || storage.saveDeviceState(deviceId, createDefaultDeviceState());
+
+const updateDeviceState = (deviceId, changes) =>
+  storage.saveDeviceState(deviceId, {
+    ...getDeviceState(deviceId),
+    ...changes,
+    lastUpdated: new Date().toISOString()
+  });
+
 // Initialize device states with proper structure
 const initializeDeviceStates = () => {
-  Object.keys(devicePlantMap).forEach(deviceId => {
-    if (!deviceStates[deviceId]) {
-      deviceStates[deviceId] = {
-        light: false,
-        waterPump: false,
-        nutrientPump: false,
-        lastWatered: null,
-        lastNutrients: null,
-        lastUpdated: new Date().toISOString(),
-        connectionStatus: 'disconnected',
-        lastSeen: null
+  registry.getDevices().forEach(device => getDeviceState(device.id));
+};
+initializeDeviceStates();
+
+// Command as broadcast to clients, with the actuator it drives
+/** @returns {CommandStatusPayload} */
+const toCommandStatus = (command) => ({
+  ...command,
+  action: COMMAND_ACTIONS[command.command]
+});
+
+const broadcastCommand = (command) => {
+  io.emit('commandStatus', toCommandStatus(command));
+};
+
+// Actuator state after a completed command: the state the command asked for,
+// unless the device reports otherwise in its ack. A watering dose has already
+// switched the pump off again by the time it is acknowledged.
+const getCommandEffect = (state, command, reported = {}) => {
+  const now = new Date().toISOString();
+  const action = COMMAND_ACTIONS[command.command];
+  const changes = {};
+  
+  if (action === 'light' && command.desiredState) {
+    changes.light = command.desiredState === 'on';
+  } else if (action === 'water' && command.doseMl !== undefined) {
+    changes.lastWatered = now;
+  } else if (action === 'water' && command.desiredState) {
+    changes.waterPump = command.desiredState === 'on';
+  } else if (action === 'nutrients') {
+    changes.lastNutrients = now;
+  }
+  
+  ['light', 'waterPump', 'nutrientPump'].forEach(key => {
+    if (typeof reported[key] === 'boolean') changes[key] = reported[key];
+  });
+  
+  if (changes.waterPump && !state.waterPump) {
+    changes.lastWatered = now;
+  }
+  return changes;
+};
+
+// Move a pending command to its final status and tell every client
+const settleCommand = (command, status, message, details = {}) => {
+  commandLeases.delete(command.id);
+  const timeout = commandTimeouts.get(command.id);
+  if (timeout) {
+    clearTimeout(timeout);
+    commandTimeouts.delete(command.id);
+  }
+  
+  const settled = storage.updateCommandStatus(command.id, status, { ...details, message });
+  broadcastCommand(settled);
+  
+  // The run history records how a scheduled command ended
+  if (settled.issuedBy === 'schedule') {
+    const run = scheduler.settleRun(command.id, status, message);
+    if (run) io.emit('scheduleRun', run);
+  }
+  return settled;
+};
+
+// Mark a command as timed out if it is still pending after `delay` ms
+const armCommandTimeout = (command, delay) => {
+  const timeout = setTimeout(() => {
+    commandTimeouts.delete(command.id);
+    
+    const stored = storage.getCommand(command.id);
+    if (stored && stored.status === COMMAND_STATUS.PENDING) {
+      settleCommand(stored, COMMAND_STATUS.TIMEOUT, 'Device did not acknowledge the command');
+      const action = COMMAND_ACTIONS[command.command] || command.originalCommand;
+      
+      /** @type {ControlResponsePayload} */
+      const response = {
+        action,
+        deviceId: command.deviceId,
+        plantType: command.plantType,
+        commandId: command.id,
+        success: false,
+        message: `${action} command timed out`,
+        timestamp: new Date().toISOString()
       };
+      io.emit('controlResponse', response);
+      
+      console.log(`Command ${command.id} timed out`);
     }
+  }, Math.max(delay, 0));
+  
+  commandTimeouts.set(command.id, timeout);
+};
+
+// Lease a command to its device; returns the lease expiry (epoch ms)
+const leaseCommand = (commandId) => {
+  const leasedUntil = Date.now() + COMMAND_LEASE_MS;
+  commandLeases.set(commandId, leasedUntil);
+  return leasedUntil;
+};
+
+const isLeased = (commandId) => (commandLeases.get(commandId) || 0) > Date.now();
+
+// Reasons a command request cannot be queued, with the HTTP status that
+// describes them, or null when it can
+const checkCommandRequest = ({ deviceId, action, desiredState, idempotencyKey }) => {
+  if (SWITCHED_ACTIONS.includes(action) && !ACTUATOR_STATES.includes(desiredState)) {
+    return { code: 400, error: 'Missing desired state', message: `${action} commands need state "on" or "off"` };
+  }
+  if (idempotencyKey !== undefined && (typeof idempotencyKey !== 'string' || !idempotencyKey || idempotencyKey.length > 128)) {
+    return { code: 400, error: 'Invalid idempotency key', message: 'idempotencyKey must be a string of up to 128 characters' };
+  }
+  
+  // A replayed request must not run the command a second time
+  const existing = idempotencyKey ? storage.getCommandByIdempotencyKey(deviceId, idempotencyKey) : null;
+  if (existing) {
+    return { code: 409, error: 'Duplicate command', message: 'A command with this idempotency key was already accepted', command: existing };
+  }
+  return null;
+};
+
+// Run time and volume of an optional dose ({ seconds } or { ml }), or a
+// rejection in the shape checkCommandRequest uses
+const resolveCommandDose = ({ deviceId, action, desiredState, dose }) => {
+  if (dose === undefined || dose === null) return {};
+  if (action === 'water' && desiredState !== 'on') {
+    return { rejection: { code: 400, error: 'Invalid dose', message: 'Only water:on commands take a dose' } };
+  }
+  
+  const resolved = pumps.resolveDose(deviceId, action, dose);
+  if (resolved.error) {
+    return { rejection: { code: 400, error: 'Invalid dose', message: resolved.error } };
+  }
+  return resolved;
+};
+
+// Interlock refusal for a command that starts an actuator, in the shape
+// checkCommandRequest uses, or null. Switching off is never refused.
+const checkInterlocks = ({ deviceId, plantType, action, desiredState, duration, dosing = {} }) => {
+  const switched = SWITCHED_ACTIONS.includes(action);
+  if (!INTERLOCK_ACTUATORS.includes(action) || (switched && desiredState !== 'on')) return null;
+  
+  const level = registry.getLevel(plantType || registry.getPlantTypeForDevice(deviceId));
+  const metric = RESERVOIR_METRICS[action];
+  const now = Date.now();
+  
+  const refusal = interlocks.check({
+    actuator: action,
+    // Switched on without a dose, an actuator runs until it is switched off
+    // again, by the run time limit at the latest
+    durationMs: dosing.durationMs ?? (switched ? 0 : duration || DEFAULT_COMMAND_DURATION_MS),
+    reservoirLevel: level && metric ? sensorSources.composeLevelReading(level, now)[metric] : undefined,
+    startTimes: storage.getCommandStartTimes(
+      deviceId,
+      Object.keys(COMMAND_ACTIONS).filter(type => COMMAND_ACTIONS[type] === action),
+      now - DAY_MS
+    ),
+    now
   });
   
-  // Initialize with some sample data for testing
-  sensorData['esp32_1'] = {
-    temperature: 22.5,
-    humidity: 65,
-    moisture: 72,
-    sunlight: 2800, // LDR value
-    nitrogen: 45,
-    phosphorus: 38,
-    potassium: 52,
-    waterLevel: 75,
-    fertilizerLevel: 60,
+  const key = `${deviceId}:${action}`;
+  if (!refusal) {
+    loggedRefusals.delete(key);
+    return null;
+  }
+  if (loggedRefusals.get(key) !== refusal.reason) {
+    loggedRefusals.set(key, refusal.reason);
+    console.log(`Interlock refused ${action} on ${deviceId}: ${refusal.message}`);
+  }
+  return { code: 423, error: 'Interlock engaged', message: refusal.message, interlock: refusal };
+};
+
+// Persist a command, hand it to its device and wait for the device's ack
+const queueCommand = ({ deviceId, command, originalCommand, value, duration, plantType, issuedBy, desiredState, idempotencyKey, doseMl }) => {
+  const switched = SWITCHED_ACTIONS.includes(COMMAND_ACTIONS[command]);
+  const commandObj = {
+    id: crypto.randomUUID(),
+    command,
+    originalCommand,
+    // Boards that only read value get 1 for on and 0 for off
+    value: switched ? Number(desiredState === 'on') : value !== undefined ? value : 1,
+    deviceId,
+    plantType: plantType || registry.getPlantTypeForDevice(deviceId),
+    duration: duration || DEFAULT_COMMAND_DURATION_MS,
     timestamp: new Date().toISOString(),
-    deviceId: 'esp32_1'
+    status: COMMAND_STATUS.PENDING,
+    issuedBy,
+    desiredState: switched ? desiredState : null,
+    idempotencyKey,
+    doseMl
   };
   
-  sensorData['esp32_2'] = {
-    temperature: 21.8,
-    humidity: 68,
-    moisture: 78,
-    sunlight: 3200, // LDR value
-    nitrogen: 42,
-    phosphorus: 41,
-    potassium: 48,
-    waterLevel: 75,
-    fertilizerLevel: 60,
-    timestamp: new Date().toISOString(),
-    deviceId: 'esp32_2'
-  };
+  // Persist the command so it survives restarts
+  const stored = storage.insertCommand(commandObj);
+  console.log(`New command queued for ${deviceId}:`, stored);
+  broadcastCommand(stored);
+  
+  // Pushed commands are leased too, so a board that also polls
+  // /get-commands does not run them twice
+  const room = `device_${deviceId}`;
+  if (io.sockets.adapter.rooms.get(room)?.size) {
+    leaseCommand(stored.id);
+  }
+  
+  // Devices acknowledge by id through POST /command-ack or the commandAck event
+  io.to(room).emit('executeCommand', {
+    id: stored.id,
+    command,
+    state: stored.desiredState || null,
+    value: stored.value,
+    duration: stored.duration
+  });
+  
+  // Devices acknowledge a dose once it has run
+  armCommandTimeout(stored, COMMAND_TIMEOUT_MS + stored.duration);
+  return stored;
+};
+
+const clearAutoOff = (deviceId, action) => {
+  const key = `${deviceId}:${action}`;
+  clearTimeout(autoOffTimers.get(key));
+  autoOffTimers.delete(key);
+};
+
+// Switch an actuator off once it has run for its maximum run time since startedAt
+const armAutoOff = (deviceId, action, startedAt) => {
+  clearAutoOff(deviceId, action);
+  const { maxRunMs } = interlocks.getLimits(action);
+  if (maxRunMs === null) return;
+  
+  const key = `${deviceId}:${action}`;
+  const timer = setTimeout(() => {
+    autoOffTimers.delete(key);
+    if (!getDeviceState(deviceId)[ACTUATOR_STATE_KEYS[action]]) return;
+    
+    const switchingOff = storage.getCommandsByStatus(COMMAND_STATUS.PENDING, deviceId).some(command =>
+      COMMAND_ACTIONS[command.command] === action && command.desiredState === 'off'
+    );
+    if (switchingOff) return;
+    
+    console.log(`${action} on ${deviceId} reached its maximum run time, switching it off`);
+    queueCommand({
+      deviceId,
+      command: SWITCH_COMMANDS[action],
+      originalCommand: `${action}:off`,
+      issuedBy: 'interlock',
+      desiredState: 'off'
+    });
+  }, Math.max(startedAt + maxRunMs - Date.now(), 0));
+  
+  autoOffTimers.set(key, timer);
+};
 
-  // Initialize historical data
-  ['level1', 'level2'].forEach(plantType => {
-    if (!historicalData[plantType]) {
-      historicalData[plantType] = [];
+// Record when switched actuators turn on or off, so their run time is limited.
+// One that turns on while the emergency stop is engaged is switched off again.
+const trackActuatorRuns = (deviceId, previous, current) => {
+  SWITCHED_ACTIONS.forEach(action => {
+    const key = ACTUATOR_STATE_KEYS[action];
+    if (current[key] && !previous[key] && interlocks.getEmergencyStop().engaged) {
+      console.log(`${action} on ${deviceId} turned on during an emergency stop, switching it off`);
+      queueCommand({
+        deviceId,
+        command: SWITCH_COMMANDS[action],
+        originalCommand: `${action}:off`,
+        issuedBy: 'emergency_stop',
+        desiredState: 'off'
+      });
+    } else if (current[key] && !previous[key]) {
+      const startedAt = Date.now();
+      interlocks.startRun(deviceId, action, startedAt);
+      armAutoOff(deviceId, action, startedAt);
+    } else if (!current[key] && previous[key]) {
+      interlocks.endRun(deviceId, action);
+      clearAutoOff(deviceId, action);
     }
   });
 };
-initializeDeviceStates();
+
+// Evaluate a level's irrigation, send the pulse it asks for and tell clients
+// when what the automation is doing changes
+const runIrrigation = (level) => {
+  const previous = automation.getStatus(level.id);
+  const deviceId = level.actuatorDeviceId;
+  let { pulse, status } = automation.evaluate(level.id, {
+    moisture: sensorSources.getLevelValue(level, 'moisture'),
+    hasActuator: Boolean(deviceId)
+  });
+  
+  if (pulse) {
+    const { pulseMs } = automation.getIrrigation(level.id);
+    const dosing = resolveCommandDose({ deviceId, action: 'water', desiredState: 'on', dose: { seconds: pulseMs / 1000 } });
+    const rejection = dosing.rejection ||
+      checkInterlocks({ deviceId, plantType: level.id, action: 'water', desiredState: 'on', dosing });
+    
+    if (rejection) {
+      status = automation.recordRefusal(level.id, rejection.interlock || { message: rejection.message });
+    } else {
+      const command = queueCommand({
+        deviceId,
+        command: COMMAND_TYPES.WATER_PUMP,
+        originalCommand: 'water:on',
+        duration: dosing.durationMs,
+        plantType: level.id,
+        issuedBy: 'automation',
+        desiredState: 'on',
+        doseMl: dosing.doseMl
+      });
+      status = automation.recordPulse(level.id, command.id);
+    }
+  }
+  
+  if (status.phase !== previous.phase || status.message !== previous.message || status.moisture !== previous.moisture) {
+    io.emit('irrigationStatus', status);
+  }
+};
+
+// Evaluate a level's grow light, switch it when the photoperiod or lux asks
+// for it and tell clients when what the automation is doing changes
+const runLighting = (level) => {
+  const previous = automation.getLightingStatus(level.id);
+  const deviceId = level.actuatorDeviceId;
+  const switching = Boolean(deviceId) && storage.getCommandsByStatus(COMMAND_STATUS.PENDING, deviceId).some(command =>
+    COMMAND_ACTIONS[command.command] === 'light'
+  );
+  let { switchTo, status } = automation.evaluateLighting(level.id, {
+    lux: sensorSources.getLevelValue(level, 'sunlight'),
+    lightOn: deviceId ? Boolean(getDeviceState(deviceId)[ACTUATOR_STATE_KEYS.light]) : null,
+    hasActuator: Boolean(deviceId),
+    switching
+  });
+  
+  if (switchTo) {
+    // Switching off is never refused
+    const rejection = checkInterlocks({ deviceId, plantType: level.id, action: 'light', desiredState: switchTo });
+    
+    if (rejection) {
+      status = automation.recordLightingRefusal(level.id, rejection.interlock || { message: rejection.message });
+    } else {
+      queueCommand({
+        deviceId,
+        command: SWITCH_COMMANDS.light,
+        originalCommand: `light:${switchTo}`,
+        plantType: level.id,
+        issuedBy: 'automation',
+        desiredState: switchTo
+      });
+      status = automation.recordLightSwitch(level.id, switchTo);
+    }
+  }
+  
+  if (status.phase !== previous.phase || status.message !== previous.message ||
+      status.lux !== previous.lux || status.lightOn !== previous.lightOn || status.dli.mol !== previous.dli.mol) {
+    io.emit('lightingStatus', status);
+  }
+};
+
+// Measure the effect of settled fertilizer doses, then plan the level's next
+// dose and send it in auto mode
+const runNutrients = (level) => {
+  const previous = nutrients.getPlan(level.id);
+  const deviceId = level.actuatorDeviceId;
+  const readings = NUTRIENTS.reduce((acc, nutrient) => {
+    acc[nutrient] = sensorSources.getLevelValue(level, nutrient);
+    return acc;
+  }, {});
+  const freshValues = NUTRIENTS.reduce((acc, nutrient) => {
+    if (readings[nutrient]?.fresh) acc[nutrient] = readings[nutrient].value;
+    return acc;
+  }, {});
+  nutrients.measureDoses(level.id, freshValues).forEach(dose => io.emit('nutrientDose', dose));
+  
+  const dosing = Boolean(deviceId) && storage.getCommandsByStatus(COMMAND_STATUS.PENDING, deviceId).some(command =>
+    COMMAND_ACTIONS[command.command] === 'nutrients'
+  );
+  let { dose, plan } = nutrients.evaluate(level.id, { readings, hasActuator: Boolean(deviceId), dosing });
+  
+  if (dose) {
+    const dosingRequest = resolveCommandDose({ deviceId, action: 'nutrients', dose: { ml: dose } });
+    const rejection = dosingRequest.rejection ||
+      checkInterlocks({ deviceId, plantType: level.id, action: 'nutrients', dosing: dosingRequest });
+    
+    if (rejection) {
+      plan = nutrients.recordRefusal(level.id, rejection.interlock || { message: rejection.message });
+    } else {
+      queueCommand({
+        deviceId,
+        command: COMMAND_TYPES.FERT_PUMP,
+        originalCommand: 'nutrients',
+        duration: dosingRequest.durationMs,
+        plantType: level.id,
+        issuedBy: 'automation',
+        doseMl: dosingRequest.doseMl
+      });
+      plan = nutrients.recordDosing(level.id, dosingRequest.doseMl);
+    }
+  }
+  
+  const summary = (candidate) => candidate && JSON.stringify([
+    candidate.phase, candidate.message, candidate.recommendedMl, candidate.nextDoseAt,
+    NUTRIENTS.map(nutrient => candidate.nutrients[nutrient].value)
+  ]);
+  if (summary(plan) !== summary(previous)) {
+    io.emit('nutrientPlan', plan);
+  }
+};
+
+// Record a completed fertilizer dose with the level's readings just before it
+const recordNutrientDose = (command) => {
+  const level = registry.getLevel(command.plantType);
+  if (!level) return;
+  
+  const readings = NUTRIENTS.reduce((acc, nutrient) => {
+    const reading = sensorSources.getLevelValue(level, nutrient);
+    if (reading?.fresh) acc[nutrient] = reading.value;
+    return acc;
+  }, {});
+  // Doses without a volume ran for their duration at the pump's flow rate
+  const doseMl = command.deliveredMl ??
+    Math.round(command.duration / 1000 * pumps.getCalibration(command.deviceId).nutrients.mlPerSecond * 10) / 10;
+  
+  io.emit('nutrientDose', nutrients.recordDose({
+    commandId: command.id,
+    plantType: level.id,
+    deviceId: command.deviceId,
+    issuedBy: command.issuedBy,
+    doseMl,
+    readings
+  }));
+  runNutrients(level);
+};
+
+// Last evaluation of each level (epoch ms), keyed by plant type
+const lastEvaluations = new Map();
+
+const evaluateLevel = (level) => {
+  lastEvaluations.set(level.id, Date.now());
+  runIrrigation(level);
+  runLighting(level);
+  runNutrients(level);
+};
+
+const runAutomation = () => {
+  try {
+    registry.getLevels().forEach(evaluateLevel);
+  } catch (error) {
+    console.error('Failed to run automation:', error);
+  }
+};
+
+// Evaluate the levels a report fed right away rather than on the next tick,
+// unless they were evaluated moments ago; a chatty device adds at most one
+// evaluation per level every AUTOMATION_REPORT_GAP_MS
+const runAutomationAfterReport = (plantTypes) => {
+  try {
+    const now = Date.now();
+    plantTypes.forEach(plantType => {
+      const level = registry.getLevel(plantType);
+      if (!level || now - (lastEvaluations.get(plantType) || 0) < AUTOMATION_REPORT_GAP_MS) return;
+      evaluateLevel(level);
+    });
+  } catch (error) {
+    console.error('Failed to run automation:', error);
+  }
+};
+
+// Send the command of a job's occurrence through the same checks as a manual
+// command and record the run; refused runs are not retried
+const runScheduledJob = ({ job, occurrenceAt }) => {
+  const level = registry.getLevel(job.plantType);
+  const deviceId = level && level.actuatorDeviceId;
+  const [action, desiredState] = job.action.split(':');
+  const refuse = (message, interlock) =>
+    scheduler.recordRun({ job, occurrenceAt, status: RUN_STATUSES.REFUSED, message, interlock: interlock && interlock.reason });
+  
+  if (!deviceId) {
+    return refuse('No actuator device is assigned to this level');
+  }
+  const dosing = resolveCommandDose({ deviceId, action, desiredState, dose: job.dose });
+  const rejection = dosing.rejection ||
+    checkInterlocks({ deviceId, plantType: job.plantType, action, desiredState, dosing });
+  if (rejection) {
+    console.log(`Scheduled ${job.action} of ${job.plantType} refused: ${rejection.message}`);
+    return refuse(rejection.message, rejection.interlock);
+  }
+  
+  const command = queueCommand({
+    deviceId,
+    command: action === 'nutrients' ? COMMAND_TYPES.FERT_PUMP : SWITCH_COMMANDS[action],
+    originalCommand: job.action,
+    duration: dosing.durationMs,
+    plantType: job.plantType,
+    issuedBy: 'schedule',
+    desiredState,
+    doseMl: dosing.doseMl
+  });
+  return scheduler.recordRun({ job, occurrenceAt, status: RUN_STATUSES.PENDING, commandId: command.id });
+};
+
+const runSchedules = () => {
+  try {
+    const { due, recorded } = scheduler.collectDue();
+    [...recorded, ...due.map(runScheduledJob)].forEach(run => io.emit('scheduleRun', run));
+  } catch (error) {
+    console.error('Failed to run schedules:', error);
+  }
+};
+
+// Jobs of a level and their occurrences over the next `days` days
+const buildSchedules = (plantType, days = SCHEDULE_DAYS) => {
+  /** @type {SchedulesResponse} */
+  const schedules = {
+    plantType,
+    jobs: scheduler.getJobs(plantType),
+    occurrences: scheduler.getUpcoming(plantType, days)
+  };
+  return schedules;
+};
+
+const broadcastSchedules = (plantType) => {
+  const schedules = buildSchedules(plantType);
+  io.emit('schedules', schedules);
+  return schedules;
+};
+
+// Latch the emergency stop: cancel every command still waiting for its
+// device (except ones switching something off) and switch off the pumps and
+// lights of every device. Starts are refused until the stop is cleared.
+const engageEmergencyStop = ({ engagedBy, reason }) => {
+  const state = interlocks.engageEmergencyStop({ engagedBy, reason });
+  
+  const cancelledCommands = storage.getCommandsByStatus(COMMAND_STATUS.PENDING)
+    .filter(command => command.desiredState !== 'off')
+    .map(command => settleCommand(command, COMMAND_STATUS.CANCELLED, 'Cancelled by emergency stop'));
+  
+  const offCommands = registry.getDevices().flatMap(device => SWITCHED_ACTIONS.map(action => queueCommand({
+    deviceId: device.id,
+    command: SWITCH_COMMANDS[action],
+    originalCommand: `${action}:off`,
+    issuedBy: 'emergency_stop',
+    desiredState: 'off'
+  })));
+  
+  console.log(`Emergency stop engaged by ${engagedBy || 'unknown'}: cancelled ${cancelledCommands.length} commands`);
+  io.emit('emergencyStop', state);
+  
+  /** @type {EmergencyStopResponse} */
+  const response = { state, cancelledCommands, offCommands };
+  return response;
+};
+
+// Apply a device's acknowledgement; returns the settled command or an error
+// with the HTTP status that describes it
+const acknowledgeCommand = (ack) => {
+  const { deviceId, commandId, status, message, state, deliveredMl } = ack || {};
+  
+  if (!deviceId || !commandId) {
+    return { code: 400, error: 'Missing required fields', message: 'deviceId and commandId are required' };
+  }
+  if (status !== COMMAND_STATUS.COMPLETED && status !== COMMAND_STATUS.FAILED) {
+    return { code: 400, error: 'Invalid status', message: 'status must be completed or failed' };
+  }
+  if (deliveredMl !== undefined && (typeof deliveredMl !== 'number' || !(deliveredMl >= 0))) {
+    return { code: 400, error: 'Invalid deliveredMl', message: 'deliveredMl must be a number of at least 0' };
+  }
+  
+  const command = storage.getCommand(String(commandId));
+  if (!command || command.deviceId !== deviceId) {
+    return { code: 404, error: 'Command not found', message: `No command ${commandId} for ${deviceId}` };
+  }
+  if (command.status !== COMMAND_STATUS.PENDING) {
+    return { code: 409, error: 'Command already settled', message: `Command ${commandId} is ${command.status}`, command };
+  }
+  
+  const action = COMMAND_ACTIONS[command.command] || command.originalCommand;
+  const currentState = getDeviceState(deviceId);
+  const deviceState = updateDeviceState(deviceId, {
+    ...(status === COMMAND_STATUS.COMPLETED ? getCommandEffect(currentState, command, state) : {}),
+    connectionStatus: 'connected',
+    lastSeen: new Date().toISOString()
+  });
+  trackActuatorRuns(deviceId, currentState, deviceState);
+  // Devices with a flow meter report what they pumped; otherwise a completed
+  // dose is taken as delivered in full
+  const delivered = deliveredMl ?? (status === COMMAND_STATUS.COMPLETED ? command.doseMl : undefined);
+  const settled = settleCommand(command, status, message, { deliveredMl: delivered });
+  if (status === COMMAND_STATUS.COMPLETED && action === 'nutrients') {
+    recordNutrientDose(settled);
+  }
+  
+  /** @type {ControlResponsePayload} */
+  const response = {
+    action,
+    deviceId,
+    plantType: command.plantType,
+    commandId: command.id,
+    success: status === COMMAND_STATUS.COMPLETED,
+    active: action === 'light' ? deviceState.light :
+            action === 'water' ? deviceState.waterPump : false,
+    message: status === COMMAND_STATUS.COMPLETED
+      ? `${action} command completed${settled.deliveredMl !== undefined ? ` (${settled.deliveredMl} ml delivered)` : ''}`
+      : `${action} command failed${message ? `: ${message}` : ''}`,
+    timestamp: new Date().toISOString()
+  };
+  io.emit('controlResponse', response);
+  
+  console.log(`Command ${command.id} ${status} by ${deviceId}`);
+  return { command: settled };
+};
+
+// Re-arm timeouts for commands that were still pending when the server stopped
+const restorePendingCommands = () => {
+  const pending = storage.getCommandsByStatus(COMMAND_STATUS.PENDING);
+  pending.forEach(command => {
+    const elapsed = Date.now() - new Date(command.timestamp).getTime();
+    armCommandTimeout(command, COMMAND_TIMEOUT_MS + command.duration - elapsed);
+  });
+  
+  if (pending.length > 0) {
+    console.log(`Restored ${pending.length} pending commands from storage`);
+  }
+};
+
+// Re-arm auto-off timers for actuators that were on when the server stopped;
+// ones on without a recorded run (e.g. from before interlocks) start one now
+const restoreActuatorRuns = () => {
+  const runs = interlocks.getRuns();
+  registry.getDevices().forEach(device => {
+    const state = getDeviceState(device.id);
+    SWITCHED_ACTIONS.forEach(action => {
+      const run = runs.find(candidate => candidate.deviceId === device.id && candidate.actuator === action);
+      if (!state[ACTUATOR_STATE_KEYS[action]]) {
+        if (run) interlocks.endRun(device.id, action);
+        return;
+      }
+      
+      const startedAt = run ? run.startedAt : Date.now();
+      if (!run) interlocks.startRun(device.id, action, startedAt);
+      armAutoOff(device.id, action, startedAt);
+    });
+  });
+};
+
+// Reservoir levels from the tank sensors mapped for the first level; the
+// tanks are shared by every level of the box
+/** @returns {ReservoirLevels} */
+const buildReservoirLevels = () => {
+  const [level] = registry.getLevels();
+  const reading = level ? sensorSources.composeLevelReading(level) : {};
+  const water = reading.waterLevel || 75;
+  const fertilizer = reading.fertilizerLevel || 60;
+  
+  return {
+    water,
+    waterCm: Math.round(water * 0.2), // Convert % to cm
+    fertilizer,
+    fertilizerCm: Math.round(fertilizer * 0.2) // Convert % to cm
+  };
+};
+
+// Snapshot sent on connection and in reply to requestInitialData
+/** @returns {InitDataPayload} */
+const buildInitData = (deviceIds) => {
+  return {
+    sensorData: (deviceIds || registry.getDevices().map(device => device.id)).reduce((acc, deviceId) => {
+      const reading = sensorSources.getDeviceReading(deviceId);
+      if (reading) {
+        acc[deviceId] = reading;
+      }
+      return acc;
+    }, {}),
+    deviceStates: storage.getDeviceStates(),
+    reservoirLevels: buildReservoirLevels(),
+    pendingCommands: Object.entries(storage.getPendingCommands()).reduce((acc, [deviceId, commands]) => {
+      acc[deviceId] = commands.map(toCommandStatus);
+      return acc;
+    }, {}),
+    emergencyStop: interlocks.getEmergencyStop(),
+    irrigation: registry.getLevels().reduce((acc, level) => {
+      acc[level.id] = automation.getStatus(level.id);
+      return acc;
+    }, {}),
+    lighting: registry.getLevels().reduce((acc, level) => {
+      acc[level.id] = automation.getLightingStatus(level.id);
+      return acc;
+    }, {}),
+    nutrientPlans: registry.getLevels().reduce((acc, level) => {
+      const plan = nutrients.getPlan(level.id);
+      if (plan) acc[level.id] = plan;
+      return acc;
+    }, {}),
+    timestamp: new Date().toISOString()
+  };
+};
 
 // Enhanced logging middleware
 app.use((req, res, next) => {
@@ -152,15 +948,28 @@ app.get('/', (req, res) => {
       update: 'POST /update',
       data: 'GET /data',
       sensorData: 'GET /sensor-data/:plantType',
-      historicalData: 'GET /historical-data/:plantType',
+      historicalData: 'GET /historical-data/:plantType?from=&to=&metrics=&bucket=&agg=',
+      retentionPolicy: 'GET|PUT /retention-policy/:plantType',
       sendCommand: 'POST /send-command',
-      getCommands: 'GET /get-commands/:deviceId',
+      commandHistory: 'GET /command-history/:plantType?from=&to=',
+      getCommands: 'GET /get-commands/:deviceId?limit=&firmwareVersion=&board=',
+      commandAck: 'POST /command-ack',
+      pumpCalibration: 'GET /pump-calibration/:deviceId, PUT /pump-calibration/:deviceId/:pump',
+      interlocks: 'GET /interlocks, PUT /interlocks/:actuator',
+      emergencyStop: 'GET|POST /emergency-stop, POST /emergency-stop/clear',
+      automation: 'GET /automation, PUT /automation/:plantType/irrigation, PUT /automation/:plantType/lighting, PUT /automation/:plantType/nutrients',
+      nutrientDoses: 'GET /nutrient-doses/:plantType?limit=',
+      schedules: 'GET|POST /schedules/:plantType, PUT|DELETE /schedules/:plantType/:jobId, PUT /schedules/:plantType/:jobId/skips',
+      scheduleRuns: 'GET /schedule-runs/:plantType?limit=',
       deviceStatus: 'GET /device-status/:deviceId',
+      registry: 'GET /registry',
+      levels: 'PUT|DELETE /levels/:plantType',
+      devices: 'PUT|DELETE /devices/:deviceId',
       health: 'GET /health',
       testEmit: 'GET /test-emit'
     },
-    devices: Object.keys(devicePlantMap),
-    plantTypes: Object.values(devicePlantMap)
+    devices: registry.getDevices().map(device => device.id),
+    plantTypes: registry.getLevels().map(level => level.id)
   });
 });
 
@@ -168,6 +977,8 @@ app.get('/', (req, res) => {
 app.get('/health', (req, res) => {
   const uptime = process.uptime();
   const memoryUsage = process.memoryUsage();
+  const deviceStates = storage.getDeviceStates();
+  const sensorData = storage.getLatestReadings();
   
   res.json({
     status: 'healthy',
@@ -179,331 +990,1175 @@ app.get('/health', (req, res) => {
       heapUsed: `${(memoryUsage.heapUsed / 1024 / 1024).toFixed(2)} MB`,
     },
     connections: io.engine.clientsCount,
-    devices: Object.keys(deviceStates).map(id => ({
+    database: DATABASE_PATH,
+    devices: Object.entries(deviceStates).map(([id, state]) => ({
       id,
-      status: deviceStates[id].connectionStatus,
-      lastSeen: deviceStates[id].lastSeen,
-      plantType: devicePlantMap[id]
+      status: state.connectionStatus,
+      lastSeen: state.lastSeen,
+      plantType: registry.getPlantTypeForDevice(id)
     })),
-    pendingCommands: Object.keys(pendingCommands).reduce((acc, key) => {
-      acc[key] = pendingCommands[key].length;
-      return acc;
-    }, {}),
-    sensorData: Object.keys(sensorData).map(deviceId => ({
+    pendingCommands: storage.countCommandsByDevice(COMMAND_STATUS.PENDING),
+    sensorData: Object.entries(sensorData).map(([deviceId, reading]) => ({
       deviceId,
-      plantType: devicePlantMap[deviceId],
-      lastUpdate: sensorData[deviceId]?.timestamp
+      plantType: registry.getPlantTypeForDevice(deviceId),
+      lastUpdate: reading?.timestamp
     }))
   });
 });
 
-// Get sensor data for specific plant type
-app.get('/sensor-data/:plantType', (req, res) => {
+// Get sensor data for specific plant type
+app.get('/sensor-data/:plantType', (req, res) => {
+  try {
+    const { plantType } = req.params;
+    const level = registry.getLevel(plantType);
+    
+    if (!level) {
+      return res.status(404).json({ 
+        error: 'Plant type not found',
+        availableTypes: registry.getLevels().map(({ id }) => id)
+      });
+    }
+    
+    const deviceId = level.sensorDeviceId;
+    if (!deviceId) {
+      return res.status(404).json({
+        error: 'No sensor device assigned to this plant type',
+        plantType
+      });
+    }
+    
+    if (!sensorSources.getDeviceReading(deviceId)) {
+      return res.status(404).json({ 
+        error: 'No sensor data available for this plant type',
+        deviceId
+      });
+    }
+    
+    // Composed now, so metrics from other devices are as current as the level's own
+    const data = { ...sensorSources.composeLevelReading(level), deviceId };
+    
+    res.json({
+      plantType,
+      deviceId,
+      data,
+      deviceState: getDeviceState(deviceId)
+    });
+  } catch (error) {
+    console.error('Error in /sensor-data:', error);
+    res.status(500).json({ 
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+});
+
+// Epoch milliseconds or an ISO timestamp from a query string; NaN when invalid
+const parseTimeParam = (value, fallback) => {
+  if (value === undefined || value === '') return fallback;
+  return /^\d+$/.test(value) ? Number(value) : new Date(value).getTime();
+};
+
+// Get historical data for specific plant type.
+// Without parameters the most recent raw readings are returned; with a range the
+// finest retention tier that covers it is used and reported as `tier`. Passing
+// metrics, bucket or agg returns bucketed series per metric instead of readings.
+app.get('/historical-data/:plantType', (req, res) => {
+  try {
+    const { plantType } = req.params;
+    const wantsSeries = ['metrics', 'bucket', 'agg'].some(param => req.query[param] !== undefined);
+
+    if (!wantsSeries && req.query.from === undefined && req.query.to === undefined) {
+      const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || 1000, 1), 10000);
+      const data = storage.getRecentReadings(plantType, limit);
+
+      /** @type {HistoricalDataResponse} */
+      const response = {
+        plantType,
+        tier: 'raw',
+        data,
+        count: data.length
+      };
+      return res.json(response);
+    }
+
+    const to = parseTimeParam(req.query.to, Date.now());
+    const from = parseTimeParam(req.query.from, to - 24 * 60 * 60 * 1000);
+
+    if (isNaN(from) || isNaN(to) || from > to) {
+      return res.status(400).json({
+        error: 'Invalid time range',
+        message: 'from and to must be epoch milliseconds or ISO timestamps with from <= to'
+      });
+    }
+
+    if (wantsSeries) {
+      const metrics = req.query.metrics ? String(req.query.metrics).split(',').map(metric => metric.trim()) : METRICS;
+      const bucket = req.query.bucket || '10m';
+      const agg = req.query.agg || 'avg';
+      const unknownMetrics = metrics.filter(metric => !METRICS.includes(metric));
+
+      if (unknownMetrics.length > 0 || !Object.hasOwn(BUCKET_SIZES, bucket) || !AGGREGATIONS.includes(agg)) {
+        return res.status(400).json({
+          error: 'Invalid series query',
+          message: unknownMetrics.length > 0 ? `Unknown metrics: ${unknownMetrics.join(', ')}` : 'Invalid bucket or agg',
+          metrics: METRICS,
+          buckets: Object.keys(BUCKET_SIZES),
+          aggregations: AGGREGATIONS
+        });
+      }
+
+      const { tier, series } = history.querySeries({ plantType, from, to, metrics, bucket, agg });
+
+      /** @type {HistorySeriesResponse} */
+      const response = {
+        plantType,
+        tier,
+        from: new Date(from).toISOString(),
+        to: new Date(to).toISOString(),
+        bucket,
+        agg,
+        series
+      };
+      return res.json(response);
+    }
+
+    const tier = rollups.selectTier(plantType, from, to);
+    const data = rollups.queryTier(tier, plantType, from, to);
+
+    /** @type {HistoricalDataResponse} */
+    const response = {
+      plantType,
+      tier,
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+      data,
+      count: data.length
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error in /historical-data:', error);
+    res.status(500).json({ 
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+});
+
+// Commands issued for a plant type, for actuator markers on charts
+app.get('/command-history/:plantType', (req, res) => {
+  try {
+    const { plantType } = req.params;
+    const to = parseTimeParam(req.query.to, Date.now());
+    const from = parseTimeParam(req.query.from, to - 24 * 60 * 60 * 1000);
+
+    if (isNaN(from) || isNaN(to) || from > to) {
+      return res.status(400).json({
+        error: 'Invalid time range',
+        message: 'from and to must be epoch milliseconds or ISO timestamps with from <= to'
+      });
+    }
+
+    const commands = storage.getCommandHistory(plantType, from, to).map(toCommandStatus);
+
+    /** @type {CommandHistoryResponse} */
+    const response = {
+      plantType,
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+      commands,
+      count: commands.length
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error in /command-history:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+});
+
+// Retention policy for a plant type
+app.get('/retention-policy/:plantType', (req, res) => {
+  const { plantType } = req.params;
+  res.json({ plantType, policy: rollups.getPolicy(plantType) });
+});
+
+app.put('/retention-policy/:plantType', (req, res) => {
+  try {
+    const { plantType } = req.params;
+    if (!registry.getLevel(plantType)) {
+      return res.status(400).json({ error: 'Unknown plant type', plantType });
+    }
+
+    /** @type {Partial<RetentionPolicy>} */
+    const changes = {};
+    const errors = [];
+
+    ['rawHours', 'minuteDays'].forEach(field => {
+      if (req.body[field] === undefined) return;
+      if (typeof req.body[field] !== 'number' || req.body[field] <= 0) {
+        errors.push(`${field} must be a positive number`);
+      } else {
+        changes[field] = req.body[field];
+      }
+    });
+
+    // null keeps hourly buckets forever
+    if (req.body.hourlyDays !== undefined) {
+      if (req.body.hourlyDays !== null && (typeof req.body.hourlyDays !== 'number' || req.body.hourlyDays <= 0)) {
+        errors.push('hourlyDays must be a positive number or null');
+      } else {
+        changes.hourlyDays = req.body.hourlyDays;
+      }
+    }
+
+    const tierError = errors.length === 0 && validatePolicyTiers({ ...rollups.getPolicy(plantType), ...changes });
+    if (tierError) errors.push(tierError);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid retention policy', message: errors.join(', ') });
+    }
+
+    const policy = rollups.setPolicy(plantType, changes);
+    rollups.prune();
+    res.json({ plantType, policy });
+  } catch (error) {
+    console.error('Error in /retention-policy:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+});
+
+// Levels and devices, broadcast to every client whenever they change
+/** @returns {RegistryResponse} */
+const broadcastRegistry = () => {
+  const snapshot = registry.getSnapshot();
+  io.emit('registryUpdate', snapshot);
+  return snapshot;
+};
+
+app.get('/registry', (req, res) => {
+  res.json(registry.getSnapshot());
+});
+
+// Create or update a level
+app.put('/levels/:plantType', (req, res) => {
+  try {
+    const { plantType } = req.params;
+    /** @type {SaveLevelRequest} */
+    const changes = {};
+    const errors = [];
+
+    if (!ID_PATTERN.test(plantType)) {
+      errors.push('plantType may only contain letters, digits, - and _');
+    }
+    if (req.body.name !== undefined) {
+      if (typeof req.body.name !== 'string' || !req.body.name.trim()) {
+        errors.push('name must be a non-empty string');
+      } else {
+        changes.name = req.body.name.trim();
+      }
+    }
+    if (req.body.position !== undefined) {
+      if (!Number.isInteger(req.body.position)) {
+        errors.push('position must be an integer');
+      } else {
+        changes.position = req.body.position;
+      }
+    }
+    ['sensorDeviceId', 'actuatorDeviceId'].forEach(field => {
+      const deviceId = req.body[field];
+      if (deviceId === undefined) return;
+      if (deviceId !== null && !registry.getDevice(deviceId)) {
+        errors.push(`${field} must be a registered device or null`);
+      } else {
+        changes[field] = deviceId;
+      }
+    });
+
+    // Per-metric overrides replace the level's previous ones as a whole
+    if (req.body.sensorSources !== undefined) {
+      const sources = req.body.sensorSources;
+      if (!sources || typeof sources !== 'object' || Array.isArray(sources)) {
+        errors.push('sensorSources must be an object keyed by metric');
+      } else {
+        Object.entries(sources).forEach(([metric, source]) => {
+          if (!SENSOR_METRICS.includes(metric)) {
+            errors.push(`Unknown sensor metric ${metric}`);
+          } else if (!source || !registry.getDevice(source.deviceId)) {
+            errors.push(`sensorSources.${metric}.deviceId must be a registered device`);
+          } else if (source.fallbackDeviceId && !registry.getDevice(source.fallbackDeviceId)) {
+            errors.push(`sensorSources.${metric}.fallbackDeviceId must be a registered device`);
+          }
+        });
+        changes.sensorSources = sources;
+      }
+    }
+
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid level', message: errors.join(', ') });
+    }
+
+    const level = registry.saveLevel(plantType, changes);
+    broadcastRegistry();
+    res.json({ level });
+  } catch (error) {
+    console.error('Error in /levels:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+});
+
+// Remove a level; its stored readings are kept
+app.delete('/levels/:plantType', (req, res) => {
+  const { plantType } = req.params;
+  if (!registry.deleteLevel(plantType)) {
+    return res.status(404).json({ error: 'Plant type not found', plantType });
+  }
+  automation.deleteIrrigation(plantType);
+  automation.deleteLighting(plantType);
+  nutrients.deleteLevel(plantType);
+  scheduler.deleteLevel(plantType);
+  res.json(broadcastRegistry());
+});
+
+// Register or rename a device
+app.put('/devices/:deviceId', (req, res) => {
+  try {
+    const { deviceId } = req.params;
+    const { name } = req.body;
+
+    if (!ID_PATTERN.test(deviceId) || (name !== undefined && (typeof name !== 'string' || !name.trim()))) {
+      return res.status(400).json({
+        error: 'Invalid device',
+        message: 'deviceId may only contain letters, digits, - and _, and name must be a non-empty string'
+      });
+    }
+
+    const device = registry.saveDevice(deviceId, { name: name?.trim() });
+    getDeviceState(deviceId);
+    broadcastRegistry();
+    res.json({ device });
+  } catch (error) {
+    console.error('Error in /devices:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+});
+
+// Remove a device that no level uses any more
+app.delete('/devices/:deviceId', (req, res) => {
+  const { deviceId } = req.params;
+  const usedBy = registry.getLevelsUsingDevice(deviceId);
+
+  if (usedBy.length > 0) {
+    return res.status(409).json({
+      error: 'Device is still assigned',
+      levels: usedBy.map(level => level.id)
+    });
+  }
+  if (!registry.deleteDevice(deviceId)) {
+    return res.status(404).json({ error: 'Device not found', deviceId });
+  }
+  pumps.deleteCalibration(deviceId);
+  interlocks.deleteDeviceRuns(deviceId);
+  SWITCHED_ACTIONS.forEach(action => clearAutoOff(deviceId, action));
+  res.json(broadcastRegistry());
+});
+
+// Firmware details a board sends with /update or as /get-commands query
+// parameters, either as firmwareVersion/board or as a firmware object
+const parseFirmwareInfo = (source = {}) => {
+  const firmware = source.firmware;
+  const version = source.firmwareVersion ?? (typeof firmware === 'object' ? firmware?.version : firmware);
+  const board = source.board ?? (typeof firmware === 'object' ? firmware?.board : undefined);
+  
+  if (typeof version !== 'string' && typeof board !== 'string') return null;
+  return {
+    version: typeof version === 'string' ? version.slice(0, 64) : undefined,
+    board: typeof board === 'string' ? board.slice(0, 64) : undefined
+  };
+};
+
+// Mark a device that reported in as connected, announcing it if it was not
+const markDeviceSeen = (deviceId) => {
+  const wasConnected = getDeviceState(deviceId).connectionStatus === 'connected';
+  const deviceState = updateDeviceState(deviceId, {
+    connectionStatus: 'connected',
+    lastSeen: new Date().toISOString()
+  });
+  
+  if (!wasConnected) {
+    io.emit('deviceStatusUpdate', {
+      deviceId,
+      status: 'connected',
+      timestamp: deviceState.lastSeen
+    });
+  }
+  return deviceState;
+};
+
+// Record the values a device reported and store a reading for every level
+// it is the sensor device of. Returns the plant types a reading was stored for.
+const ingestDeviceValues = (deviceId, values, deviceState) => {
+  const timestamp = new Date().toISOString();
+  sensorSources.recordDeviceValues(deviceId, values, new Date(timestamp).getTime());
+
+  // Raw values go to every client, which maps them onto levels itself
+  /** @type {DeviceReadingPayload} */
+  const deviceReading = { deviceId, data: { ...values, timestamp }, state: deviceState };
+  io.emit('deviceReading', deviceReading);
+
+  const levels = sensorSources.getLevelsToRecord(deviceId);
+  if (levels.length === 0) {
+    storage.insertReading('unknown', { ...values, timestamp, deviceId });
+    return ['unknown'];
+  }
+
+  levels.forEach(level => {
+    const reading = { ...sensorSources.composeLevelReading(level), deviceId };
+    storage.insertReading(level.id, reading);
+    
+    // Emit to all connected clients with proper event names
+    io.emit('dataUpdate', {
+      deviceId,
+      plantType: level.id,
+      data: reading,
+      state: deviceState
+    });
+  });
+  return levels.map(level => level.id);
+};
+
+// Enhanced Data Update Endpoint
+app.post('/update', (req, res) => {
+  try {
+    console.log('Raw update request body:', req.body);
+    
+    const { deviceId, data } = req.body;
+
+    if (!deviceId || !data) {
+      console.error('Missing deviceId or data', req.body);
+      return res.status(400).json({ 
+        error: 'Missing required fields',
+        required: ['deviceId', 'data'],
+        received: Object.keys(req.body)
+      });
+    }
+
+    // Mark the device as connected (creates its state if it does not exist)
+    const stateChanges = {
+      connectionStatus: 'connected',
+      lastSeen: new Date().toISOString()
+    };
+
+    // New boards show up in the registry so they can be assigned to a level
+    if (registry.registerDevice(deviceId)) {
+      console.log(`Registered new device ${deviceId}`);
+      broadcastRegistry();
+    }
+    
+    const firmware = parseFirmwareInfo(req.body) || parseFirmwareInfo(data);
+    if (firmware) {
+      registry.recordFirmware(deviceId, firmware);
+    }
+
+    // Update device state from sensor data
+    if (data.ledStatus !== undefined) {
+      stateChanges.light = Boolean(data.ledStatus);
+    }
+    if (data.waterPumpStatus !== undefined) {
+      stateChanges.waterPump = Boolean(data.waterPumpStatus);
+    }
+    if (data.nutrientPumpStatus !== undefined) {
+      stateChanges.nutrientPump = Boolean(data.nutrientPumpStatus);
+    }
+    const previousState = getDeviceState(deviceId);
+    const deviceState = updateDeviceState(deviceId, stateChanges);
+    trackActuatorRuns(deviceId, previousState, deviceState);
+
+    // Map the reported values onto every level they feed
+    const values = parseDevicePayload(data);
+    const plantTypes = ingestDeviceValues(deviceId, values, deviceState);
+    const plantType = plantTypes[0];
+
+    console.log(`Updated sensor data for ${deviceId} (${plantTypes.join(', ')}):`, values);
+    
+    // Also emit reservoir levels separately
+    io.emit('reservoirUpdate', buildReservoirLevels());
+    
+    runAutomationAfterReport(plantTypes);
+    
+    res.json({ 
+      status: 'success',
+      deviceId,
+      plantType,
+      receivedAt: new Date().toISOString(),
+      dataPoints: storage.countReadings(plantType)
+    });
+
+  } catch (error) {
+    console.error('Error in /update:', error);
+    res.status(500).json({ 
+      error: 'Internal server error',
+      message: error.message,
+      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+// Command Endpoint with Validation and Frontend Mapping
+app.post('/send-command', (req, res) => {
+  try {
+    const { deviceId, command, value, duration, plantType, dose } = req.body;
+    const idempotencyKey = req.body.idempotencyKey ?? req.get('Idempotency-Key');
+    
+    if (!deviceId || !command) {
+      return res.status(400).json({ 
+        error: 'Missing required fields',
+        required: ['deviceId', 'command'],
+        optional: ['state', 'idempotencyKey', 'dose', 'value', 'duration', 'plantType'],
+        received: Object.keys(req.body)
+      });
+    }
+
+    // Map frontend commands to backend commands
+    const commandMapping = {
+      'water': COMMAND_TYPES.WATER_PUMP,
+      'light': COMMAND_TYPES.LED,
+      'nutrients': COMMAND_TYPES.FERT_PUMP
+    };
+    
+    // Accept both upper and lower case command names (e.g. WATER_PUMP), and
+    // 'water:on' as shorthand for command 'water' with state 'on'
+    const [commandName, shorthandState] = String(command).split(':');
+    const backendCommand = Object.hasOwn(commandMapping, commandName) ? commandMapping[commandName] : commandName.toLowerCase();
+    const action = COMMAND_ACTIONS[backendCommand];
+    const desiredState = req.body.state ?? shorthandState ?? IMPLIED_STATES[backendCommand];
+
+    // Validate command type
+    if (!Object.values(COMMAND_TYPES).includes(backendCommand)) {
+      return res.status(400).json({
+        error: 'Invalid command type',
+        validCommands: Object.keys(commandMapping),
+        backendCommands: Object.values(COMMAND_TYPES)
+      });
+    }
+    
+    // A dose replaces the duration with the run time it needs
+    const dosing = resolveCommandDose({ deviceId, action, desiredState, dose });
+    const rejection = checkCommandRequest({ deviceId, action, desiredState, idempotencyKey }) ||
+      dosing.rejection ||
+      checkInterlocks({ deviceId, plantType, action, desiredState, duration, dosing });
+    if (rejection) {
+      return res.status(rejection.code).json({
+        error: rejection.error,
+        message: rejection.message,
+        command: rejection.command,
+        interlock: rejection.interlock
+      });
+    }
+
+    const commandObj = queueCommand({
+      deviceId,
+      command: backendCommand,
+      originalCommand: command,
+      value,
+      duration: dosing.durationMs ?? duration,
+      plantType,
+      issuedBy: req.ip,
+      desiredState,
+      idempotencyKey,
+      doseMl: dosing.doseMl
+    });
+    
+    // The command stays pending until the device acknowledges it
+    /** @type {SendCommandResponse} */
+    const response = {
+      status: 'success',
+      message: 'Command queued, waiting for the device to acknowledge it',
+      command: commandObj
+    };
+    res.json(response);
+
+  } catch (error) {
+    console.error('Error in /send-command:', error);
+    res.status(500).json({ 
+      error: 'Internal server error',
+      message: error.message,
+      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+// Flow rate of each pump of a device, calibrated or default
+app.get('/pump-calibration/:deviceId', (req, res) => {
+  try {
+    const { deviceId } = req.params;
+    if (!registry.getDevice(deviceId)) {
+      return res.status(404).json({ error: 'Device not found', deviceId });
+    }
+    
+    /** @type {PumpCalibrationResponse} */
+    const response = { deviceId, pumps: pumps.getCalibration(deviceId) };
+    res.json(response);
+  } catch (error) {
+    console.error('Error in /pump-calibration:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+});
+
+// Store a measured flow rate, e.g. after timing how long a pump takes to fill a jug
+app.put('/pump-calibration/:deviceId/:pump', (req, res) => {
+  try {
+    const { deviceId, pump } = req.params;
+    const { mlPerSecond } = req.body;
+    
+    if (!registry.getDevice(deviceId)) {
+      return res.status(404).json({ error: 'Device not found', deviceId });
+    }
+    if (!PUMPS.includes(pump)) {
+      return res.status(400).json({ error: 'Invalid pump', validPumps: PUMPS });
+    }
+    if (typeof mlPerSecond !== 'number' || !(mlPerSecond > 0) || mlPerSecond > MAX_FLOW_RATE) {
+      return res.status(400).json({
+        error: 'Invalid flow rate',
+        message: `mlPerSecond must be a number above 0 and at most ${MAX_FLOW_RATE}`
+      });
+    }
+    
+    /** @type {PumpCalibrationResponse} */
+    const response = { deviceId, pumps: pumps.setFlowRate(deviceId, pump, mlPerSecond) };
+    res.json(response);
+  } catch (error) {
+    console.error('Error in /pump-calibration:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+});
+
+// Limits of every actuator and the switched actuators currently running
+/** @returns {InterlockLimitsResponse} */
+const buildInterlocksResponse = () => ({
+  limits: interlocks.getAllLimits(),
+  runs: interlocks.getRuns().map(run => ({ ...run, startedAt: new Date(run.startedAt).toISOString() }))
+});
+
+// Safety limits of every actuator
+app.get('/interlocks', (req, res) => {
+  try {
+    res.json(buildInterlocksResponse());
+  } catch (error) {
+    console.error('Error in /interlocks:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+});
+
+// Change some limits of an actuator; null disables a limit
+app.put('/interlocks/:actuator', (req, res) => {
+  try {
+    const { actuator } = req.params;
+    const validationError = validateLimits(actuator, req.body);
+    if (validationError) {
+      return res.status(400).json({ error: 'Invalid interlock limits', message: validationError });
+    }
+    
+    interlocks.setLimits(actuator, req.body);
+    
+    // Running actuators are held to the new run time
+    interlocks.getRuns()
+      .filter(run => run.actuator === actuator)
+      .forEach(run => armAutoOff(run.deviceId, actuator, run.startedAt));
+    
+    res.json(buildInterlocksResponse());
+  } catch (error) {
+    console.error('Error in /interlocks:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+});
+
+// Irrigation and lighting settings and what the automation is doing, per level
+app.get('/automation', (req, res) => {
+  try {
+    /** @type {AutomationResponse} */
+    const response = {
+      levels: registry.getLevels().reduce((acc, level) => {
+        acc[level.id] = {
+          irrigation: automation.getIrrigation(level.id),
+          irrigationStatus: automation.getStatus(level.id),
+          lighting: automation.getLighting(level.id),
+          lightingStatus: automation.getLightingStatus(level.id),
+          nutrients: nutrients.getSettings(level.id),
+          nutrientPlan: nutrients.getPlan(level.id)
+        };
+        return acc;
+      }, {})
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error in /automation:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+});
+
+// Switch a level between auto and manual irrigation or change its moisture
+// band; omitted settings keep their value
+app.put('/automation/:plantType/irrigation', (req, res) => {
+  try {
+    const { plantType } = req.params;
+    const level = registry.getLevel(plantType);
+    if (!level) {
+      return res.status(404).json({ error: 'Plant type not found', plantType });
+    }
+    
+    const validationError = validateIrrigation(req.body, automation.getIrrigation(plantType));
+    if (validationError) {
+      return res.status(400).json({ error: 'Invalid irrigation settings', message: validationError });
+    }
+    
+    const irrigation = automation.saveIrrigation(plantType, req.body);
+    runIrrigation(level);
+    
+    /** @type {SaveIrrigationResponse} */
+    const response = { plantType, irrigation, status: automation.getStatus(plantType) };
+    res.json(response);
+  } catch (error) {
+    console.error('Error in /automation:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+});
+
+// Switch a level between recommended and automatic fertilizer doses or change
+// its NPK targets; omitted settings keep their value
+app.put('/automation/:plantType/nutrients', (req, res) => {
+  try {
+    const { plantType } = req.params;
+    const level = registry.getLevel(plantType);
+    if (!level) {
+      return res.status(404).json({ error: 'Plant type not found', plantType });
+    }
+    
+    const validationError = validateNutrientSettings(req.body, nutrients.getSettings(plantType));
+    if (validationError) {
+      return res.status(400).json({ error: 'Invalid nutrient settings', message: validationError });
+    }
+    
+    const settings = nutrients.saveSettings(plantType, req.body);
+    runNutrients(level);
+    
+    /** @type {SaveNutrientSettingsResponse} */
+    const response = { plantType, nutrients: settings, plan: nutrients.getPlan(plantType) };
+    res.json(response);
+  } catch (error) {
+    console.error('Error in /automation:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+});
+
+// Recent fertilizer doses of a level with the readings before and after each
+app.get('/nutrient-doses/:plantType', (req, res) => {
+  try {
+    const { plantType } = req.params;
+    if (!registry.getLevel(plantType)) {
+      return res.status(404).json({ error: 'Plant type not found', plantType });
+    }
+    
+    const limit = req.query.limit === undefined ? 20 : parseInt(req.query.limit, 10);
+    if (isNaN(limit) || limit < 1 || limit > 100) {
+      return res.status(400).json({ error: 'Invalid limit', message: 'limit must be between 1 and 100' });
+    }
+    
+    /** @type {NutrientDosesResponse} */
+    const response = { plantType, doses: nutrients.getDoses(plantType, limit) };
+    res.json(response);
+  } catch (error) {
+    console.error('Error in /nutrient-doses:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+});
+
+// Switch a level between auto and manual lighting or change its photoperiod
+// and lux threshold; omitted settings keep their value
+app.put('/automation/:plantType/lighting', (req, res) => {
+  try {
+    const { plantType } = req.params;
+    const level = registry.getLevel(plantType);
+    if (!level) {
+      return res.status(404).json({ error: 'Plant type not found', plantType });
+    }
+    
+    const validationError = validateLighting(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: 'Invalid lighting settings', message: validationError });
+    }
+    
+    const lighting = automation.saveLighting(plantType, req.body);
+    runLighting(level);
+    
+    /** @type {SaveLightingResponse} */
+    const response = { plantType, lighting, status: automation.getLightingStatus(plantType) };
+    res.json(response);
+  } catch (error) {
+    console.error('Error in /automation:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+});
+
+// Scheduled jobs of a level with their upcoming occurrences
+app.get('/schedules/:plantType', (req, res) => {
+  try {
+    const { plantType } = req.params;
+    if (!registry.getLevel(plantType)) {
+      return res.status(404).json({ error: 'Plant type not found', plantType });
+    }
+    
+    const days = req.query.days === undefined ? SCHEDULE_DAYS : parseInt(req.query.days, 10);
+    if (isNaN(days) || days < 1 || days > 31) {
+      return res.status(400).json({ error: 'Invalid days', message: 'days must be between 1 and 31' });
+    }
+    
+    res.json(buildSchedules(plantType, days));
+  } catch (error) {
+    console.error('Error in /schedules:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+});
+
+// Add a recurring job to a level, e.g. { action: 'water:on', dose: { seconds: 20 }, time: '06:00' }
+app.post('/schedules/:plantType', (req, res) => {
+  try {
+    const { plantType } = req.params;
+    if (!registry.getLevel(plantType)) {
+      return res.status(404).json({ error: 'Plant type not found', plantType });
+    }
+    
+    const validationError = validateJob(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: 'Invalid job', message: validationError });
+    }
+    
+    const job = scheduler.createJob(plantType, req.body);
+    console.log(`Scheduled ${job.label} for ${plantType}`);
+    broadcastSchedules(plantType);
+    
+    /** @type {SaveScheduleResponse} */
+    const response = { plantType, job };
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error in /schedules:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+});
+
+// Look up the job of a schedule route, or answer with the 404 that describes
+// what is missing
+const findJob = (req, res) => {
+  const { plantType, jobId } = req.params;
+  if (!registry.getLevel(plantType)) {
+    res.status(404).json({ error: 'Plant type not found', plantType });
+    return null;
+  }
+  
+  const job = scheduler.getJob(jobId);
+  if (!job || job.plantType !== plantType) {
+    res.status(404).json({ error: 'Job not found', message: `No job ${jobId} for ${plantType}` });
+    return null;
+  }
+  return job;
+};
+
+// Change or pause a job; omitted fields keep their value
+app.put('/schedules/:plantType/:jobId', (req, res) => {
   try {
-    const { plantType } = req.params;
-    const deviceId = Object.keys(devicePlantMap).find(id => devicePlantMap[id] === plantType);
+    const current = findJob(req, res);
+    if (!current) return;
     
-    if (!deviceId) {
-      return res.status(404).json({ 
-        error: 'Plant type not found',
-        availableTypes: Object.values(devicePlantMap)
-      });
+    const validationError = validateJob(req.body, current);
+    if (validationError) {
+      return res.status(400).json({ error: 'Invalid job', message: validationError });
     }
     
-    const data = sensorData[deviceId];
-    if (!data) {
-      return res.status(404).json({ 
-        error: 'No sensor data available for this plant type',
-        deviceId
-      });
-    }
+    const job = scheduler.updateJob(current.id, req.body);
+    broadcastSchedules(job.plantType);
     
-    res.json({
-      plantType,
-      deviceId,
-      data,
-      deviceState: deviceStates[deviceId]
-    });
+    /** @type {SaveScheduleResponse} */
+    const response = { plantType: job.plantType, job };
+    res.json(response);
   } catch (error) {
-    console.error('Error in /sensor-data:', error);
-    res.status(500).json({ 
+    console.error('Error in /schedules:', error);
+    res.status(500).json({
       error: 'Internal server error',
       message: error.message
     });
   }
 });
 
-// Get historical data for specific plant type
-app.get('/historical-data/:plantType', (req, res) => {
+// Delete a job; its run history is kept
+app.delete('/schedules/:plantType/:jobId', (req, res) => {
   try {
-    const { plantType } = req.params;
-    const data = historicalData[plantType] || [];
+    const job = findJob(req, res);
+    if (!job) return;
     
-    res.json({
-      plantType,
-      data,
-      count: data.length
-    });
+    scheduler.deleteJob(job.id);
+    console.log(`Deleted scheduled ${job.label} of ${job.plantType}`);
+    res.json(broadcastSchedules(job.plantType));
   } catch (error) {
-    console.error('Error in /historical-data:', error);
-    res.status(500).json({ 
+    console.error('Error in /schedules:', error);
+    res.status(500).json({
       error: 'Internal server error',
       message: error.message
     });
   }
 });
 
-// Enhanced Data Update Endpoint
-app.post('/update', (req, res) => {
+// Skip one upcoming occurrence of a job, or take the skip back:
+// { occurrenceAt, skipped }
+app.put('/schedules/:plantType/:jobId/skips', (req, res) => {
   try {
-    console.log('Raw update request body:', req.body);
+    const job = findJob(req, res);
+    if (!job) return;
     
-    const { deviceId, data } = req.body;
-
-    if (!deviceId || !data) {
-      console.error('Missing deviceId or data', req.body);
-      return res.status(400).json({ 
-        error: 'Missing required fields',
-        required: ['deviceId', 'data'],
-        received: Object.keys(req.body)
-      });
-    }
-
-    // Initialize device state if not exists
-    if (!deviceStates[deviceId]) {
-      deviceStates[deviceId] = {
-        light: false,
-        waterPump: false,
-        nutrientPump: false,
-        lastWatered: null,
-        lastNutrients: null,
-        lastUpdated: new Date().toISOString(),
-        connectionStatus: 'connected',
-        lastSeen: new Date().toISOString()
-      };
-    } else {
-      deviceStates[deviceId].connectionStatus = 'connected';
-      deviceStates[deviceId].lastSeen = new Date().toISOString();
-    }
-
-    // Process data based on device type
-    let processedData = {};
-    
-    if (deviceId === 'esp32_1') {
-      // ESP32_1 data processing
-      processedData = {
-        temperature: parseFloat(data.temperature) || 20,
-        humidity: parseFloat(data.humidity) || 50,
-        moisture: parseFloat(data.moisture_percent || data.moisture) || 0,
-        sunlight: parseFloat(data.lux || data.lightLevel) || 0,
-        nitrogen: parseFloat(data.npk?.N || data.nitrogen) || 0,
-        phosphorus: parseFloat(data.npk?.P || data.phosphorus) || 0,
-        potassium: parseFloat(data.npk?.K || data.potassium) || 0,
-        waterLevel: parseFloat(data.waterLevelPercent || data.waterLevel) || 0,
-        timestamp: new Date().toISOString(),
-        deviceId
-      };
-    } else if (deviceId === 'esp32_2') {
-      // ESP32_2 data processing
-      processedData = {
-        temperature: sensorData['esp32_1']?.temperature || 20, // Use ESP32_1 temperature
-        humidity: sensorData['esp32_1']?.humidity || 50, // Use ESP32_1 humidity
-        moisture: parseFloat(data.soil_moisture_percent || data.moisture) || 0,
-        sunlight: parseFloat(data.lux || data.ldr) || 0,
-        nitrogen: parseFloat(data.nitrogen) || 0,
-        phosphorus: parseFloat(data.phosphorus) || 0,
-        potassium: parseFloat(data.potassium) || 0,
-        fertilizerLevel: parseFloat(data.fertilizer_level) || 0,
-        timestamp: new Date().toISOString(),
-        deviceId
-      };
-    }
-
-    // Store latest data
-    sensorData[deviceId] = processedData;
-
-    // Update device state from sensor data
-    if (data.ledStatus !== undefined) {
-      deviceStates[deviceId].light = Boolean(data.ledStatus);
-    }
-    if (data.waterPumpStatus !== undefined) {
-      deviceStates[deviceId].waterPump = Boolean(data.waterPumpStatus);
-    }
-    if (data.nutrientPumpStatus !== undefined) {
-      deviceStates[deviceId].nutrientPump = Boolean(data.nutrientPumpStatus);
+    const { occurrenceAt, skipped } = req.body || {};
+    if (typeof occurrenceAt !== 'string' || typeof skipped !== 'boolean') {
+      return res.status(400).json({ error: 'Invalid skip', message: 'occurrenceAt (ISO time) and skipped (boolean) are required' });
     }
-    deviceStates[deviceId].lastUpdated = new Date().toISOString();
-
-    // Historical storage
-    const plantType = devicePlantMap[deviceId] || 'unknown';
-    
-    if (!historicalData[plantType]) {
-      historicalData[plantType] = [];
+    const skipError = scheduler.setSkipped(job.id, occurrenceAt, skipped);
+    if (skipError) {
+      return res.status(400).json({ error: 'Invalid skip', message: skipError });
     }
-    historicalData[plantType].push(processedData);
     
-    // Keep only last 100 records per plant type
-    if (historicalData[plantType].length > 100) {
-      historicalData[plantType] = historicalData[plantType].slice(-100);
-    }
-
-    console.log(`Updated sensor data for ${deviceId} (${plantType}):`, processedData);
+    broadcastSchedules(job.plantType);
     
-    // Emit to all connected clients with proper event names
-    io.emit('dataUpdate', { 
-      deviceId, 
-      plantType,
-      data: processedData, 
-      state: deviceStates[deviceId] 
+    /** @type {SaveScheduleResponse} */
+    const response = { plantType: job.plantType, job: scheduler.getJob(job.id) };
+    res.json(response);
+  } catch (error) {
+    console.error('Error in /schedules:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
     });
+  }
+});
+
+// Whether each recent occurrence of a level's jobs ran, newest first
+app.get('/schedule-runs/:plantType', (req, res) => {
+  try {
+    const { plantType } = req.params;
+    if (!registry.getLevel(plantType)) {
+      return res.status(404).json({ error: 'Plant type not found', plantType });
+    }
     
-    // Also emit reservoir levels separately
-    const reservoirLevels = {
-      water: sensorData['esp32_1']?.waterLevel || 75,
-      waterCm: Math.round((sensorData['esp32_1']?.waterLevel || 75) * 0.2), // Convert % to cm
-      fertilizer: sensorData['esp32_2']?.fertilizerLevel || 60,
-      fertilizerCm: Math.round((sensorData['esp32_2']?.fertilizerLevel || 60) * 0.2) // Convert % to cm
-    };
-    
-    io.emit('reservoirUpdate', reservoirLevels);
+    const limit = req.query.limit === undefined ? 20 : parseInt(req.query.limit, 10);
+    if (isNaN(limit) || limit < 1 || limit > 100) {
+      return res.status(400).json({ error: 'Invalid limit', message: 'limit must be between 1 and 100' });
+    }
     
-    res.json({ 
-      status: 'success',
-      deviceId,
-      plantType,
-      receivedAt: new Date().toISOString(),
-      dataPoints: historicalData[plantType]?.length || 0
+    /** @type {ScheduleRunsResponse} */
+    const response = { plantType, runs: scheduler.getRuns(plantType, limit) };
+    res.json(response);
+  } catch (error) {
+    console.error('Error in /schedule-runs:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
     });
+  }
+});
+
+app.get('/emergency-stop', (req, res) => {
+  /** @type {EmergencyStopResponse} */
+  const response = { state: interlocks.getEmergencyStop() };
+  res.json(response);
+});
 
+// Engage the emergency stop; it stays latched until cleared
+app.post('/emergency-stop', (req, res) => {
+  try {
+    const { reason, engagedBy } = req.body || {};
+    res.json(engageEmergencyStop({
+      engagedBy: typeof engagedBy === 'string' && engagedBy ? engagedBy.slice(0, 128) : req.ip,
+      reason: typeof reason === 'string' && reason ? reason.slice(0, 500) : null
+    }));
   } catch (error) {
-    console.error('Error in /update:', error);
-    res.status(500).json({ 
+    console.error('Error in /emergency-stop:', error);
+    res.status(500).json({
       error: 'Internal server error',
-      message: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      message: error.message
     });
   }
 });
 
-// Command Endpoint with Validation and Frontend Mapping
-app.post('/send-command', (req, res) => {
+// Release the latch; nothing is switched back on
+app.post('/emergency-stop/clear', (req, res) => {
   try {
-    const { deviceId, command, value, duration, plantType } = req.body;
+    const { clearedBy } = req.body || {};
+    const state = interlocks.clearEmergencyStop({
+      clearedBy: typeof clearedBy === 'string' && clearedBy ? clearedBy.slice(0, 128) : req.ip
+    });
+    console.log(`Emergency stop cleared by ${state.clearedBy}`);
+    io.emit('emergencyStop', state);
     
-    if (!deviceId || !command) {
-      return res.status(400).json({ 
-        error: 'Missing required fields',
-        required: ['deviceId', 'command'],
-        optional: ['value', 'duration', 'plantType'],
-        received: Object.keys(req.body)
-      });
-    }
+    /** @type {EmergencyStopResponse} */
+    const response = { state };
+    res.json(response);
+  } catch (error) {
+    console.error('Error in /emergency-stop/clear:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+});
 
-    // Map frontend commands to backend commands
-    const commandMapping = {
-      'water': 'WATER_PUMP',
-      'light': 'LED',
-      'nutrients': 'FERT_PUMP'
-    };
+// Devices report the outcome of a command by its id
+app.post('/command-ack', (req, res) => {
+  try {
+    /** @type {CommandAckPayload} */
+    const ack = req.body;
+    const result = acknowledgeCommand(ack);
     
-    const backendCommand = commandMapping[command] || command;
-
-    // Validate command type
-    if (!Object.values(COMMAND_TYPES).includes(backendCommand)) {
-      return res.status(400).json({
-        error: 'Invalid command type',
-        validCommands: Object.keys(commandMapping),
-        backendCommands: Object.values(COMMAND_TYPES)
+    if (result.error) {
+      return res.status(result.code).json({
+        error: result.error,
+        message: result.message,
+        command: result.command
       });
     }
-
-    // Create command object
-    const commandObj = {
-      id: Date.now().toString(),
-      command: backendCommand,
-      originalCommand: command,
-      value: value !== undefined ? value : 1,
-      deviceId,
-      plantType: plantType || devicePlantMap[deviceId],
-      duration: duration || 3000,
-      timestamp: new Date().toISOString(),
-      status: COMMAND_STATUS.PENDING,
-      issuedBy: req.ip
+    
+    /** @type {CommandAckResponse} */
+    const response = {
+      status: 'success',
+      command: result.command
     };
+    res.json(response);
+  } catch (error) {
+    console.error('Error in /command-ack:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+});
 
-    // Initialize command queue if not exists
-    if (!pendingCommands[deviceId]) {
-      pendingCommands[deviceId] = [];
+// HTTP polling for boards without a socket connection: returns the device's
+// pending commands, oldest first, and leases them until they are acknowledged
+app.get('/get-commands/:deviceId', (req, res) => {
+  try {
+    const { deviceId } = req.params;
+    const limit = req.query.limit === undefined ? 10 : parseInt(req.query.limit, 10);
+    
+    if (!ID_PATTERN.test(deviceId)) {
+      return res.status(400).json({ error: 'Invalid device id', message: 'Use letters, digits, _ and - only' });
     }
-    pendingCommands[deviceId].push(commandObj);
-
-    // Update device state (predictive)
-    if (command === 'light') {
-      deviceStates[deviceId].light = !deviceStates[deviceId].light;
-    } else if (command === 'water') {
-      deviceStates[deviceId].waterPump = !deviceStates[deviceId].waterPump;
-      if (deviceStates[deviceId].waterPump) {
-        deviceStates[deviceId].lastWatered = new Date().toISOString();
-      }
-    } else if (command === 'nutrients') {
-      deviceStates[deviceId].lastNutrients = new Date().toISOString();
+    if (isNaN(limit) || limit < 1 || limit > 50) {
+      return res.status(400).json({ error: 'Invalid limit', message: 'limit must be between 1 and 50' });
     }
-
-    console.log(`New command queued for ${deviceId}:`, commandObj);
     
-    // Broadcast via WebSocket with proper response format
-    io.emit('controlResponse', {
-      action: command,
+    // Polling counts as reporting in, and may be the first contact of a new board
+    if (registry.registerDevice(deviceId)) {
+      console.log(`Registered new device ${deviceId}`);
+      broadcastRegistry();
+    }
+    const firmware = parseFirmwareInfo(req.query);
+    if (firmware) {
+      registry.recordFirmware(deviceId, firmware);
+    }
+    markDeviceSeen(deviceId);
+    
+    const commands = storage.getCommandsByStatus(COMMAND_STATUS.PENDING, deviceId)
+      .filter(command => !isLeased(command.id))
+      .slice(0, limit)
+      .map(command => ({
+        ...toCommandStatus(command),
+        leasedUntil: new Date(leaseCommand(command.id)).toISOString()
+      }));
+    
+    /** @type {GetCommandsResponse} */
+    const response = {
       deviceId,
-      plantType: commandObj.plantType,
-      success: true,
-      active: command === 'light' ? deviceStates[deviceId].light : 
-              command === 'water' ? deviceStates[deviceId].waterPump : false,
-      message: `${command} command executed successfully`,
+      commands,
+      count: commands.length,
+      leaseMs: COMMAND_LEASE_MS,
       timestamp: new Date().toISOString()
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error in /get-commands:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
     });
+  }
+});
+
+// Actuator state, connection and firmware of one device
+app.get('/device-status/:deviceId', (req, res) => {
+  try {
+    const { deviceId } = req.params;
+    const device = registry.getDevice(deviceId);
     
-    // Send command to ESP32 device
-    io.to(`device_${deviceId}`).emit('executeCommand', {
-      command: backendCommand,
-      value: commandObj.value,
-      duration: commandObj.duration
-    });
-    
-    // Set timeout for command (5 minutes)
-    const timeout = setTimeout(() => {
-      const cmdIndex = pendingCommands[deviceId].findIndex(c => c.id === commandObj.id);
-      if (cmdIndex !== -1 && pendingCommands[deviceId][cmdIndex].status === COMMAND_STATUS.PENDING) {
-        pendingCommands[deviceId][cmdIndex].status = COMMAND_STATUS.TIMEOUT;
-        pendingCommands[deviceId][cmdIndex].timeoutAt = new Date().toISOString();
-        
-        io.emit('controlResponse', {
-          action: command,
-          deviceId,
-          success: false,
-          message: `${command} command timed out`,
-          timestamp: new Date().toISOString()
-        });
-        
-        console.log(`Command ${commandObj.id} timed out`);
-      }
-    }, 5 * 60 * 1000); // 5 minutes
-    
-    // Store timeout reference for cleanup
-    commandObj.timeoutRef = timeout;
+    if (!device) {
+      return res.status(404).json({
+        error: 'Device not found',
+        availableDevices: registry.getDevices().map(({ id }) => id)
+      });
+    }
     
-    res.json({
-      status: 'success',
-      message: 'Command received and queued',
-      command: commandObj
-    });
-
+    /** @type {DeviceStatusResponse} */
+    const response = {
+      deviceId,
+      name: device.name,
+      state: getDeviceState(deviceId),
+      firmware: registry.getFirmware(deviceId),
+      levels: registry.getLevelsUsingDevice(deviceId).map(level => level.id),
+      pendingCommands: storage.getCommandsByStatus(COMMAND_STATUS.PENDING, deviceId).length,
+      timestamp: new Date().toISOString()
+    };
+    res.json(response);
   } catch (error) {
-    console.error('Error in /send-command:', error);
-    res.status(500).json({ 
+    console.error('Error in /device-status:', error);
+    res.status(500).json({
       error: 'Internal server error',
-      message: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      message: error.message
     });
   }
 });
@@ -514,8 +2169,8 @@ app.get('/test-emit', (req, res) => {
     message: 'Test message from server',
     timestamp: new Date().toISOString(),
     randomValue: Math.random(),
-    sensorData: sensorData,
-    deviceStates: deviceStates
+    sensorData: storage.getLatestReadings(),
+    deviceStates: storage.getDeviceStates()
   };
   
   io.emit('testEvent', testData);
@@ -534,31 +2189,20 @@ io.on('connection', (socket) => {
   console.log(`📡 New client connected [${socket.id}] from ${clientIp}`);
   
   // Send initial data to newly connected client
-  const initData = { 
-    sensorData: sensorData,
-    deviceStates: deviceStates,
-    reservoirLevels: {
-      water: sensorData['esp32_1']?.waterLevel || 75,
-      waterCm: Math.round((sensorData['esp32_1']?.waterLevel || 75) * 0.2),
-      fertilizer: sensorData['esp32_2']?.fertilizerLevel || 60,
-      fertilizerCm: Math.round((sensorData['esp32_2']?.fertilizerLevel || 60) * 0.2)
-    },
-    pendingCommands: Object.keys(pendingCommands).reduce((acc, key) => {
-      acc[key] = pendingCommands[key].filter(cmd => cmd.status === COMMAND_STATUS.PENDING);
-      return acc;
-    }, {}),
-    timestamp: new Date().toISOString()
-  };
-  
-  socket.emit('initData', initData);
+  socket.emit('initData', buildInitData());
   console.log(`[${socket.id}] Sent initial data`);
 
   // Handle ESP32 device connections
   socket.on('deviceConnect', (deviceId) => {
-    if (devicePlantMap[deviceId]) {
+    if (typeof deviceId === 'string' && ID_PATTERN.test(deviceId)) {
+      if (registry.registerDevice(deviceId)) {
+        broadcastRegistry();
+      }
       socket.join(`device_${deviceId}`);
-      deviceStates[deviceId].connectionStatus = 'connected';
-      deviceStates[deviceId].lastSeen = new Date().toISOString();
+      updateDeviceState(deviceId, {
+        connectionStatus: 'connected',
+        lastSeen: new Date().toISOString()
+      });
       console.log(`Device ${deviceId} connected and joined room device_${deviceId}`);
       
       // Notify all clients about device connection
@@ -578,29 +2222,9 @@ io.on('connection', (socket) => {
       console.log(`[${socket.id}] Requested initial data for:`, { plantType, deviceId, deviceIds });
       
       // Send data for specific device or all devices
-      const targetDevices = deviceIds || (deviceId ? [deviceId] : Object.keys(sensorData));
-      
-      const responseData = {
-        sensorData: {},
-        reservoirLevels: {
-          water: sensorData['esp32_1']?.waterLevel || 75,
-          waterCm: Math.round((sensorData['esp32_1']?.waterLevel || 75) * 0.2),
-          fertilizer: sensorData['esp32_2']?.fertilizerLevel || 60,
-          fertilizerCm: Math.round((sensorData['esp32_2']?.fertilizerLevel || 60) * 0.2)
-        },
-        wateringActive: deviceStates['esp32_1']?.waterPump || false,
-        lightActive: deviceStates[deviceId || 'esp32_1']?.light || false,
-        timestamp: new Date().toISOString()
-      };
-      
-      // Add sensor data for requested devices
-      targetDevices.forEach(devId => {
-        if (sensorData[devId]) {
-          responseData.sensorData[devId] = sensorData[devId];
-        }
-      });
+      const targetDevices = deviceIds || (deviceId ? [deviceId] : undefined);
       
-      socket.emit('initData', responseData);
+      socket.emit('initData', buildInitData(targetDevices));
       
     } catch (error) {
       console.error(`[${socket.id}] Error in requestInitialData:`, error);
@@ -614,15 +2238,15 @@ io.on('connection', (socket) => {
   // Handle control commands from frontend
   socket.on('control', (data) => {
     try {
-      const { deviceId, command, value, plantType } = data;
+      const { deviceId, command, state, idempotencyKey, dose, value, plantType } = data;
       
-      console.log(`[${socket.id}] Control command received:`, { deviceId, command, value, plantType });
+      console.log(`[${socket.id}] Control command received:`, { deviceId, command, state, idempotencyKey, dose, value, plantType });
       
       if (!deviceId || !command) {
         return socket.emit('controlResponse', { 
           success: false,
-          error: 'Missing deviceId or command',
-          received: data
+          message: 'Missing deviceId or command',
+          error: 'Missing deviceId or command'
         });
       }
 
@@ -633,35 +2257,45 @@ io.on('connection', (socket) => {
         'nutrient_pump': 'nutrients'
       };
       
-      const frontendAction = commandMapping[command] || command;
-
-      // Update device state
-      if (command === 'grow_light') {
-        deviceStates[deviceId].light = !deviceStates[deviceId].light;
-      } else if (command === 'water_pump') {
-        deviceStates[deviceId].waterPump = !deviceStates[deviceId].waterPump;
-        if (deviceStates[deviceId].waterPump) {
-          deviceStates[deviceId].lastWatered = new Date().toISOString();
-        }
-      } else if (command === 'nutrient_pump') {
-        deviceStates[deviceId].lastNutrients = new Date().toISOString();
+      if (!Object.hasOwn(commandMapping, command)) {
+        return socket.emit('controlResponse', {
+          success: false,
+          message: `Unknown command ${command}`,
+          error: 'Invalid command type'
+        });
       }
 
-      // Send response
-      const response = {
-        action: frontendAction,
+      const action = commandMapping[command];
+      const dosing = resolveCommandDose({ deviceId, action, desiredState: state, dose });
+      const rejection = checkCommandRequest({ deviceId, action, desiredState: state, idempotencyKey }) ||
+        dosing.rejection ||
+        checkInterlocks({ deviceId, plantType, action, desiredState: state, dosing });
+      if (rejection) {
+        return socket.emit('controlResponse', {
+          action,
+          deviceId,
+          plantType,
+          commandId: rejection.command?.id,
+          success: false,
+          message: rejection.message,
+          error: rejection.error,
+          interlock: rejection.interlock
+        });
+      }
+
+      // Same lifecycle as POST /send-command: pending until the device acks
+      queueCommand({
         deviceId,
+        command,
+        originalCommand: action,
+        value,
+        duration: dosing.durationMs,
         plantType,
-        success: true,
-        active: command === 'grow_light' ? deviceStates[deviceId].light : 
-                command === 'water_pump' ? deviceStates[deviceId].waterPump : false,
-        message: `${frontendAction} command executed successfully`,
-        timestamp: new Date().toISOString()
-      };
-      
-      // Broadcast to all clients
-      io.emit('controlResponse', response);
-      
+        issuedBy: clientIp,
+        desiredState: state,
+        idempotencyKey,
+        doseMl: dosing.doseMl
+      });
     } catch (error) {
       console.error(`[${socket.id}] Error in control:`, error);
       socket.emit('controlResponse', {
@@ -672,6 +2306,26 @@ io.on('connection', (socket) => {
     }
   });
 
+  // Devices acknowledge executeCommand by id
+  socket.on('commandAck', (ack) => {
+    try {
+      const result = acknowledgeCommand(ack);
+      if (result.error) {
+        console.warn(`[${socket.id}] Rejected command ack:`, result.message);
+        socket.emit('error', {
+          message: result.message,
+          error: result.error
+        });
+      }
+    } catch (error) {
+      console.error(`[${socket.id}] Error in commandAck:`, error);
+      socket.emit('error', {
+        message: 'Failed to acknowledge command',
+        error: error.message
+      });
+    }
+  });
+
   // Handle plant type changes
   socket.on('setPlantType', (data) => {
     try {
@@ -679,12 +2333,13 @@ io.on('connection', (socket) => {
       console.log(`[${socket.id}] Plant type changed to:`, { plantType, deviceId });
       
       // Send current data for the new plant type
-      if (sensorData[deviceId]) {
+      const latestReading = storage.getLatestReading(deviceId);
+      if (latestReading) {
         socket.emit('dataUpdate', {
           deviceId,
           plantType,
-          data: sensorData[deviceId],
-          state: deviceStates[deviceId]
+          data: latestReading,
+          state: getDeviceState(deviceId)
         });
       }
       
@@ -702,45 +2357,70 @@ io.on('connection', (socket) => {
   });
 });
 
-// Simulate sensor data updates for testing
+// Simulate sensor data updates for testing (enable with SIMULATE_SENSORS=true).
+// Simulated readings only go to clients: they are never stored, so history,
+// rollups and automation only see what devices actually reported.
+const SIMULATE_SENSORS = process.env.SIMULATE_SENSORS === 'true';
+
+// Starting point of a device that has not reported anything yet
+const SAMPLE_READING = {
+  temperature: 22.5,
+  humidity: 65,
+  moisture: 72,
+  sunlight: 2800, // LDR value
+  nitrogen: 45,
+  phosphorus: 38,
+  potassium: 52,
+  waterLevel: 75,
+  fertilizerLevel: 60
+};
+
+// Latest simulated values per device, kept in memory only
+const simulatedValues = new Map();
+
 setInterval(() => {
-  Object.keys(sensorData).forEach(deviceId => {
-    if (sensorData[deviceId]) {
-      // Add small random variations to simulate real sensor readings
-      const data = sensorData[deviceId];
-      
-      sensorData[deviceId] = {
-        ...data,
-        temperature: Math.max(15, Math.min(30, data.temperature + (Math.random() - 0.5) * 2)),
-        humidity: Math.max(30, Math.min(90, data.humidity + (Math.random() - 0.5) * 5)),
-        moisture: Math.max(0, Math.min(100, data.moisture + (Math.random() - 0.5) * 3)),
-        sunlight: Math.max(0, Math.min(4095, data.sunlight + (Math.random() - 0.5) * 200)),
-        nitrogen: Math.max(0, Math.min(100, data.nitrogen + (Math.random() - 0.5) * 2)),
-        phosphorus: Math.max(0, Math.min(100, data.phosphorus + (Math.random() - 0.5) * 2)),
-        potassium: Math.max(0, Math.min(100, data.potassium + (Math.random() - 0.5) * 2)),
-        timestamp: new Date().toISOString()
-      };
-      
-      // Emit updated data
-      const plantType = devicePlantMap[deviceId];
+  if (!SIMULATE_SENSORS) return;
+  
+  registry.getDevices().forEach(({ id: deviceId }) => {
+    const data = simulatedValues.get(deviceId) || sensorSources.getDeviceReading(deviceId) || SAMPLE_READING;
+    
+    // Add small random variations to simulate real sensor readings
+    const vary = (metric, spread, min, max) =>
+      Math.max(min, Math.min(max, data[metric] + (Math.random() - 0.5) * spread));
+    const simulatedData = {
+      ...data,
+      temperature: vary('temperature', 2, 15, 30),
+      humidity: vary('humidity', 5, 30, 90),
+      moisture: vary('moisture', 3, 0, 100),
+      sunlight: vary('sunlight', 200, 0, 4095),
+      nitrogen: vary('nitrogen', 2, 0, 100),
+      phosphorus: vary('phosphorus', 2, 0, 100),
+      potassium: vary('potassium', 2, 0, 100)
+    };
+    
+    // Only simulate the metrics the device actually reports
+    const values = SENSOR_METRICS.reduce((acc, metric) => {
+      if (data[metric] !== undefined) acc[metric] = simulatedData[metric];
+      return acc;
+    }, {});
+    simulatedValues.set(deviceId, values);
+    
+    // Emit updated data for every level the device reads for
+    const timestamp = new Date().toISOString();
+    const deviceState = getDeviceState(deviceId);
+    io.emit('deviceReading', { deviceId, data: { ...values, timestamp }, state: deviceState });
+    sensorSources.getLevelsToRecord(deviceId).forEach(level => {
       io.emit('dataUpdate', {
         deviceId,
-        plantType,
-        data: sensorData[deviceId],
-        state: deviceStates[deviceId]
+        plantType: level.id,
+        data: { ...sensorSources.composeLevelReading(level), ...values, timestamp, deviceId },
+        state: deviceState
       });
-    }
+    });
   });
   
   // Update reservoir levels
-  const reservoirLevels = {
-    water: sensorData['esp32_1']?.waterLevel || 75,
-    waterCm: Math.round((sensorData['esp32_1']?.waterLevel || 75) * 0.2),
-    fertilizer: sensorData['esp32_2']?.fertilizerLevel || 60,
-    fertilizerCm: Math.round((sensorData['esp32_2']?.fertilizerLevel || 60) * 0.2)
-  };
-  
-  io.emit('reservoirUpdate', reservoirLevels);
+  io.emit('reservoirUpdate', buildReservoirLevels());
   
 }, 30000); // Update every 30 seconds
 
@@ -749,27 +2429,12 @@ setInterval(() => {
   const now = new Date();
   const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
   
-  // Cleanup pending commands
-  Object.keys(pendingCommands).forEach(deviceId => {
-    pendingCommands[deviceId] = pendingCommands[deviceId].filter(command => {
-      const commandTime = new Date(command.timestamp);
-      const shouldKeep = commandTime > oneHourAgo || command.status === COMMAND_STATUS.PENDING;
-      
-      // Clear timeout if command is being removed
-      if (!shouldKeep && command.timeoutRef) {
-        clearTimeout(command.timeoutRef);
-      }
-      
-      return shouldKeep;
-    });
-  });
-  
   // Update device connection status
-  Object.keys(deviceStates).forEach(deviceId => {
-    if (deviceStates[deviceId].lastSeen) {
-      const lastSeen = new Date(deviceStates[deviceId].lastSeen);
+  Object.entries(storage.getDeviceStates()).forEach(([deviceId, state]) => {
+    if (state.lastSeen && state.connectionStatus !== 'disconnected') {
+      const lastSeen = new Date(state.lastSeen);
       if (lastSeen < oneHourAgo) {
-        deviceStates[deviceId].connectionStatus = 'disconnected';
+        updateDeviceState(deviceId, { connectionStatus: 'disconnected' });
       }
     }
   });
@@ -777,7 +2442,38 @@ setInterval(() => {
   console.log('Performed periodic cleanup');
 }, 30 * 60 * 1000); // Run every 30 minutes
 
+// Roll up completed minutes and hours, and drop data past its retention tier
+const runRollups = () => {
+  try {
+    rollups.runRollups();
+  } catch (error) {
+    console.error('Failed to roll up readings:', error);
+  }
+};
+
+const pruneReadings = () => {
+  try {
+    const removed = rollups.prune();
+    if (removed > 0) {
+      console.log(`Pruned ${removed} expired readings and rollups`);
+    }
+  } catch (error) {
+    console.error('Failed to prune readings:', error);
+  }
+};
+
+setInterval(runRollups, ROLLUP_INTERVAL_MS);
+setInterval(pruneReadings, PRUNE_INTERVAL_MS);
+setInterval(runAutomation, AUTOMATION_INTERVAL_MS);
+setInterval(runSchedules, SCHEDULE_INTERVAL_MS);
+
 // Enhanced server startup
+restorePendingCommands();
+restoreActuatorRuns();
+runRollups(); // Catch up on readings stored while the server was down
+runSchedules(); // Record the occurrences missed while the server was down
+pruneReadings();
+
 const PORT = process.env.PORT || 4000;
 server.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`);
@@ -788,9 +2484,10 @@ server.listen(PORT, () => {
   console.log(`- http://localhost:${PORT}/send-command`);
   console.log(`- http://localhost:${PORT}/sensor-data/:plantType`);
   console.log(`- http://localhost:${PORT}/test-emit`);
+  console.log(`💾 Database: ${DATABASE_PATH}`);
   console.log(`⚡ WebSocket endpoint: ws://localhost:${PORT}`);
-  console.log(`📱 Devices: ${Object.keys(devicePlantMap).join(', ')}`);
-  console.log(`🌱 Plant types: ${Object.values(devicePlantMap).join(', ')}`);
+  console.log(`📱 Devices: ${registry.getDevices().map(device => device.id).join(', ')}`);
+  console.log(`🌱 Plant types: ${registry.getLevels().map(level => level.id).join(', ')}`);
 });
 
 // Handle process events
@@ -805,6 +2502,7 @@ process.on('uncaughtException', (error) => {
 process.on('SIGTERM', () => {
   console.log('SIGTERM received. Shutting down gracefully...');
   server.close(() => {
+    storage.close();
     console.log('Server closed');
     process.exit(0);
   });
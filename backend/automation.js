@@ -0,0 +1,569 @@
+// Closed-loop automation of each grow level.
+// Irrigation: a level in auto mode is watered in short pulses once its soil
+// moisture drops below the bottom of its moisture band, with a soak interval
+// after every pulse so the water can spread before moisture is judged again.
+// Watering stops when moisture reaches the target, the middle of the band.
+// Lighting: a level in auto mode keeps its grow light off outside a daily
+// photoperiod. Inside it the light is switched on when measured lux drops
+// below the level's sunlight minimum and off again once lux is a hysteresis
+// margin above it; after every switch the light is held for a while so a
+// sensor that also sees the grow light cannot make it flicker.
+// Light is integrated into a daily light integral (DLI) in every mode; in auto
+// mode a day that ends short of the level's target DLI has its grow light
+// kept on past the photoperiod until the target is reached or the extension
+// runs out.
+// This module decides what to do next; backend.js sends the commands through
+// the same interlocks as manual commands and reports the outcome back.
+
+const AUTOMATION_MODES = ['manual', 'auto'];
+
+// Band of a fresh plant profile, used until the frontend sends the level's own
+const DEFAULT_IRRIGATION = {
+  mode: 'manual',
+  moistureMin: 65,
+  moistureMax: 85,
+  pulseMs: 5000,
+  soakMs: 5 * 60 * 1000,
+  maxPulses: 12 // Per cycle; more without reaching the target points at a sensor or pump fault
+};
+
+// Accepted range of every numeric setting
+const IRRIGATION_RANGES = {
+  moistureMin: { min: 0, max: 100 },
+  moistureMax: { min: 0, max: 100 },
+  pulseMs: { min: 1000, max: 60 * 1000 },
+  soakMs: { min: 10 * 1000, max: 60 * 60 * 1000 },
+  maxPulses: { min: 1, max: 100, integer: true }
+};
+
+const DEFAULT_LIGHTING = {
+  mode: 'manual',
+  lightsOnAt: '06:00', // Server local time
+  photoperiodHours: 16,
+  luxMin: 4500,
+  hysteresisLux: 1000, // Should exceed what the grow light itself adds at the sensor
+  minHoldMs: 10 * 60 * 1000,
+  targetDli: null, // mol/m²/day; null disables extending the photoperiod
+  ppfdFactor: 0.0185, // µmol/m²/s per lux: about 0.0185 for sunlight, 0.014-0.02 for white LEDs
+  maxExtensionHours: 4
+};
+
+const LIGHTING_RANGES = {
+  photoperiodHours: { min: 0, max: 24 },
+  luxMin: { min: 0, max: 200000 },
+  hysteresisLux: { min: 0, max: 100000 },
+  minHoldMs: { min: 0, max: 2 * 60 * 60 * 1000 },
+  targetDli: { min: 0, max: 100, nullable: true },
+  ppfdFactor: { min: 0.001, max: 0.1 },
+  maxExtensionHours: { min: 0, max: 12 }
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const TIME_OF_DAY = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const MINUTES_PER_DAY = 24 * 60;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS irrigation_settings (
+    plant_type TEXT PRIMARY KEY,
+    mode TEXT NOT NULL,
+    moisture_min REAL NOT NULL,
+    moisture_max REAL NOT NULL,
+    pulse_ms INTEGER NOT NULL,
+    soak_ms INTEGER NOT NULL,
+    max_pulses INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS lighting_settings (
+    plant_type TEXT PRIMARY KEY,
+    mode TEXT NOT NULL,
+    lights_on_at TEXT NOT NULL,
+    photoperiod_hours REAL NOT NULL,
+    lux_min REAL NOT NULL,
+    hysteresis_lux REAL NOT NULL,
+    min_hold_ms INTEGER NOT NULL,
+    target_dli REAL,
+    ppfd_factor REAL NOT NULL DEFAULT ${DEFAULT_LIGHTING.ppfdFactor},
+    max_extension_hours REAL NOT NULL DEFAULT ${DEFAULT_LIGHTING.maxExtensionHours},
+    updated_at INTEGER NOT NULL
+  );
+`;
+
+// Columns added after a table was first created; databases from before get
+// them on start
+const COLUMN_MIGRATIONS = [
+  { table: 'lighting_settings', column: 'target_dli', definition: 'REAL' },
+  { table: 'lighting_settings', column: 'ppfd_factor', definition: `REAL NOT NULL DEFAULT ${DEFAULT_LIGHTING.ppfdFactor}` },
+  { table: 'lighting_settings', column: 'max_extension_hours', definition: `REAL NOT NULL DEFAULT ${DEFAULT_LIGHTING.maxExtensionHours}` }
+];
+
+const rowToIrrigation = (row) => ({
+  mode: row.mode,
+  moistureMin: row.moisture_min,
+  moistureMax: row.moisture_max,
+  pulseMs: row.pulse_ms,
+  soakMs: row.soak_ms,
+  maxPulses: row.max_pulses
+});
+
+const rowToLighting = (row) => ({
+  mode: row.mode,
+  lightsOnAt: row.lights_on_at,
+  photoperiodHours: row.photoperiod_hours,
+  luxMin: row.lux_min,
+  hysteresisLux: row.hysteresis_lux,
+  minHoldMs: row.min_hold_ms,
+  targetDli: row.target_dli,
+  ppfdFactor: row.ppfd_factor,
+  maxExtensionHours: row.max_extension_hours
+});
+
+const getTarget = (settings) => Math.round((settings.moistureMin + settings.moistureMax) / 2);
+
+// Error message for irrigation changes that cannot be stored, or null
+const validateIrrigation = (changes, current = DEFAULT_IRRIGATION) => {
+  if (!changes || typeof changes !== 'object') {
+    return 'settings must be an object';
+  }
+
+  for (const [field, value] of Object.entries(changes)) {
+    if (field === 'mode') {
+      if (!AUTOMATION_MODES.includes(value)) return `mode must be one of ${AUTOMATION_MODES.join(', ')}`;
+      continue;
+    }
+    const range = Object.hasOwn(IRRIGATION_RANGES, field) ? IRRIGATION_RANGES[field] : null;
+    if (!range) {
+      return `Unknown setting ${field}`;
+    }
+    if (typeof value !== 'number' || !isFinite(value) || value < range.min || value > range.max ||
+        (range.integer && !Number.isInteger(value))) {
+      return `${field} must be a${range.integer ? 'n integer' : ' number'} from ${range.min} to ${range.max}`;
+    }
+  }
+
+  const { moistureMin, moistureMax } = { ...current, ...changes };
+  if (moistureMin >= moistureMax) {
+    return 'moistureMin must be below moistureMax';
+  }
+  return null;
+};
+
+// Error message for lighting changes that cannot be stored, or null
+const validateLighting = (changes) => {
+  if (!changes || typeof changes !== 'object') {
+    return 'settings must be an object';
+  }
+
+  for (const [field, value] of Object.entries(changes)) {
+    if (field === 'mode') {
+      if (!AUTOMATION_MODES.includes(value)) return `mode must be one of ${AUTOMATION_MODES.join(', ')}`;
+      continue;
+    }
+    if (field === 'lightsOnAt') {
+      if (typeof value !== 'string' || !TIME_OF_DAY.test(value)) return 'lightsOnAt must be a time of day as HH:MM';
+      continue;
+    }
+    const range = Object.hasOwn(LIGHTING_RANGES, field) ? LIGHTING_RANGES[field] : null;
+    if (!range) {
+      return `Unknown setting ${field}`;
+    }
+    if (value === null && range.nullable) continue;
+    if (typeof value !== 'number' || !isFinite(value) || value < range.min || value > range.max) {
+      return `${field} must be ${range.nullable ? 'null or ' : ''}a number from ${range.min} to ${range.max}`;
+    }
+  }
+  return null;
+};
+
+const toMinutes = (timeOfDay) => {
+  const [, hours, minutes] = TIME_OF_DAY.exec(timeOfDay);
+  return Number(hours) * 60 + Number(minutes);
+};
+
+const formatTimeOfDay = (minutes) => {
+  const wrapped = Math.round(minutes) % MINUTES_PER_DAY;
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+};
+
+// Whether now falls inside the photoperiod and when that next changes
+const getPhotoperiod = (settings, now) => {
+  const date = new Date(now);
+  const minuteOfDay = date.getHours() * 60 + date.getMinutes() + date.getSeconds() / 60 + date.getMilliseconds() / 60000;
+  const onMinutes = settings.photoperiodHours * 60;
+  const elapsed = (minuteOfDay - toMinutes(settings.lightsOnAt) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const inPhotoperiod = elapsed < onMinutes;
+  const untilChange = onMinutes >= MINUTES_PER_DAY || onMinutes === 0
+    ? null
+    : (inPhotoperiod ? onMinutes - elapsed : MINUTES_PER_DAY - elapsed);
+
+  return {
+    inPhotoperiod,
+    dayStart: Math.round((now - elapsed * 60 * 1000) / 1000) * 1000, // Last time the lights were due on
+    lightsOffAt: formatTimeOfDay(toMinutes(settings.lightsOnAt) + onMinutes),
+    nextChangeAt: untilChange === null ? null : new Date(now + untilChange * 60 * 1000).toISOString()
+  };
+};
+
+const createAutomation = (storage, lightIntegral) => {
+  const { db } = storage;
+  db.exec(SCHEMA);
+  COLUMN_MIGRATIONS.forEach(({ table, column, definition }) => {
+    const columns = db.prepare(`PRAGMA table_info(${table})`).all();
+    if (!columns.some(existing => existing.name === column)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  });
+
+  const statements = {
+    getIrrigation: db.prepare(`SELECT * FROM irrigation_settings WHERE plant_type = ?`),
+    upsertIrrigation: db.prepare(`
+      INSERT INTO irrigation_settings (plant_type, mode, moisture_min, moisture_max, pulse_ms, soak_ms, max_pulses, updated_at)
+      VALUES (@plantType, @mode, @moistureMin, @moistureMax, @pulseMs, @soakMs, @maxPulses, @updatedAt)
+      ON CONFLICT (plant_type) DO UPDATE SET
+        mode = excluded.mode,
+        moisture_min = excluded.moisture_min,
+        moisture_max = excluded.moisture_max,
+        pulse_ms = excluded.pulse_ms,
+        soak_ms = excluded.soak_ms,
+        max_pulses = excluded.max_pulses,
+        updated_at = excluded.updated_at
+    `),
+    deleteIrrigation: db.prepare(`DELETE FROM irrigation_settings WHERE plant_type = ?`),
+    getLighting: db.prepare(`SELECT * FROM lighting_settings WHERE plant_type = ?`),
+    upsertLighting: db.prepare(`
+      INSERT INTO lighting_settings (plant_type, mode, lights_on_at, photoperiod_hours, lux_min, hysteresis_lux, min_hold_ms,
+        target_dli, ppfd_factor, max_extension_hours, updated_at)
+      VALUES (@plantType, @mode, @lightsOnAt, @photoperiodHours, @luxMin, @hysteresisLux, @minHoldMs,
+        @targetDli, @ppfdFactor, @maxExtensionHours, @updatedAt)
+      ON CONFLICT (plant_type) DO UPDATE SET
+        mode = excluded.mode,
+        lights_on_at = excluded.lights_on_at,
+        photoperiod_hours = excluded.photoperiod_hours,
+        lux_min = excluded.lux_min,
+        hysteresis_lux = excluded.hysteresis_lux,
+        min_hold_ms = excluded.min_hold_ms,
+        target_dli = excluded.target_dli,
+        ppfd_factor = excluded.ppfd_factor,
+        max_extension_hours = excluded.max_extension_hours,
+        updated_at = excluded.updated_at
+    `),
+    deleteLighting: db.prepare(`DELETE FROM lighting_settings WHERE plant_type = ?`)
+  };
+
+  // Watering cycle of each level, from the first pulse until the target is
+  // reached. Kept in memory: after a restart a dry level simply starts a new cycle.
+  const cycles = new Map();
+  // Last reported status per level
+  const statuses = new Map();
+  // When the automation last switched each level's light, for the hold time
+  const lightSwitches = new Map();
+  const lightingStatuses = new Map();
+
+  const getIrrigation = (plantType) => {
+    const row = statements.getIrrigation.get(plantType);
+    return row ? rowToIrrigation(row) : { ...DEFAULT_IRRIGATION };
+  };
+
+  // Update some irrigation settings of a level; the others keep their value.
+  // Any change starts the level's cycle afresh.
+  const saveIrrigation = (plantType, changes) => {
+    statements.upsertIrrigation.run({ ...getIrrigation(plantType), ...changes, plantType, updatedAt: Date.now() });
+    cycles.delete(plantType);
+    return getIrrigation(plantType);
+  };
+
+  const deleteIrrigation = (plantType) => {
+    statements.deleteIrrigation.run(plantType);
+    cycles.delete(plantType);
+    statuses.delete(plantType);
+  };
+
+  const getLighting = (plantType) => {
+    const row = statements.getLighting.get(plantType);
+    return row ? rowToLighting(row) : { ...DEFAULT_LIGHTING };
+  };
+
+  // Update some lighting settings of a level; the others keep their value.
+  // A change may switch the light straight away, whatever the hold time.
+  const saveLighting = (plantType, changes) => {
+    statements.upsertLighting.run({ ...getLighting(plantType), ...changes, plantType, updatedAt: Date.now() });
+    lightSwitches.delete(plantType);
+    return getLighting(plantType);
+  };
+
+  const deleteLighting = (plantType) => {
+    statements.deleteLighting.run(plantType);
+    lightIntegral.deleteLevel(plantType);
+    lightSwitches.delete(plantType);
+    lightingStatuses.delete(plantType);
+  };
+
+  const getCycle = (plantType) => {
+    if (!cycles.has(plantType)) {
+      cycles.set(plantType, { active: false, pulses: 0, lastPulseAt: null, pulseCommandId: null });
+    }
+    return cycles.get(plantType);
+  };
+
+  const setStatus = (plantType, settings, cycle, phase, message, details = {}) => {
+    const status = {
+      plantType,
+      mode: settings.mode,
+      phase,
+      message,
+      moisture: null,
+      moistureMin: settings.moistureMin,
+      moistureMax: settings.moistureMax,
+      target: getTarget(settings),
+      pulses: cycle.pulses,
+      lastPulseAt: cycle.lastPulseAt ? new Date(cycle.lastPulseAt).toISOString() : null,
+      nextCheckAt: null,
+      updatedAt: new Date().toISOString(),
+      ...details
+    };
+    statuses.set(plantType, status);
+    return status;
+  };
+
+  const getStatus = (plantType) => statuses.get(plantType) ||
+    setStatus(plantType, getIrrigation(plantType), getCycle(plantType), 'manual', 'Manual control');
+
+  // Next irrigation step of a level. moisture is the level's latest value as
+  // { value, fresh } or undefined; hasActuator tells whether a device can be
+  // watered at all. Returns { pulse, status }: when pulse is true the caller
+  // sends one pulse of pulseMs and reports it with recordPulse or recordRefusal.
+  const evaluate = (plantType, { moisture, hasActuator, now = Date.now() }) => {
+    const settings = getIrrigation(plantType);
+    const cycle = getCycle(plantType);
+    const moistureValue = moisture ? moisture.value : null;
+    const result = (phase, message, details = {}) => ({
+      pulse: false,
+      status: setStatus(plantType, settings, cycle, phase, message, { moisture: moistureValue, ...details })
+    });
+
+    if (settings.mode === 'manual') {
+      cycles.delete(plantType);
+      return result('manual', 'Manual control');
+    }
+    if (!hasActuator) {
+      return result('waiting', 'No actuator device is assigned to this level');
+    }
+
+    const pulseCommand = cycle.pulseCommandId ? storage.getCommand(cycle.pulseCommandId) : null;
+    if (pulseCommand?.status === 'pending') {
+      return result('watering', `Watering, pulse ${cycle.pulses}`);
+    }
+    if (!moisture || !moisture.fresh) {
+      return result('waiting', 'No recent moisture reading');
+    }
+
+    const target = getTarget(settings);
+    if (cycle.active && moisture.value >= target) {
+      const pulses = cycle.pulses;
+      cycles.delete(plantType);
+      return {
+        pulse: false,
+        status: setStatus(plantType, settings, getCycle(plantType), 'idle',
+          `Target of ${target}% reached after ${pulses} pulse${pulses === 1 ? '' : 's'}`, { moisture: moistureValue })
+      };
+    }
+    if (!cycle.active && moisture.value >= settings.moistureMin) {
+      return result('idle', `Moisture ${moisture.value}% is above ${settings.moistureMin}%`);
+    }
+
+    cycle.active = true;
+    const soakUntil = cycle.lastPulseAt ? cycle.lastPulseAt + settings.pulseMs + settings.soakMs : 0;
+    if (now < soakUntil) {
+      return result('soaking', `Soaking after pulse ${cycle.pulses}`, { nextCheckAt: new Date(soakUntil).toISOString() });
+    }
+    if (cycle.pulses >= settings.maxPulses) {
+      return result('blocked', `Stopped after ${cycle.pulses} pulses without reaching ${target}%; check the sensor and pump`);
+    }
+
+    return { pulse: true, status: getStatus(plantType) };
+  };
+
+  const recordPulse = (plantType, commandId, now = Date.now()) => {
+    const settings = getIrrigation(plantType);
+    const cycle = getCycle(plantType);
+    cycle.pulses += 1;
+    cycle.lastPulseAt = now;
+    cycle.pulseCommandId = commandId;
+    return setStatus(plantType, settings, cycle, 'watering', `Watering, pulse ${cycle.pulses}`, {
+      moisture: getStatus(plantType).moisture
+    });
+  };
+
+  // An interlock refused the pulse; it is tried again on the next evaluation
+  const recordRefusal = (plantType, refusal) => setStatus(
+    plantType,
+    getIrrigation(plantType),
+    getCycle(plantType),
+    'blocked',
+    refusal.message,
+    { moisture: getStatus(plantType).moisture, interlock: refusal.reason }
+  );
+
+  // Latest time the light may be kept on to reach the target DLI, or null
+  // when the photoperiod cannot be extended
+  const getExtensionEnd = (settings, dayStart) => {
+    if (settings.targetDli === null || settings.photoperiodHours >= 24 || settings.maxExtensionHours === 0) return null;
+    return dayStart + Math.min(settings.photoperiodHours + settings.maxExtensionHours, 24) * HOUR_MS;
+  };
+
+  // The day's light so far and where it is heading if the current PPFD holds
+  // until the lights are due off
+  const getDli = (plantType, settings, photoperiod, now) => {
+    const day = lightIntegral.getDay(plantType, photoperiod.dayStart);
+    const remainingMs = !photoperiod.inPhotoperiod ? 0 : photoperiod.nextChangeAt
+      ? new Date(photoperiod.nextChangeAt).getTime() - now
+      : photoperiod.dayStart + 24 * HOUR_MS - now;
+    const projected = day.mol + (day.lastPpfd || 0) * (remainingMs / 1000) / 1e6;
+    const extensionEnd = getExtensionEnd(settings, photoperiod.dayStart);
+
+    return {
+      mol: Math.round(day.mol * 100) / 100,
+      target: settings.targetDli,
+      projected: Math.round(projected * 100) / 100,
+      ppfd: day.lastPpfd === null ? null : Math.round(day.lastPpfd * 10) / 10,
+      ppfdFactor: settings.ppfdFactor,
+      dayStartedAt: new Date(photoperiod.dayStart).toISOString(),
+      extensionUntil: extensionEnd === null ? null : new Date(extensionEnd).toISOString()
+    };
+  };
+
+  const setLightingStatus = (plantType, settings, phase, message, details = {}, now = Date.now()) => {
+    const photoperiod = getPhotoperiod(settings, now);
+    const status = {
+      plantType,
+      mode: settings.mode,
+      phase,
+      message,
+      lux: null,
+      luxMin: settings.luxMin,
+      luxOff: settings.luxMin + settings.hysteresisLux,
+      lightOn: null,
+      lightsOnAt: settings.lightsOnAt,
+      photoperiodHours: settings.photoperiodHours,
+      lightsOffAt: photoperiod.lightsOffAt,
+      inPhotoperiod: photoperiod.inPhotoperiod,
+      nextChangeAt: photoperiod.nextChangeAt,
+      dli: getDli(plantType, settings, photoperiod, now),
+      updatedAt: new Date().toISOString(),
+      ...details
+    };
+    lightingStatuses.set(plantType, status);
+    return status;
+  };
+
+  const getLightingStatus = (plantType) => lightingStatuses.get(plantType) ||
+    setLightingStatus(plantType, getLighting(plantType), 'manual', 'Manual control');
+
+  // Next lighting step of a level. lux is the level's latest sunlight value as
+  // { value, fresh } or undefined, lightOn the light's current state and
+  // switching whether a light command is still waiting for its device.
+  // A fresh lux value is also added to the day's light integral.
+  // Returns { switchTo, status }: when switchTo is 'on' or 'off' the caller
+  // switches the light and reports it with recordLightSwitch or recordLightingRefusal.
+  const evaluateLighting = (plantType, { lux, lightOn, hasActuator, switching, now = Date.now() }) => {
+    const settings = getLighting(plantType);
+    const { inPhotoperiod, dayStart } = getPhotoperiod(settings, now);
+    const day = lux && lux.fresh
+      ? lightIntegral.addSample(plantType, dayStart, lux.value * settings.ppfdFactor, now)
+      : lightIntegral.getDay(plantType, dayStart);
+    const details = { lux: lux ? lux.value : null, lightOn };
+    const result = (phase, message, switchTo = null) => ({
+      switchTo,
+      status: setLightingStatus(plantType, settings, phase, message, details, now)
+    });
+
+    if (settings.mode === 'manual') {
+      lightSwitches.delete(plantType);
+      return result('manual', 'Manual control');
+    }
+    if (!hasActuator) {
+      return result('waiting', 'No actuator device is assigned to this level');
+    }
+    if (switching) {
+      return result('waiting', `Switching the light ${lightOn ? 'off' : 'on'}`);
+    }
+
+    if (!inPhotoperiod) {
+      // A day short of its target DLI keeps the light on past the photoperiod
+      const extensionEnd = getExtensionEnd(settings, dayStart);
+      if (extensionEnd !== null && now < extensionEnd && day.mol < settings.targetDli) {
+        return result('extending',
+          `DLI ${day.mol.toFixed(2)} of ${settings.targetDli} mol/m², light kept on until the target or ${new Date(extensionEnd).toLocaleTimeString()}`,
+          lightOn ? null : 'on');
+      }
+      return result('night', `Outside the photoperiod, lights on at ${settings.lightsOnAt}`, lightOn ? 'off' : null);
+    }
+
+    const luxOff = settings.luxMin + settings.hysteresisLux;
+    let wanted = lightOn;
+    let message;
+    if (!lux || !lux.fresh) {
+      wanted = true;
+      message = 'No recent light reading, light kept on for the photoperiod';
+    } else if (lux.value < settings.luxMin) {
+      wanted = true;
+      message = `Light ${lux.value} lux is below ${settings.luxMin} lux`;
+    } else if (lux.value >= luxOff) {
+      wanted = false;
+      message = `Light ${lux.value} lux is enough`;
+    } else {
+      message = `Light ${lux.value} lux is within the hysteresis band`;
+    }
+    if (wanted === lightOn) {
+      return result(lightOn ? 'lit' : 'daylight', message);
+    }
+    // Within the photoperiod the light keeps its state for the hold time after every switch
+    const lastSwitch = lightSwitches.get(plantType);
+    if (lastSwitch !== undefined && now < lastSwitch + settings.minHoldMs) {
+      return result(lightOn ? 'lit' : 'daylight',
+        `${message}; holding until ${new Date(lastSwitch + settings.minHoldMs).toLocaleTimeString()}`);
+    }
+    return result(wanted ? 'lit' : 'daylight', message, wanted ? 'on' : 'off');
+  };
+
+  const recordLightSwitch = (plantType, state, now = Date.now()) => {
+    lightSwitches.set(plantType, now);
+    const previous = getLightingStatus(plantType);
+    return setLightingStatus(plantType, getLighting(plantType), previous.phase,
+      `${previous.message}, switching the light ${state}`, { lux: previous.lux, lightOn: previous.lightOn }, now);
+  };
+
+  // An interlock refused the switch; it is tried again on the next evaluation
+  const recordLightingRefusal = (plantType, refusal) => {
+    const previous = getLightingStatus(plantType);
+    return setLightingStatus(plantType, getLighting(plantType), 'blocked', refusal.message, {
+      lux: previous.lux,
+      lightOn: previous.lightOn,
+      interlock: refusal.reason
+    });
+  };
+
+  return {
+    getIrrigation,
+    saveIrrigation,
+    deleteIrrigation,
+    getStatus,
+    evaluate,
+    recordPulse,
+    recordRefusal,
+    getLighting,
+    saveLighting,
+    deleteLighting,
+    getLightingStatus,
+    evaluateLighting,
+    recordLightSwitch,
+    recordLightingRefusal
+  };
+};
+
+module.exports = {
+  createAutomation,
+  validateIrrigation,
+  validateLighting,
+  AUTOMATION_MODES
+};
@@ -0,0 +1,126 @@
+const { READING_COLUMNS } = require('./storage');
+const { MINUTE_MS, HOUR_MS, DAY_MS } = require('./rollups');
+
+// Bucketed time series for GET /historical-data.
+// Samples are read from the finest retention tier that covers the range and
+// aggregated into fixed-size buckets per metric.
+
+const BUCKET_SIZES = {
+  '1m': MINUTE_MS,
+  '10m': 10 * MINUTE_MS,
+  '1h': HOUR_MS,
+  '1d': DAY_MS
+};
+
+const AGGREGATIONS = ['avg', 'min', 'max', 'last', 'count'];
+
+// Metrics computed from stored metrics
+const DERIVED_METRICS = {
+  nutrients: ['nitrogen', 'phosphorus', 'potassium'] // Average NPK
+};
+
+const METRICS = [...Object.keys(READING_COLUMNS), ...Object.keys(DERIVED_METRICS)];
+
+const average = (values) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// One metric of a reading as a sample. Raw readings count once; rollup
+// buckets carry their own sample count and min/max.
+const toSample = (reading, metric) => {
+  if (DERIVED_METRICS[metric]) {
+    const parts = DERIVED_METRICS[metric].map(input => toSample(reading, input));
+    if (parts.some(part => part === null)) return null;
+    return {
+      time: parts[0].time,
+      value: average(parts.map(part => part.value)),
+      min: average(parts.map(part => part.min)),
+      max: average(parts.map(part => part.max)),
+      count: Math.min(...parts.map(part => part.count))
+    };
+  }
+
+  const value = reading[metric];
+  if (typeof value !== 'number') return null;
+  return {
+    time: new Date(reading.timestamp).getTime(),
+    value,
+    min: reading.min?.[metric] ?? value,
+    max: reading.max?.[metric] ?? value,
+    count: reading.sampleCount ?? 1
+  };
+};
+
+const aggregateValue = (bucket, agg) => {
+  switch (agg) {
+    case 'min':
+      return bucket.min;
+    case 'max':
+      return bucket.max;
+    case 'last':
+      return bucket.last;
+    case 'count':
+      return bucket.count;
+    default:
+      return bucket.sum / bucket.count;
+  }
+};
+
+// Aggregate samples (oldest first) into buckets aligned to the bucket size
+const bucketSamples = (samples, bucketMs, agg) => {
+  const buckets = new Map();
+
+  samples.forEach(sample => {
+    const start = Math.floor(sample.time / bucketMs) * bucketMs;
+    const bucket = buckets.get(start);
+    if (!bucket) {
+      buckets.set(start, {
+        start,
+        sum: sample.value * sample.count,
+        count: sample.count,
+        min: sample.min,
+        max: sample.max,
+        last: sample.value
+      });
+      return;
+    }
+    bucket.sum += sample.value * sample.count;
+    bucket.count += sample.count;
+    bucket.min = Math.min(bucket.min, sample.min);
+    bucket.max = Math.max(bucket.max, sample.max);
+    bucket.last = sample.value;
+  });
+
+  return Array.from(buckets.values())
+    .sort((a, b) => a.start - b.start)
+    .map(bucket => ({
+      timestamp: new Date(bucket.start).toISOString(),
+      value: aggregateValue(bucket, agg),
+      count: bucket.count
+    }));
+};
+
+const createHistory = (rollups) => {
+  // Series per metric for a plant type between from and to (epoch ms)
+  const querySeries = ({ plantType, from, to, metrics, bucket, agg }) => {
+    const tier = rollups.selectSourceTier(plantType, from);
+    const readings = rollups.queryTier(tier, plantType, from, to);
+
+    const series = metrics.reduce((acc, metric) => {
+      const samples = readings
+        .map(reading => toSample(reading, metric))
+        .filter(sample => sample !== null);
+      acc[metric] = bucketSamples(samples, BUCKET_SIZES[bucket], agg);
+      return acc;
+    }, {});
+
+    return { tier, series };
+  };
+
+  return { querySeries };
+};
+
+module.exports = {
+  createHistory,
+  BUCKET_SIZES,
+  AGGREGATIONS,
+  METRICS
+};
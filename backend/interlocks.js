@@ -0,0 +1,282 @@
+// Actuator safety interlocks.
+// Before a pump or the light is started the backend checks the limits of that
+// actuator: a minimum reservoir level, a maximum continuous run time, a
+// cooldown between doses and a cap on doses per 24 hours. Switched actuators
+// that stay on longer than their run time are switched off again by the
+// backend; the start of each run is kept here so that survives restarts.
+// A limit set to null is disabled.
+// The emergency stop latch overrides every limit: while it is engaged no
+// actuator may start until an operator clears it.
+
+const INTERLOCK_ACTUATORS = ['water', 'nutrients', 'light'];
+
+// Tank each pump draws from
+const RESERVOIR_METRICS = {
+  water: 'waterLevel',
+  nutrients: 'fertilizerLevel'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_LIMITS = {
+  water: {
+    minReservoirLevel: 10,
+    maxRunMs: 5 * 60 * 1000,
+    cooldownMs: 60 * 1000,
+    maxDosesPerDay: 24
+  },
+  nutrients: {
+    minReservoirLevel: 10,
+    maxRunMs: 60 * 1000,
+    cooldownMs: 30 * 60 * 1000,
+    maxDosesPerDay: 4
+  },
+  light: {
+    minReservoirLevel: null,
+    maxRunMs: null,
+    cooldownMs: null,
+    maxDosesPerDay: null
+  }
+};
+
+// Accepted range of every limit
+const LIMIT_RANGES = {
+  minReservoirLevel: { min: 0, max: 100 },
+  maxRunMs: { min: 1000, max: DAY_MS },
+  cooldownMs: { min: 0, max: DAY_MS },
+  maxDosesPerDay: { min: 1, max: 1000, integer: true }
+};
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS interlock_limits (
+    actuator TEXT PRIMARY KEY,
+    min_reservoir_level REAL,
+    max_run_ms INTEGER,
+    cooldown_ms INTEGER,
+    max_doses_per_day INTEGER,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS emergency_stop (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    engaged INTEGER NOT NULL,
+    engaged_at INTEGER,
+    engaged_by TEXT,
+    reason TEXT,
+    cleared_at INTEGER,
+    cleared_by TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS actuator_runs (
+    device_id TEXT NOT NULL,
+    actuator TEXT NOT NULL,
+    started_at INTEGER NOT NULL,
+    PRIMARY KEY (device_id, actuator)
+  );
+`;
+
+const rowToLimits = (row) => ({
+  minReservoirLevel: row.min_reservoir_level,
+  maxRunMs: row.max_run_ms,
+  cooldownMs: row.cooldown_ms,
+  maxDosesPerDay: row.max_doses_per_day
+});
+
+const toIsoString = (time) => (time ? new Date(time).toISOString() : null);
+
+const rowToEmergencyStop = (row) => ({
+  engaged: Boolean(row?.engaged),
+  engagedAt: toIsoString(row?.engaged_at),
+  engagedBy: row?.engaged_by ?? null,
+  reason: row?.reason ?? null,
+  clearedAt: toIsoString(row?.cleared_at),
+  clearedBy: row?.cleared_by ?? null
+});
+
+const formatDuration = (ms) => {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 120) return `${seconds} s`;
+  const minutes = Math.ceil(seconds / 60);
+  return minutes < 120 ? `${minutes} min` : `${Math.ceil(minutes / 60)} h`;
+};
+
+// Error message for limit changes that cannot be stored, or null
+const validateLimits = (actuator, changes) => {
+  if (!INTERLOCK_ACTUATORS.includes(actuator)) {
+    return `actuator must be one of ${INTERLOCK_ACTUATORS.join(', ')}`;
+  }
+  if (!changes || typeof changes !== 'object') {
+    return 'limits must be an object';
+  }
+
+  for (const [field, value] of Object.entries(changes)) {
+    const range = Object.hasOwn(LIMIT_RANGES, field) ? LIMIT_RANGES[field] : null;
+    if (!range) {
+      return `Unknown limit ${field}`;
+    }
+    if (value === null) continue;
+    if (field === 'minReservoirLevel' && !RESERVOIR_METRICS[actuator]) {
+      return `${actuator} has no reservoir`;
+    }
+    if (typeof value !== 'number' || !isFinite(value) || value < range.min || value > range.max ||
+        (range.integer && !Number.isInteger(value))) {
+      return `${field} must be null or a${range.integer ? 'n integer' : ' number'} from ${range.min} to ${range.max}`;
+    }
+  }
+  return null;
+};
+
+const createInterlocks = (storage) => {
+  const { db } = storage;
+  db.exec(SCHEMA);
+
+  const statements = {
+    getLimits: db.prepare(`SELECT * FROM interlock_limits WHERE actuator = ?`),
+    upsertLimits: db.prepare(`
+      INSERT INTO interlock_limits (actuator, min_reservoir_level, max_run_ms, cooldown_ms, max_doses_per_day, updated_at)
+      VALUES (@actuator, @minReservoirLevel, @maxRunMs, @cooldownMs, @maxDosesPerDay, @updatedAt)
+      ON CONFLICT (actuator) DO UPDATE SET
+        min_reservoir_level = excluded.min_reservoir_level,
+        max_run_ms = excluded.max_run_ms,
+        cooldown_ms = excluded.cooldown_ms,
+        max_doses_per_day = excluded.max_doses_per_day,
+        updated_at = excluded.updated_at
+    `),
+    getEmergencyStop: db.prepare(`SELECT * FROM emergency_stop WHERE id = 1`),
+    engageEmergencyStop: db.prepare(`
+      INSERT INTO emergency_stop (id, engaged, engaged_at, engaged_by, reason)
+      VALUES (1, 1, @engagedAt, @engagedBy, @reason)
+      ON CONFLICT (id) DO UPDATE SET
+        engaged = 1,
+        engaged_at = excluded.engaged_at,
+        engaged_by = excluded.engaged_by,
+        reason = excluded.reason
+    `),
+    clearEmergencyStop: db.prepare(`
+      UPDATE emergency_stop SET engaged = 0, cleared_at = @clearedAt, cleared_by = @clearedBy WHERE id = 1
+    `),
+    startRun: db.prepare(`
+      INSERT OR IGNORE INTO actuator_runs (device_id, actuator, started_at) VALUES (?, ?, ?)
+    `),
+    endRun: db.prepare(`DELETE FROM actuator_runs WHERE device_id = ? AND actuator = ?`),
+    allRuns: db.prepare(`SELECT * FROM actuator_runs ORDER BY started_at`),
+    deleteDeviceRuns: db.prepare(`DELETE FROM actuator_runs WHERE device_id = ?`)
+  };
+
+  const getLimits = (actuator) => {
+    const row = statements.getLimits.get(actuator);
+    return row ? rowToLimits(row) : { ...DEFAULT_LIMITS[actuator] };
+  };
+
+  const getAllLimits = () => INTERLOCK_ACTUATORS.reduce((acc, actuator) => {
+    acc[actuator] = getLimits(actuator);
+    return acc;
+  }, {});
+
+  // Update some limits of an actuator; the others keep their value
+  const setLimits = (actuator, changes) => {
+    statements.upsertLimits.run({ ...getLimits(actuator), ...changes, actuator, updatedAt: Date.now() });
+    return getLimits(actuator);
+  };
+
+  const getEmergencyStop = () => rowToEmergencyStop(statements.getEmergencyStop.get());
+
+  // Latch the stop; engaging it again while engaged keeps the original details
+  const engageEmergencyStop = ({ engagedBy = null, reason = null } = {}) => {
+    if (!getEmergencyStop().engaged) {
+      statements.engageEmergencyStop.run({ engagedAt: Date.now(), engagedBy, reason });
+    }
+    return getEmergencyStop();
+  };
+
+  const clearEmergencyStop = ({ clearedBy = null } = {}) => {
+    statements.clearEmergencyStop.run({ clearedAt: Date.now(), clearedBy });
+    return getEmergencyStop();
+  };
+
+  // Reason a start of the actuator is refused, or null when it may start.
+  // startTimes are the issue times (epoch ms) of its starts in the last 24 hours.
+  const check = ({ actuator, durationMs, reservoirLevel, startTimes = [], now = Date.now() }) => {
+    const limits = getLimits(actuator);
+    const refuse = (reason, message, details = {}) => ({ reason, actuator, message, ...details });
+
+    if (getEmergencyStop().engaged) {
+      return refuse('emergency_stop', 'Emergency stop is engaged; clear it before starting any actuator');
+    }
+
+    if (limits.minReservoirLevel !== null && RESERVOIR_METRICS[actuator] &&
+        typeof reservoirLevel === 'number' && reservoirLevel < limits.minReservoirLevel) {
+      return refuse('reservoir_low',
+        `Reservoir at ${reservoirLevel}%, ${actuator} needs at least ${limits.minReservoirLevel}%`,
+        { limit: limits.minReservoirLevel, value: reservoirLevel });
+    }
+
+    if (limits.maxRunMs !== null && durationMs > limits.maxRunMs) {
+      return refuse('max_run_time',
+        `${actuator} may run for at most ${formatDuration(limits.maxRunMs)} at a time`,
+        { limit: limits.maxRunMs, value: durationMs });
+    }
+
+    const recent = startTimes.filter(time => time > now - DAY_MS);
+    if (limits.maxDosesPerDay !== null && recent.length >= limits.maxDosesPerDay) {
+      return refuse('daily_cap',
+        `${actuator} already ran ${recent.length} times in the last 24 hours (limit ${limits.maxDosesPerDay})`,
+        {
+          limit: limits.maxDosesPerDay,
+          value: recent.length,
+          retryAfterMs: recent[recent.length - limits.maxDosesPerDay] + DAY_MS - now
+        });
+    }
+
+    const last = recent[recent.length - 1];
+    if (limits.cooldownMs && last !== undefined && now - last < limits.cooldownMs) {
+      const retryAfterMs = last + limits.cooldownMs - now;
+      return refuse('cooldown',
+        `${actuator} is cooling down, try again in ${formatDuration(retryAfterMs)}`,
+        { limit: limits.cooldownMs, value: now - last, retryAfterMs });
+    }
+
+    return null;
+  };
+
+  // Switched actuators that are on; a run keeps the time it first started
+  const startRun = (deviceId, actuator, startedAt = Date.now()) => {
+    statements.startRun.run(deviceId, actuator, startedAt);
+  };
+
+  const endRun = (deviceId, actuator) => {
+    statements.endRun.run(deviceId, actuator);
+  };
+
+  const getRuns = () => statements.allRuns.all().map(row => ({
+    deviceId: row.device_id,
+    actuator: row.actuator,
+    startedAt: row.started_at
+  }));
+
+  const deleteDeviceRuns = (deviceId) => {
+    statements.deleteDeviceRuns.run(deviceId);
+  };
+
+  return {
+    getLimits,
+    getAllLimits,
+    setLimits,
+    getEmergencyStop,
+    engageEmergencyStop,
+    clearEmergencyStop,
+    check,
+    startRun,
+    endRun,
+    getRuns,
+    deleteDeviceRuns
+  };
+};
+
+module.exports = {
+  createInterlocks,
+  validateLimits,
+  INTERLOCK_ACTUATORS,
+  RESERVOIR_METRICS,
+  DAY_MS
+};
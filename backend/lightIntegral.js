@@ -0,0 +1,84 @@
+// Daily light integral (DLI) of each grow level.
+// Light readings are converted to PPFD (µmol/m²/s) and integrated over time
+// into mol/m² per photoperiod day, the day starting when the lights are due
+// on. The running total is stored so a restart does not lose the day so far.
+
+// Longer gaps between samples are not integrated; the light during them is unknown
+const MAX_SAMPLE_GAP_MS = 5 * 60 * 1000;
+
+// Days kept per level
+const KEEP_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS light_integrals (
+    plant_type TEXT NOT NULL,
+    day_start INTEGER NOT NULL,
+    mol REAL NOT NULL,
+    last_sample_at INTEGER NOT NULL,
+    last_ppfd REAL NOT NULL,
+    PRIMARY KEY (plant_type, day_start)
+  );
+`;
+
+const rowToDay = (row) => ({
+  dayStart: row.day_start,
+  mol: row.mol,
+  lastSampleAt: row.last_sample_at,
+  lastPpfd: row.last_ppfd
+});
+
+const createLightIntegral = (storage) => {
+  const { db } = storage;
+  db.exec(SCHEMA);
+
+  const statements = {
+    getDay: db.prepare(`SELECT * FROM light_integrals WHERE plant_type = ? AND day_start = ?`),
+    upsertDay: db.prepare(`
+      INSERT INTO light_integrals (plant_type, day_start, mol, last_sample_at, last_ppfd)
+      VALUES (@plantType, @dayStart, @mol, @lastSampleAt, @lastPpfd)
+      ON CONFLICT (plant_type, day_start) DO UPDATE SET
+        mol = excluded.mol,
+        last_sample_at = excluded.last_sample_at,
+        last_ppfd = excluded.last_ppfd
+    `),
+    pruneDays: db.prepare(`DELETE FROM light_integrals WHERE plant_type = ? AND day_start < ?`),
+    deleteLevel: db.prepare(`DELETE FROM light_integrals WHERE plant_type = ?`)
+  };
+
+  const getDay = (plantType, dayStart) => {
+    const row = statements.getDay.get(plantType, dayStart);
+    return row ? rowToDay(row) : { dayStart, mol: 0, lastSampleAt: null, lastPpfd: null };
+  };
+
+  // Add a PPFD sample taken at now to the level's day starting at dayStart;
+  // the interval since the previous sample counts at the average of both
+  const addSample = (plantType, dayStart, ppfd, now = Date.now()) => {
+    const day = getDay(plantType, dayStart);
+    if (day.lastSampleAt === null) {
+      statements.pruneDays.run(plantType, dayStart - KEEP_DAYS * DAY_MS);
+    }
+
+    const elapsedMs = day.lastSampleAt === null ? 0 : now - day.lastSampleAt;
+    const mol = elapsedMs > 0 && elapsedMs <= MAX_SAMPLE_GAP_MS
+      ? day.mol + ((day.lastPpfd + ppfd) / 2) * (elapsedMs / 1000) / 1e6
+      : day.mol;
+
+    statements.upsertDay.run({ plantType, dayStart, mol, lastSampleAt: now, lastPpfd: ppfd });
+    return getDay(plantType, dayStart);
+  };
+
+  const deleteLevel = (plantType) => {
+    statements.deleteLevel.run(plantType);
+  };
+
+  return {
+    getDay,
+    addSample,
+    deleteLevel
+  };
+};
+
+module.exports = {
+  createLightIntegral
+};
@@ -0,0 +1,383 @@
+// NPK dosing planner of each grow level.
+// The latest nitrogen, phosphorus and potassium readings are compared with
+// the level's target band per nutrient. When one drops below its band the
+// planner recommends a fertilizer dose sized to bring the furthest nutrient
+// back to the middle of its band; in auto mode backend.js sends that dose
+// itself. Every completed fertilizer dose is recorded with the readings before
+// it and, once the fertilizer has had time to settle, the readings after it.
+// Those measured effects size the following doses; until a level has some,
+// doses are defaultDoseMl.
+
+const NUTRIENTS = ['nitrogen', 'phosphorus', 'potassium'];
+
+const DEFAULT_NUTRIENT_SETTINGS = {
+  mode: 'manual', // manual only recommends doses
+  targets: {
+    nitrogen: { min: 40, max: 80 },
+    phosphorus: { min: 20, max: 50 },
+    potassium: { min: 40, max: 90 }
+  },
+  defaultDoseMl: 10,
+  maxDoseMl: 50,
+  minIntervalMs: 6 * 60 * 60 * 1000,
+  settleMs: 30 * 60 * 1000
+};
+
+const NUTRIENT_RANGES = {
+  defaultDoseMl: { min: 1, max: 500 },
+  maxDoseMl: { min: 1, max: 500 },
+  minIntervalMs: { min: 0, max: 7 * 24 * 60 * 60 * 1000 },
+  settleMs: { min: 60 * 1000, max: 24 * 60 * 60 * 1000 }
+};
+
+// Measured doses averaged into the response per ml
+const RESPONSE_SAMPLE_SIZE = 5;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS nutrient_settings (
+    plant_type TEXT PRIMARY KEY,
+    mode TEXT NOT NULL,
+    ${NUTRIENTS.map(nutrient => `${nutrient}_min REAL NOT NULL, ${nutrient}_max REAL NOT NULL`).join(',\n    ')},
+    default_dose_ml REAL NOT NULL,
+    max_dose_ml REAL NOT NULL,
+    min_interval_ms INTEGER NOT NULL,
+    settle_ms INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS nutrient_doses (
+    command_id TEXT PRIMARY KEY,
+    plant_type TEXT NOT NULL,
+    device_id TEXT NOT NULL,
+    issued_by TEXT,
+    dose_ml REAL NOT NULL,
+    dosed_at INTEGER NOT NULL,
+    ${NUTRIENTS.map(nutrient => `before_${nutrient} REAL, after_${nutrient} REAL`).join(',\n    ')},
+    measured_at INTEGER
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_nutrient_doses_level ON nutrient_doses (plant_type, dosed_at);
+`;
+
+const round = (value, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const rowToSettings = (row) => ({
+  mode: row.mode,
+  targets: NUTRIENTS.reduce((acc, nutrient) => {
+    acc[nutrient] = { min: row[`${nutrient}_min`], max: row[`${nutrient}_max`] };
+    return acc;
+  }, {}),
+  defaultDoseMl: row.default_dose_ml,
+  maxDoseMl: row.max_dose_ml,
+  minIntervalMs: row.min_interval_ms,
+  settleMs: row.settle_ms
+});
+
+const rowToDose = (row) => {
+  const readings = (prefix) => NUTRIENTS.reduce((acc, nutrient) => {
+    acc[nutrient] = row[`${prefix}_${nutrient}`];
+    return acc;
+  }, {});
+  const before = readings('before');
+  const after = row.measured_at ? readings('after') : null;
+
+  return {
+    commandId: row.command_id,
+    plantType: row.plant_type,
+    deviceId: row.device_id,
+    issuedBy: row.issued_by,
+    doseMl: row.dose_ml,
+    dosedAt: new Date(row.dosed_at).toISOString(),
+    before,
+    after,
+    change: after && NUTRIENTS.reduce((acc, nutrient) => {
+      acc[nutrient] = before[nutrient] !== null && after[nutrient] !== null ? round(after[nutrient] - before[nutrient]) : null;
+      return acc;
+    }, {}),
+    measuredAt: row.measured_at ? new Date(row.measured_at).toISOString() : null
+  };
+};
+
+// Error message for settings changes that cannot be stored, or null
+const validateNutrientSettings = (changes, current = DEFAULT_NUTRIENT_SETTINGS) => {
+  if (!changes || typeof changes !== 'object') {
+    return 'settings must be an object';
+  }
+
+  for (const [field, value] of Object.entries(changes)) {
+    if (field === 'mode') {
+      if (!['manual', 'auto'].includes(value)) return 'mode must be one of manual, auto';
+      continue;
+    }
+    if (field === 'targets') {
+      if (!value || typeof value !== 'object') return 'targets must be an object';
+      for (const [nutrient, band] of Object.entries(value)) {
+        if (!NUTRIENTS.includes(nutrient)) return `Unknown nutrient ${nutrient}`;
+        const { min, max } = band || {};
+        if (typeof min !== 'number' || typeof max !== 'number' || !isFinite(min) || !isFinite(max) || min < 0 || min >= max) {
+          return `${nutrient} target needs numbers min and max with 0 <= min < max`;
+        }
+      }
+      continue;
+    }
+    const range = Object.hasOwn(NUTRIENT_RANGES, field) ? NUTRIENT_RANGES[field] : null;
+    if (!range) {
+      return `Unknown setting ${field}`;
+    }
+    if (typeof value !== 'number' || !isFinite(value) || value < range.min || value > range.max) {
+      return `${field} must be a number from ${range.min} to ${range.max}`;
+    }
+  }
+
+  const { defaultDoseMl, maxDoseMl } = { ...current, ...changes };
+  if (defaultDoseMl > maxDoseMl) {
+    return 'defaultDoseMl must not exceed maxDoseMl';
+  }
+  return null;
+};
+
+const createNutrients = (storage) => {
+  const { db } = storage;
+  db.exec(SCHEMA);
+
+  const settingsColumns = [
+    'plant_type', 'mode',
+    ...NUTRIENTS.flatMap(nutrient => [`${nutrient}_min`, `${nutrient}_max`]),
+    'default_dose_ml', 'max_dose_ml', 'min_interval_ms', 'settle_ms', 'updated_at'
+  ];
+  const settingsParams = [
+    'plantType', 'mode',
+    ...NUTRIENTS.flatMap(nutrient => [`${nutrient}Min`, `${nutrient}Max`]),
+    'defaultDoseMl', 'maxDoseMl', 'minIntervalMs', 'settleMs', 'updatedAt'
+  ];
+
+  const statements = {
+    getSettings: db.prepare(`SELECT * FROM nutrient_settings WHERE plant_type = ?`),
+    upsertSettings: db.prepare(`
+      INSERT INTO nutrient_settings (${settingsColumns.join(', ')})
+      VALUES (${settingsParams.map(param => `@${param}`).join(', ')})
+      ON CONFLICT (plant_type) DO UPDATE SET
+        ${settingsColumns.slice(1).map(column => `${column} = excluded.${column}`).join(',\n        ')}
+    `),
+    deleteSettings: db.prepare(`DELETE FROM nutrient_settings WHERE plant_type = ?`),
+    insertDose: db.prepare(`
+      INSERT OR IGNORE INTO nutrient_doses (command_id, plant_type, device_id, issued_by, dose_ml, dosed_at,
+        ${NUTRIENTS.map(nutrient => `before_${nutrient}`).join(', ')})
+      VALUES (@commandId, @plantType, @deviceId, @issuedBy, @doseMl, @dosedAt,
+        ${NUTRIENTS.map(nutrient => `@${nutrient}`).join(', ')})
+    `),
+    measureDose: db.prepare(`
+      UPDATE nutrient_doses SET
+        ${NUTRIENTS.map(nutrient => `after_${nutrient} = @${nutrient}`).join(', ')},
+        measured_at = @measuredAt
+      WHERE command_id = @commandId
+    `),
+    getDose: db.prepare(`SELECT * FROM nutrient_doses WHERE command_id = ?`),
+    recentDoses: db.prepare(`SELECT * FROM nutrient_doses WHERE plant_type = ? ORDER BY dosed_at DESC LIMIT ?`),
+    measuredDoses: db.prepare(`
+      SELECT * FROM nutrient_doses WHERE plant_type = ? AND measured_at IS NOT NULL ORDER BY dosed_at DESC LIMIT ?
+    `),
+    unmeasuredDoses: db.prepare(`SELECT * FROM nutrient_doses WHERE plant_type = ? AND measured_at IS NULL AND dosed_at <= ?`),
+    deleteDoses: db.prepare(`DELETE FROM nutrient_doses WHERE plant_type = ?`)
+  };
+
+  // Last reported plan per level
+  const plans = new Map();
+
+  const getSettings = (plantType) => {
+    const row = statements.getSettings.get(plantType);
+    return row ? rowToSettings(row) : { ...DEFAULT_NUTRIENT_SETTINGS, targets: { ...DEFAULT_NUTRIENT_SETTINGS.targets } };
+  };
+
+  // Update some settings of a level; the others keep their value and targets
+  // may name only the nutrients that change
+  const saveSettings = (plantType, changes) => {
+    const current = getSettings(plantType);
+    const settings = { ...current, ...changes, targets: { ...current.targets, ...(changes.targets || {}) } };
+    statements.upsertSettings.run({
+      plantType,
+      mode: settings.mode,
+      ...NUTRIENTS.reduce((acc, nutrient) => {
+        acc[`${nutrient}Min`] = settings.targets[nutrient].min;
+        acc[`${nutrient}Max`] = settings.targets[nutrient].max;
+        return acc;
+      }, {}),
+      defaultDoseMl: settings.defaultDoseMl,
+      maxDoseMl: settings.maxDoseMl,
+      minIntervalMs: settings.minIntervalMs,
+      settleMs: settings.settleMs,
+      updatedAt: Date.now()
+    });
+    return getSettings(plantType);
+  };
+
+  const deleteLevel = (plantType) => {
+    statements.deleteSettings.run(plantType);
+    statements.deleteDoses.run(plantType);
+    plans.delete(plantType);
+  };
+
+  // Record a completed fertilizer dose with the readings just before it
+  const recordDose = ({ commandId, plantType, deviceId, issuedBy, doseMl, readings, dosedAt = Date.now() }) => {
+    statements.insertDose.run({
+      commandId,
+      plantType,
+      deviceId,
+      issuedBy: issuedBy || null,
+      doseMl,
+      dosedAt,
+      ...NUTRIENTS.reduce((acc, nutrient) => {
+        acc[nutrient] = readings[nutrient] ?? null;
+        return acc;
+      }, {})
+    });
+    return rowToDose(statements.getDose.get(commandId));
+  };
+
+  // Doses of a level whose settle time has passed but have no after readings
+  // yet; readings are { nitrogen, phosphorus, potassium } values that are fresh.
+  // Returns the doses measured now.
+  const measureDoses = (plantType, readings, now = Date.now()) => {
+    if (NUTRIENTS.every(nutrient => readings[nutrient] === undefined)) return [];
+    const { settleMs } = getSettings(plantType);
+    return statements.unmeasuredDoses.all(plantType, now - settleMs).map(row => {
+      statements.measureDose.run({
+        commandId: row.command_id,
+        measuredAt: now,
+        ...NUTRIENTS.reduce((acc, nutrient) => {
+          acc[nutrient] = readings[nutrient] ?? null;
+          return acc;
+        }, {})
+      });
+      return rowToDose(statements.getDose.get(row.command_id));
+    });
+  };
+
+  const getDoses = (plantType, limit = 20) => statements.recentDoses.all(plantType, limit).map(rowToDose);
+
+  // Average change in mg/kg per ml of the level's recent measured doses, per
+  // nutrient; null where doses showed no rise
+  const getResponsePerMl = (plantType) => {
+    const doses = statements.measuredDoses.all(plantType, RESPONSE_SAMPLE_SIZE).map(rowToDose);
+    return NUTRIENTS.reduce((acc, nutrient) => {
+      const samples = doses
+        .filter(dose => dose.change[nutrient] !== null && dose.doseMl > 0)
+        .map(dose => dose.change[nutrient] / dose.doseMl);
+      const average = samples.length ? samples.reduce((sum, value) => sum + value, 0) / samples.length : 0;
+      acc[nutrient] = average > 0 ? round(average, 3) : null;
+      return acc;
+    }, {});
+  };
+
+  const getPlan = (plantType) => plans.get(plantType) || null;
+
+  // Dosing plan of a level. readings holds the level's latest value per
+  // nutrient as { value, fresh } or undefined; dosing tells whether a
+  // fertilizer command is still waiting for its device. Returns { dose, plan }:
+  // in auto mode dose is the ml the caller should give now, reported back with
+  // recordRefusal when an interlock refuses it.
+  const evaluate = (plantType, { readings, hasActuator, dosing, now = Date.now() }) => {
+    const settings = getSettings(plantType);
+    const responsePerMl = getResponsePerMl(plantType);
+    const lastDose = statements.recentDoses.get(plantType, 1);
+    const nextDoseAt = lastDose ? lastDose.dosed_at + settings.minIntervalMs : null;
+
+    const nutrients = NUTRIENTS.reduce((acc, nutrient) => {
+      const { min, max } = settings.targets[nutrient];
+      const reading = readings[nutrient];
+      const value = reading && reading.fresh ? reading.value : null;
+      const target = (min + max) / 2;
+      acc[nutrient] = { value, min, max, target, deficit: value === null ? null : round(Math.max(target - value, 0)) };
+      return acc;
+    }, {});
+
+    const result = (phase, message, recommendedMl = null, details = {}) => {
+      const plan = {
+        plantType,
+        mode: settings.mode,
+        phase,
+        message,
+        nutrients,
+        recommendedMl,
+        responsePerMl,
+        lastDoseAt: lastDose ? new Date(lastDose.dosed_at).toISOString() : null,
+        nextDoseAt: nextDoseAt && nextDoseAt > now ? new Date(nextDoseAt).toISOString() : null,
+        updatedAt: new Date(now).toISOString(),
+        ...details
+      };
+      plans.set(plantType, plan);
+      return { dose: phase === 'due' && settings.mode === 'auto' ? recommendedMl : null, plan };
+    };
+
+    if (NUTRIENTS.some(nutrient => nutrients[nutrient].value === null)) {
+      return result('waiting', 'No recent NPK reading');
+    }
+    const low = NUTRIENTS.filter(nutrient => nutrients[nutrient].value < nutrients[nutrient].min);
+    const high = NUTRIENTS.filter(nutrient => nutrients[nutrient].value > nutrients[nutrient].max);
+    if (low.length === 0) {
+      return result('ok', high.length > 0
+        ? `Nothing to dose; ${high.join(', ')} above target`
+        : 'Nitrogen, phosphorus and potassium are within their targets');
+    }
+    if (high.length > 0) {
+      return result('blocked', `${low.join(', ')} low but ${high.join(', ')} above target; a dose would raise it further`);
+    }
+
+    // Largest dose any low nutrient needs, or the default while its response is unknown
+    let ml = Math.max(...low.map(nutrient =>
+      responsePerMl[nutrient] ? nutrients[nutrient].deficit / responsePerMl[nutrient] : settings.defaultDoseMl
+    ));
+    // Smallest dose that would push a nutrient above its band
+    const ceiling = Math.min(...NUTRIENTS.filter(nutrient => responsePerMl[nutrient]).map(nutrient =>
+      (nutrients[nutrient].max - nutrients[nutrient].value) / responsePerMl[nutrient]
+    ));
+    ml = round(Math.min(ml, settings.maxDoseMl, ceiling));
+    if (!(ml >= 1)) {
+      return result('blocked', 'Any dose would push a nutrient above its target');
+    }
+
+    const message = `${low.join(', ')} below target, ${ml} ml recommended`;
+    if (!hasActuator) {
+      return result('waiting', `${message}; no actuator device is assigned to this level`, ml);
+    }
+    if (dosing) {
+      return result('dosing', 'Fertilizer dose in progress', ml);
+    }
+    if (nextDoseAt && now < nextDoseAt) {
+      return result('interval', `${message} after the minimum interval`, ml);
+    }
+    return result('due', message, ml);
+  };
+
+  const recordDosing = (plantType, doseMl) => {
+    const plan = { ...plans.get(plantType), phase: 'dosing', message: `Dosing ${doseMl} ml of fertilizer` };
+    plans.set(plantType, plan);
+    return plan;
+  };
+
+  // An interlock refused the dose; it is tried again on the next evaluation
+  const recordRefusal = (plantType, refusal) => {
+    const plan = { ...plans.get(plantType), phase: 'blocked', message: refusal.message, interlock: refusal.reason };
+    plans.set(plantType, plan);
+    return plan;
+  };
+
+  return {
+    getSettings,
+    saveSettings,
+    deleteLevel,
+    recordDose,
+    measureDoses,
+    getDoses,
+    getPlan,
+    evaluate,
+    recordDosing,
+    recordRefusal
+  };
+};
+
+module.exports = {
+  createNutrients,
+  validateNutrientSettings,
+  NUTRIENTS
+};
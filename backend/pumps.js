@@ -0,0 +1,112 @@
+// Pump calibration and dose sizing.
+// Each device's water and fertilizer pump has a flow rate in ml per second,
+// so a dose can be given either as a run time or as a volume. Pumps that have
+// not been calibrated yet use a typical rate for their kind.
+
+const PUMPS = ['water', 'nutrients'];
+
+// Typical flow of the stock pumps: a small submersible water pump and a
+// peristaltic fertilizer pump
+const DEFAULT_FLOW_RATES = {
+  water: 25,
+  nutrients: 1.5
+};
+
+// Longest single dose; anything longer is more likely a typo than intent
+const MAX_DOSE_MS = 10 * 60 * 1000;
+const MAX_FLOW_RATE = 1000;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS pump_calibration (
+    device_id TEXT NOT NULL,
+    pump TEXT NOT NULL,
+    ml_per_second REAL NOT NULL,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (device_id, pump)
+  );
+`;
+
+const round = (value, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const createPumps = (storage) => {
+  const { db } = storage;
+  db.exec(SCHEMA);
+
+  const statements = {
+    deviceCalibration: db.prepare(`SELECT * FROM pump_calibration WHERE device_id = ?`),
+    upsertCalibration: db.prepare(`
+      INSERT INTO pump_calibration (device_id, pump, ml_per_second, updated_at)
+      VALUES (@deviceId, @pump, @mlPerSecond, @updatedAt)
+      ON CONFLICT (device_id, pump) DO UPDATE SET
+        ml_per_second = excluded.ml_per_second,
+        updated_at = excluded.updated_at
+    `),
+    deleteCalibration: db.prepare(`DELETE FROM pump_calibration WHERE device_id = ?`)
+  };
+
+  // Flow rate of every pump of a device, calibrated or default
+  const getCalibration = (deviceId) => {
+    const rows = statements.deviceCalibration.all(deviceId);
+    return PUMPS.reduce((acc, pump) => {
+      const row = rows.find(candidate => candidate.pump === pump);
+      acc[pump] = row
+        ? { mlPerSecond: row.ml_per_second, calibrated: true, updatedAt: new Date(row.updated_at).toISOString() }
+        : { mlPerSecond: DEFAULT_FLOW_RATES[pump], calibrated: false, updatedAt: null };
+      return acc;
+    }, {});
+  };
+
+  const setFlowRate = (deviceId, pump, mlPerSecond) => {
+    statements.upsertCalibration.run({ deviceId, pump, mlPerSecond, updatedAt: Date.now() });
+    return getCalibration(deviceId);
+  };
+
+  const deleteCalibration = (deviceId) => {
+    statements.deleteCalibration.run(deviceId);
+  };
+
+  // Run time and volume of a requested dose ({ seconds } or { ml }), or an
+  // error message when the request is not a usable dose
+  const resolveDose = (deviceId, pump, dose) => {
+    if (!PUMPS.includes(pump)) {
+      return { error: `Only ${PUMPS.join(' and ')} commands take a dose` };
+    }
+    if (!dose || typeof dose !== 'object') {
+      return { error: 'dose must be an object with seconds or ml' };
+    }
+
+    const { seconds, ml } = dose;
+    if ((seconds === undefined) === (ml === undefined)) {
+      return { error: 'dose needs exactly one of seconds or ml' };
+    }
+
+    const amount = seconds ?? ml;
+    if (typeof amount !== 'number' || !isFinite(amount) || amount <= 0) {
+      return { error: 'dose amount must be a positive number' };
+    }
+
+    const { mlPerSecond } = getCalibration(deviceId)[pump];
+    const durationMs = Math.round(seconds !== undefined ? seconds * 1000 : ml / mlPerSecond * 1000);
+    if (durationMs > MAX_DOSE_MS) {
+      return { error: `dose would run the pump for more than ${MAX_DOSE_MS / 60000} minutes` };
+    }
+
+    return {
+      durationMs,
+      doseMl: round(seconds !== undefined ? seconds * mlPerSecond : ml)
+    };
+  };
+
+  return {
+    getCalibration,
+    setFlowRate,
+    deleteCalibration,
+    resolveDose
+  };
+};
+
+module.exports = {
+  createPumps,
+  PUMPS,
+  MAX_FLOW_RATE
+};
@@ -0,0 +1,293 @@
+// Registry of grow levels and the devices serving them.
+// Each level (plant type) names the device its sensor readings come from and
+// the device its actuator commands go to, and may take single metrics from
+// other devices (see sensorSources.js). Devices register themselves the first
+// time they report in, so new boards can be assigned from the UI.
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS devices (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS levels (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    sensor_device_id TEXT,
+    actuator_device_id TEXT,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS level_sensor_sources (
+    plant_type TEXT NOT NULL,
+    metric TEXT NOT NULL,
+    device_id TEXT NOT NULL,
+    fallback_device_id TEXT,
+    PRIMARY KEY (plant_type, metric)
+  );
+
+  CREATE TABLE IF NOT EXISTS device_firmware (
+    device_id TEXT PRIMARY KEY,
+    version TEXT,
+    board TEXT,
+    reported_at INTEGER NOT NULL
+  );
+`;
+
+// Seeded on first start: the original two-shelf box with one ESP32 per level
+const DEFAULT_DEVICES = [
+  { id: 'esp32_1', name: 'ESP32 #1' },
+  { id: 'esp32_2', name: 'ESP32 #2' }
+];
+
+// Both levels share esp32_1's air sensor and water tank and esp32_2's fertilizer tank
+const DEFAULT_LEVELS = [
+  {
+    id: 'level1',
+    name: 'Level 1',
+    sensorDeviceId: 'esp32_1',
+    actuatorDeviceId: 'esp32_1',
+    sensorSources: {
+      fertilizerLevel: { deviceId: 'esp32_2' }
+    }
+  },
+  {
+    id: 'level2',
+    name: 'Level 2',
+    sensorDeviceId: 'esp32_2',
+    actuatorDeviceId: 'esp32_2',
+    sensorSources: {
+      temperature: { deviceId: 'esp32_1' },
+      humidity: { deviceId: 'esp32_1' },
+      waterLevel: { deviceId: 'esp32_1' }
+    }
+  }
+];
+
+// Level and device ids end up in URLs and socket rooms
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const rowToDevice = (row) => ({
+  id: row.id,
+  name: row.name,
+  createdAt: new Date(row.created_at).toISOString()
+});
+
+const rowToFirmware = (row) => ({
+  version: row.version,
+  board: row.board,
+  reportedAt: new Date(row.reported_at).toISOString()
+});
+
+const rowToLevel = (row, sourceRows) => ({
+  id: row.id,
+  name: row.name,
+  position: row.position,
+  sensorDeviceId: row.sensor_device_id,
+  actuatorDeviceId: row.actuator_device_id,
+  sensorSources: sourceRows.reduce((acc, source) => {
+    acc[source.metric] = {
+      deviceId: source.device_id,
+      fallbackDeviceId: source.fallback_device_id
+    };
+    return acc;
+  }, {})
+});
+
+const createRegistry = (storage) => {
+  const { db } = storage;
+  db.exec(SCHEMA);
+
+  const statements = {
+    allDevices: db.prepare(`SELECT * FROM devices ORDER BY id`),
+    getDevice: db.prepare(`SELECT * FROM devices WHERE id = ?`),
+    upsertDevice: db.prepare(`
+      INSERT INTO devices (id, name, created_at) VALUES (@id, @name, @createdAt)
+      ON CONFLICT (id) DO UPDATE SET name = excluded.name
+    `),
+    deleteDevice: db.prepare(`DELETE FROM devices WHERE id = ?`),
+    getFirmware: db.prepare(`SELECT * FROM device_firmware WHERE device_id = ?`),
+    upsertFirmware: db.prepare(`
+      INSERT INTO device_firmware (device_id, version, board, reported_at)
+      VALUES (@deviceId, @version, @board, @reportedAt)
+      ON CONFLICT (device_id) DO UPDATE SET
+        version = COALESCE(excluded.version, version),
+        board = COALESCE(excluded.board, board),
+        reported_at = excluded.reported_at
+    `),
+    deleteFirmware: db.prepare(`DELETE FROM device_firmware WHERE device_id = ?`),
+    allLevels: db.prepare(`SELECT * FROM levels ORDER BY position, id`),
+    getLevel: db.prepare(`SELECT * FROM levels WHERE id = ?`),
+    countLevels: db.prepare(`SELECT COUNT(*) AS count FROM levels`),
+    nextPosition: db.prepare(`SELECT COALESCE(MAX(position), -1) + 1 AS position FROM levels`),
+    upsertLevel: db.prepare(`
+      INSERT INTO levels (id, name, position, sensor_device_id, actuator_device_id, created_at)
+      VALUES (@id, @name, @position, @sensorDeviceId, @actuatorDeviceId, @createdAt)
+      ON CONFLICT (id) DO UPDATE SET
+        name = excluded.name,
+        position = excluded.position,
+        sensor_device_id = excluded.sensor_device_id,
+        actuator_device_id = excluded.actuator_device_id
+    `),
+    deleteLevel: db.prepare(`DELETE FROM levels WHERE id = ?`),
+    levelSources: db.prepare(`SELECT * FROM level_sensor_sources WHERE plant_type = ?`),
+    countSources: db.prepare(`SELECT COUNT(*) AS count FROM level_sensor_sources`),
+    insertSource: db.prepare(`
+      INSERT INTO level_sensor_sources (plant_type, metric, device_id, fallback_device_id)
+      VALUES (@plantType, @metric, @deviceId, @fallbackDeviceId)
+    `),
+    deleteSources: db.prepare(`DELETE FROM level_sensor_sources WHERE plant_type = ?`),
+    levelsBySource: db.prepare(`
+      SELECT DISTINCT plant_type FROM level_sensor_sources
+      WHERE device_id = @deviceId OR fallback_device_id = @deviceId
+    `),
+    levelsByDevice: db.prepare(`
+      SELECT * FROM levels WHERE sensor_device_id = @deviceId OR actuator_device_id = @deviceId
+      ORDER BY position, id
+    `)
+  };
+
+  const getDevices = () => statements.allDevices.all().map(rowToDevice);
+
+  const getDevice = (id) => {
+    const row = statements.getDevice.get(id);
+    return row ? rowToDevice(row) : null;
+  };
+
+  const saveDevice = (id, { name } = {}) => {
+    const existing = getDevice(id);
+    statements.upsertDevice.run({
+      id,
+      name: name || existing?.name || id,
+      createdAt: Date.now()
+    });
+    return getDevice(id);
+  };
+
+  // Record a device the first time it reports in; true when it was new
+  const registerDevice = (id) => {
+    if (getDevice(id)) return false;
+    saveDevice(id);
+    return true;
+  };
+
+  const deleteDevice = (id) => db.transaction(() => {
+    statements.deleteFirmware.run(id);
+    return statements.deleteDevice.run(id).changes > 0;
+  })();
+
+  // Firmware a device last reported; fields it leaves out keep their value
+  const recordFirmware = (deviceId, { version, board } = {}) => {
+    statements.upsertFirmware.run({
+      deviceId,
+      version: version || null,
+      board: board || null,
+      reportedAt: Date.now()
+    });
+  };
+
+  const getFirmware = (deviceId) => {
+    const row = statements.getFirmware.get(deviceId);
+    return row ? rowToFirmware(row) : null;
+  };
+
+  const toLevel = (row) => rowToLevel(row, statements.levelSources.all(row.id));
+
+  const getLevels = () => statements.allLevels.all().map(toLevel);
+
+  const getLevel = (id) => {
+    const row = statements.getLevel.get(id);
+    return row ? toLevel(row) : null;
+  };
+
+  // Replace the per-metric sources of a level
+  const setSensorSources = (plantType, sensorSources) => {
+    statements.deleteSources.run(plantType);
+    Object.entries(sensorSources).forEach(([metric, source]) => {
+      statements.insertSource.run({
+        plantType,
+        metric,
+        deviceId: source.deviceId,
+        fallbackDeviceId: source.fallbackDeviceId || null
+      });
+    });
+  };
+
+  // Create or update a level; omitted fields keep their current value
+  const saveLevel = (id, changes = {}) => {
+    const existing = getLevel(id);
+    const { sensorSources, ...fields } = changes;
+    const level = {
+      id,
+      name: existing?.name || id,
+      position: existing ? existing.position : statements.nextPosition.get().position,
+      sensorDeviceId: existing?.sensorDeviceId ?? null,
+      actuatorDeviceId: existing?.actuatorDeviceId ?? null,
+      ...fields
+    };
+    db.transaction(() => {
+      statements.upsertLevel.run({ ...level, createdAt: Date.now() });
+      if (sensorSources) setSensorSources(id, sensorSources);
+    })();
+    return getLevel(id);
+  };
+
+  const deleteLevel = (id) => db.transaction(() => {
+    statements.deleteSources.run(id);
+    return statements.deleteLevel.run(id).changes > 0;
+  })();
+
+  // First level a device serves, as sensor source or actuator target
+  const getPlantTypeForDevice = (deviceId) => statements.levelsByDevice.get({ deviceId })?.id;
+
+  // Levels referencing a device, which must be reassigned before it is removed
+  const getLevelsUsingDevice = (deviceId) => {
+    const sourceLevels = statements.levelsBySource.all({ deviceId }).map(row => row.plant_type);
+    return getLevels().filter(level =>
+      level.sensorDeviceId === deviceId || level.actuatorDeviceId === deviceId || sourceLevels.includes(level.id)
+    );
+  };
+
+  const getSnapshot = () => ({
+    levels: getLevels(),
+    devices: getDevices()
+  });
+
+  // Seed the original layout on an empty database
+  if (statements.countLevels.get().count === 0) {
+    db.transaction(() => {
+      DEFAULT_DEVICES.forEach(device => saveDevice(device.id, device));
+      DEFAULT_LEVELS.forEach(({ id, ...level }) => saveLevel(id, level));
+    })();
+  } else if (statements.countSources.get().count === 0) {
+    // Registries created before per-metric sources keep the original shared sensors
+    DEFAULT_LEVELS.forEach(({ id, sensorSources }) => {
+      if (getLevel(id)) setSensorSources(id, sensorSources);
+    });
+  }
+
+  return {
+    getDevices,
+    getDevice,
+    saveDevice,
+    registerDevice,
+    deleteDevice,
+    recordFirmware,
+    getFirmware,
+    getLevels,
+    getLevel,
+    saveLevel,
+    deleteLevel,
+    getPlantTypeForDevice,
+    getLevelsUsingDevice,
+    getSnapshot
+  };
+};
+
+module.exports = {
+  createRegistry,
+  DEFAULT_LEVELS,
+  ID_PATTERN
+};
@@ -0,0 +1,293 @@
+const { READING_COLUMNS, rowToReading } = require('./storage');
+
+// Downsampling and retention tiers for sensor readings.
+// Raw readings are rolled up into 1-minute and hourly min/max/avg buckets, and
+// each tier is pruned according to a retention policy per plant type.
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Raw for 48 hours, 1-minute averages for 30 days, hourly buckets forever (null)
+const DEFAULT_RETENTION_POLICY = {
+  rawHours: 48,
+  minuteDays: 30,
+  hourlyDays: null
+};
+
+// Upper bound on points returned for a range before a coarser tier is chosen
+const MAX_POINTS_PER_QUERY = 1000;
+
+// Expected spacing of samples in each tier, used to estimate result sizes
+const TIER_RESOLUTION_MS = {
+  raw: 30 * 1000,
+  '1m': MINUTE_MS,
+  '1h': HOUR_MS
+};
+
+const TIER_TABLES = {
+  '1m': 'readings_1m',
+  '1h': 'readings_1h'
+};
+
+const COLUMNS = Object.values(READING_COLUMNS);
+
+const rollupTableSchema = (table) => `
+  CREATE TABLE IF NOT EXISTS ${table} (
+    plant_type TEXT NOT NULL,
+    device_id TEXT NOT NULL,
+    bucket_start INTEGER NOT NULL,
+    sample_count INTEGER NOT NULL,
+    ${COLUMNS.map(column => `${column}_avg REAL, ${column}_min REAL, ${column}_max REAL`).join(',\n    ')},
+    PRIMARY KEY (plant_type, device_id, bucket_start)
+  );
+`;
+
+const SCHEMA = `
+  ${rollupTableSchema(TIER_TABLES['1m'])}
+  ${rollupTableSchema(TIER_TABLES['1h'])}
+
+  CREATE TABLE IF NOT EXISTS retention_policies (
+    plant_type TEXT PRIMARY KEY,
+    raw_hours REAL NOT NULL,
+    minute_days REAL NOT NULL,
+    hourly_days REAL
+  );
+`;
+
+// Turn a rollup row into a reading of bucket averages with min/max alongside
+const rowToBucket = (row) => {
+  const bucket = rowToReading({
+    ...row,
+    timestamp: row.bucket_start,
+    ...COLUMNS.reduce((acc, column) => {
+      acc[column] = row[`${column}_avg`];
+      return acc;
+    }, {})
+  });
+  bucket.sampleCount = row.sample_count;
+  bucket.min = {};
+  bucket.max = {};
+  Object.entries(READING_COLUMNS).forEach(([field, column]) => {
+    if (row[`${column}_min`] !== null) bucket.min[field] = row[`${column}_min`];
+    if (row[`${column}_max`] !== null) bucket.max[field] = row[`${column}_max`];
+  });
+  return bucket;
+};
+
+// Error message for a policy whose tiers do not follow on from each other, or
+// null. Each tier is rolled up from the one before it, so it has to be kept at
+// least as long or data is deleted before it has been rolled up.
+const validatePolicyTiers = (policy) => {
+  if (policy.minuteDays * 24 < policy.rawHours) {
+    return 'minuteDays must cover at least rawHours';
+  }
+  if (policy.hourlyDays !== null && policy.hourlyDays !== undefined && policy.hourlyDays < policy.minuteDays) {
+    return 'hourlyDays must be null or at least minuteDays';
+  }
+  return null;
+};
+
+const parsePolicyOverrides = () => {
+  if (!process.env.RETENTION_POLICY) return {};
+  try {
+    return JSON.parse(process.env.RETENTION_POLICY);
+  } catch (error) {
+    console.error('Invalid RETENTION_POLICY JSON, using defaults:', error.message);
+    return {};
+  }
+};
+
+const createRollups = (storage) => {
+  const { db } = storage;
+  db.exec(SCHEMA);
+
+  // RETENTION_POLICY may hold a default policy and per plant type overrides,
+  // e.g. {"default": {"rawHours": 24}, "level2": {"minuteDays": 60}}
+  const envPolicies = parsePolicyOverrides();
+  const defaultPolicy = { ...DEFAULT_RETENTION_POLICY, ...(envPolicies.default || {}) };
+
+  const statements = {
+    getPolicy: db.prepare(`SELECT * FROM retention_policies WHERE plant_type = ?`),
+    upsertPolicy: db.prepare(`
+      INSERT INTO retention_policies (plant_type, raw_hours, minute_days, hourly_days)
+      VALUES (@plantType, @rawHours, @minuteDays, @hourlyDays)
+      ON CONFLICT (plant_type) DO UPDATE SET
+        raw_hours = excluded.raw_hours,
+        minute_days = excluded.minute_days,
+        hourly_days = excluded.hourly_days
+    `),
+    plantTypes: db.prepare(`
+      SELECT plant_type FROM readings
+      UNION SELECT plant_type FROM ${TIER_TABLES['1m']}
+      UNION SELECT plant_type FROM ${TIER_TABLES['1h']}
+    `),
+    latestMinuteBucket: db.prepare(`SELECT MAX(bucket_start) AS latest FROM ${TIER_TABLES['1m']}`),
+    latestHourBucket: db.prepare(`SELECT MAX(bucket_start) AS latest FROM ${TIER_TABLES['1h']}`),
+    earliestReading: db.prepare(`SELECT MIN(timestamp) AS earliest FROM readings`),
+    earliestMinuteBucket: db.prepare(`SELECT MIN(bucket_start) AS earliest FROM ${TIER_TABLES['1m']}`),
+    rollupMinutes: db.prepare(`
+      INSERT OR REPLACE INTO ${TIER_TABLES['1m']} (
+        plant_type, device_id, bucket_start, sample_count,
+        ${COLUMNS.map(column => `${column}_avg, ${column}_min, ${column}_max`).join(', ')}
+      )
+      SELECT
+        plant_type, device_id, (timestamp / ${MINUTE_MS}) * ${MINUTE_MS} AS bucket, COUNT(*),
+        ${COLUMNS.map(column => `AVG(${column}), MIN(${column}), MAX(${column})`).join(', ')}
+      FROM readings
+      WHERE timestamp >= @from AND timestamp < @to
+      GROUP BY plant_type, device_id, bucket
+    `),
+    rollupHours: db.prepare(`
+      INSERT OR REPLACE INTO ${TIER_TABLES['1h']} (
+        plant_type, device_id, bucket_start, sample_count,
+        ${COLUMNS.map(column => `${column}_avg, ${column}_min, ${column}_max`).join(', ')}
+      )
+      SELECT
+        plant_type, device_id, (bucket_start / ${HOUR_MS}) * ${HOUR_MS} AS bucket, SUM(sample_count),
+        ${COLUMNS.map(column => `
+          SUM(${column}_avg * sample_count) / SUM(CASE WHEN ${column}_avg IS NOT NULL THEN sample_count END),
+          MIN(${column}_min), MAX(${column}_max)`).join(', ')}
+      FROM ${TIER_TABLES['1m']}
+      WHERE bucket_start >= @from AND bucket_start < @to
+      GROUP BY plant_type, device_id, bucket
+    `),
+    pruneRaw: db.prepare(`DELETE FROM readings WHERE plant_type = ? AND timestamp < ?`),
+    pruneMinutes: db.prepare(`DELETE FROM ${TIER_TABLES['1m']} WHERE plant_type = ? AND bucket_start < ?`),
+    pruneHours: db.prepare(`DELETE FROM ${TIER_TABLES['1h']} WHERE plant_type = ? AND bucket_start < ?`),
+    rawRange: db.prepare(`
+      SELECT * FROM readings
+      WHERE plant_type = @plantType AND timestamp >= @from AND timestamp <= @to
+      ORDER BY timestamp ASC, id ASC
+    `),
+    minuteRange: db.prepare(`
+      SELECT * FROM ${TIER_TABLES['1m']}
+      WHERE plant_type = @plantType AND bucket_start >= @from AND bucket_start <= @to
+      ORDER BY bucket_start ASC
+    `),
+    hourRange: db.prepare(`
+      SELECT * FROM ${TIER_TABLES['1h']}
+      WHERE plant_type = @plantType AND bucket_start >= @from AND bucket_start <= @to
+      ORDER BY bucket_start ASC
+    `)
+  };
+
+  // Policies
+
+  const getPolicy = (plantType) => {
+    const row = statements.getPolicy.get(plantType);
+    if (row) {
+      return { rawHours: row.raw_hours, minuteDays: row.minute_days, hourlyDays: row.hourly_days };
+    }
+    return { ...defaultPolicy, ...(envPolicies[plantType] || {}) };
+  };
+
+  const setPolicy = (plantType, changes) => {
+    const policy = { ...getPolicy(plantType), ...changes };
+    statements.upsertPolicy.run({
+      plantType,
+      rawHours: policy.rawHours,
+      minuteDays: policy.minuteDays,
+      hourlyDays: policy.hourlyDays ?? null
+    });
+    return getPolicy(plantType);
+  };
+
+  // Rollups
+
+  // Aggregate completed minutes and hours. Recent buckets are recomputed so
+  // readings that arrive late are still counted.
+  const runRollups = (now = Date.now()) => {
+    const currentMinute = Math.floor(now / MINUTE_MS) * MINUTE_MS;
+    const currentHour = Math.floor(now / HOUR_MS) * HOUR_MS;
+
+    const latestMinute = statements.latestMinuteBucket.get().latest;
+    const minuteFrom = latestMinute !== null
+      ? latestMinute - HOUR_MS
+      : statements.earliestReading.get().earliest;
+
+    const latestHour = statements.latestHourBucket.get().latest;
+    const hourFrom = latestHour !== null
+      ? latestHour - HOUR_MS
+      : statements.earliestMinuteBucket.get().earliest;
+
+    db.transaction(() => {
+      if (minuteFrom !== null) {
+        statements.rollupMinutes.run({ from: minuteFrom, to: currentMinute });
+      }
+      const hourStart = hourFrom ?? statements.earliestMinuteBucket.get().earliest;
+      if (hourStart !== null) {
+        statements.rollupHours.run({ from: Math.floor(hourStart / HOUR_MS) * HOUR_MS, to: currentHour });
+      }
+    })();
+  };
+
+  // Delete data that has aged out of each tier
+  const prune = (now = Date.now()) => {
+    let removed = 0;
+    db.transaction(() => {
+      statements.plantTypes.all().forEach(({ plant_type: plantType }) => {
+        const policy = getPolicy(plantType);
+        removed += statements.pruneRaw.run(plantType, now - policy.rawHours * HOUR_MS).changes;
+        removed += statements.pruneMinutes.run(plantType, now - policy.minuteDays * DAY_MS).changes;
+        if (policy.hourlyDays !== null && policy.hourlyDays !== undefined) {
+          removed += statements.pruneHours.run(plantType, now - policy.hourlyDays * DAY_MS).changes;
+        }
+      });
+    })();
+    return removed;
+  };
+
+  // Queries
+
+  // Finest tier that still holds data for `from` and keeps the result small
+  const selectTier = (plantType, from, to, now = Date.now()) => {
+    const policy = getPolicy(plantType);
+    const span = Math.max(to - from, 0);
+
+    if (from >= now - policy.rawHours * HOUR_MS && span / TIER_RESOLUTION_MS.raw <= MAX_POINTS_PER_QUERY) {
+      return 'raw';
+    }
+    if (from >= now - policy.minuteDays * DAY_MS && span / TIER_RESOLUTION_MS['1m'] <= MAX_POINTS_PER_QUERY) {
+      return '1m';
+    }
+    return '1h';
+  };
+
+  // Finest tier that still holds data for `from`, regardless of result size
+  const selectSourceTier = (plantType, from, now = Date.now()) => {
+    const policy = getPolicy(plantType);
+    if (from >= now - policy.rawHours * HOUR_MS) return 'raw';
+    if (from >= now - policy.minuteDays * DAY_MS) return '1m';
+    return '1h';
+  };
+
+  // Readings for a range from the given tier; rollup tiers return bucket averages
+  const queryTier = (tier, plantType, from, to) => {
+    if (tier === 'raw') {
+      return statements.rawRange.all({ plantType, from, to }).map(rowToReading);
+    }
+    const statement = tier === '1m' ? statements.minuteRange : statements.hourRange;
+    return statement.all({ plantType, from, to }).map(rowToBucket);
+  };
+
+  return {
+    getPolicy,
+    setPolicy,
+    runRollups,
+    prune,
+    selectTier,
+    selectSourceTier,
+    queryTier
+  };
+};
+
+module.exports = {
+  createRollups,
+  validatePolicyTiers,
+  DEFAULT_RETENTION_POLICY,
+  TIER_TABLES,
+  MINUTE_MS,
+  HOUR_MS,
+  DAY_MS
+};
@@ -0,0 +1,409 @@
+// Scheduled actuator jobs of each grow level.
+// A job repeats a control action ('water:on', 'light:off', 'nutrients', ...)
+// at a time of day on chosen days of the week, in server local time, e.g.
+// "every day at 06:00 water for 20 s". Jobs can be paused, and single upcoming
+// occurrences skipped. Every occurrence that comes round is recorded in the
+// run history: sent (then completed, failed, timed out or cancelled once the
+// device answers), refused by an interlock, skipped, or missed because the
+// server was not running at the time. backend.js sends the commands through
+// the same interlocks as manual commands, so the emergency stop refuses them.
+
+const { randomUUID } = require('crypto');
+
+const SCHEDULE_ACTIONS = ['water:on', 'water:off', 'light:on', 'light:off', 'nutrients'];
+
+// Actions that take a dose ({ seconds } or { ml }) instead of running until switched off
+const DOSED_ACTIONS = ['water:on', 'nutrients'];
+
+const RUN_STATUSES = {
+  PENDING: 'pending', // Command sent, waiting for the device
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+  TIMEOUT: 'timeout',
+  CANCELLED: 'cancelled',
+  REFUSED: 'refused',
+  SKIPPED: 'skipped',
+  MISSED: 'missed'
+};
+
+// An occurrence found later than this, e.g. after a restart, is recorded as
+// missed rather than run late
+const MAX_LATE_MS = 10 * 60 * 1000;
+
+// Occurrences further back are not recorded at all after a long downtime
+const MAX_CATCH_UP_MS = 7 * 24 * 60 * 60 * 1000;
+
+const RUN_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+const MAX_LABEL_LENGTH = 60;
+const TIME_OF_DAY = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6]; // Sunday first, as Date#getDay
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS scheduled_jobs (
+    id TEXT PRIMARY KEY,
+    plant_type TEXT NOT NULL,
+    label TEXT NOT NULL,
+    action TEXT NOT NULL,
+    dose_seconds REAL,
+    dose_ml REAL,
+    time_of_day TEXT NOT NULL,
+    days TEXT NOT NULL,
+    paused INTEGER NOT NULL DEFAULT 0,
+    last_checked_at INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS schedule_skips (
+    job_id TEXT NOT NULL,
+    occurrence_at INTEGER NOT NULL,
+    PRIMARY KEY (job_id, occurrence_at)
+  );
+
+  CREATE TABLE IF NOT EXISTS schedule_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    job_id TEXT NOT NULL,
+    plant_type TEXT NOT NULL,
+    label TEXT NOT NULL,
+    action TEXT NOT NULL,
+    occurrence_at INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    command_id TEXT,
+    message TEXT,
+    interlock TEXT,
+    recorded_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_level ON scheduled_jobs (plant_type);
+  CREATE INDEX IF NOT EXISTS idx_schedule_runs_level ON schedule_runs (plant_type, occurrence_at);
+  CREATE INDEX IF NOT EXISTS idx_schedule_runs_command ON schedule_runs (command_id);
+`;
+
+const toIsoString = (time) => (time ? new Date(time).toISOString() : null);
+
+const rowToRun = (row) => ({
+  id: row.id,
+  jobId: row.job_id,
+  plantType: row.plant_type,
+  label: row.label,
+  action: row.action,
+  occurrenceAt: toIsoString(row.occurrence_at),
+  status: row.status,
+  commandId: row.command_id,
+  message: row.message,
+  interlock: row.interlock || undefined,
+  recordedAt: toIsoString(row.recorded_at),
+  updatedAt: toIsoString(row.updated_at)
+});
+
+const describeDose = (dose) => {
+  if (!dose) return '';
+  return dose.seconds !== undefined ? ` for ${dose.seconds} s` : ` ${dose.ml} ml`;
+};
+
+// Label of a job that was given none, e.g. "water:on for 20 s at 06:00"
+const defaultLabel = ({ action, dose, time }) => `${action}${describeDose(dose)} at ${time}`;
+
+// Occurrences of a job after `from` up to and including `to` (epoch ms)
+const getOccurrences = (job, from, to) => {
+  const [hours, minutes] = job.time.split(':').map(Number);
+  const occurrences = [];
+  const day = new Date(from);
+  day.setHours(0, 0, 0, 0);
+
+  for (; day.getTime() <= to; day.setDate(day.getDate() + 1)) {
+    if (!job.days.includes(day.getDay())) continue;
+    const occurrence = new Date(day);
+    occurrence.setHours(hours, minutes, 0, 0);
+    const time = occurrence.getTime();
+    if (time > from && time <= to) occurrences.push(time);
+  }
+  return occurrences;
+};
+
+// Error message for a dose that cannot be stored, or null
+const validateDose = (dose) => {
+  if (!dose || typeof dose !== 'object') return 'dose must be an object with seconds or ml';
+  const keys = Object.keys(dose);
+  if (keys.length !== 1 || !['seconds', 'ml'].includes(keys[0])) {
+    return 'dose needs exactly one of seconds or ml';
+  }
+  const amount = dose[keys[0]];
+  if (typeof amount !== 'number' || !isFinite(amount) || amount <= 0) {
+    return 'dose amount must be a positive number';
+  }
+  return null;
+};
+
+// Error message for job fields that cannot be stored, or null. Without
+// current the fields describe a new job and action and time are required.
+const validateJob = (changes, current = null) => {
+  if (!changes || typeof changes !== 'object') {
+    return 'job must be an object';
+  }
+
+  for (const [field, value] of Object.entries(changes)) {
+    if (field === 'label') {
+      if (typeof value !== 'string' || value.length > MAX_LABEL_LENGTH) {
+        return `label must be a string of up to ${MAX_LABEL_LENGTH} characters`;
+      }
+    } else if (field === 'action') {
+      if (!SCHEDULE_ACTIONS.includes(value)) return `action must be one of ${SCHEDULE_ACTIONS.join(', ')}`;
+    } else if (field === 'dose') {
+      const doseError = value === null ? null : validateDose(value);
+      if (doseError) return doseError;
+    } else if (field === 'time') {
+      if (typeof value !== 'string' || !TIME_OF_DAY.test(value)) return 'time must be a time of day as HH:MM';
+    } else if (field === 'days') {
+      if (!Array.isArray(value) || value.length === 0 ||
+          value.some(day => !ALL_DAYS.includes(day)) || new Set(value).size !== value.length) {
+        return 'days must list distinct weekdays from 0 (Sunday) to 6 (Saturday)';
+      }
+    } else if (field === 'paused') {
+      if (typeof value !== 'boolean') return 'paused must be true or false';
+    } else {
+      return `Unknown field ${field}`;
+    }
+  }
+
+  const job = { dose: null, ...current, ...changes };
+  if (!job.action || !job.time) {
+    return 'action and time are required';
+  }
+  if (job.dose && !DOSED_ACTIONS.includes(job.action)) {
+    return `Only ${DOSED_ACTIONS.join(' and ')} jobs take a dose`;
+  }
+  return null;
+};
+
+const createScheduler = (storage) => {
+  const { db } = storage;
+  db.exec(SCHEMA);
+
+  const statements = {
+    getJob: db.prepare(`SELECT * FROM scheduled_jobs WHERE id = ?`),
+    levelJobs: db.prepare(`SELECT * FROM scheduled_jobs WHERE plant_type = ? ORDER BY time_of_day, created_at`),
+    allJobs: db.prepare(`SELECT * FROM scheduled_jobs`),
+    upsertJob: db.prepare(`
+      INSERT INTO scheduled_jobs (id, plant_type, label, action, dose_seconds, dose_ml, time_of_day, days, paused,
+        last_checked_at, created_at, updated_at)
+      VALUES (@id, @plantType, @label, @action, @doseSeconds, @doseMl, @time, @days, @paused,
+        @lastCheckedAt, @createdAt, @updatedAt)
+      ON CONFLICT (id) DO UPDATE SET
+        label = excluded.label,
+        action = excluded.action,
+        dose_seconds = excluded.dose_seconds,
+        dose_ml = excluded.dose_ml,
+        time_of_day = excluded.time_of_day,
+        days = excluded.days,
+        paused = excluded.paused,
+        updated_at = excluded.updated_at
+    `),
+    setLastChecked: db.prepare(`UPDATE scheduled_jobs SET last_checked_at = ? WHERE id = ?`),
+    deleteJob: db.prepare(`DELETE FROM scheduled_jobs WHERE id = ?`),
+    deleteLevelJobs: db.prepare(`DELETE FROM scheduled_jobs WHERE plant_type = ?`),
+    jobSkips: db.prepare(`SELECT occurrence_at FROM schedule_skips WHERE job_id = ? ORDER BY occurrence_at`),
+    addSkip: db.prepare(`INSERT OR IGNORE INTO schedule_skips (job_id, occurrence_at) VALUES (?, ?)`),
+    removeSkip: db.prepare(`DELETE FROM schedule_skips WHERE job_id = ? AND occurrence_at = ?`),
+    pruneSkips: db.prepare(`DELETE FROM schedule_skips WHERE job_id = ? AND occurrence_at <= ?`),
+    deleteJobSkips: db.prepare(`DELETE FROM schedule_skips WHERE job_id = ?`),
+    insertRun: db.prepare(`
+      INSERT INTO schedule_runs (job_id, plant_type, label, action, occurrence_at, status, command_id, message,
+        interlock, recorded_at, updated_at)
+      VALUES (@jobId, @plantType, @label, @action, @occurrenceAt, @status, @commandId, @message,
+        @interlock, @recordedAt, @recordedAt)
+    `),
+    getRun: db.prepare(`SELECT * FROM schedule_runs WHERE id = ?`),
+    commandRun: db.prepare(`SELECT * FROM schedule_runs WHERE command_id = ?`),
+    settleRun: db.prepare(`UPDATE schedule_runs SET status = ?, message = ?, updated_at = ? WHERE id = ?`),
+    recentRuns: db.prepare(`SELECT * FROM schedule_runs WHERE plant_type = ? ORDER BY occurrence_at DESC, id DESC LIMIT ?`),
+    pruneRuns: db.prepare(`DELETE FROM schedule_runs WHERE occurrence_at < ?`),
+    deleteLevelRuns: db.prepare(`DELETE FROM schedule_runs WHERE plant_type = ?`)
+  };
+
+  const rowToJob = (row) => ({
+    id: row.id,
+    plantType: row.plant_type,
+    label: row.label,
+    action: row.action,
+    dose: row.dose_seconds !== null ? { seconds: row.dose_seconds } : row.dose_ml !== null ? { ml: row.dose_ml } : null,
+    time: row.time_of_day,
+    days: row.days.split(',').map(Number),
+    paused: Boolean(row.paused),
+    skips: statements.jobSkips.all(row.id).map(skip => toIsoString(skip.occurrence_at)),
+    createdAt: toIsoString(row.created_at),
+    updatedAt: toIsoString(row.updated_at)
+  });
+
+  const getJob = (jobId) => {
+    const row = statements.getJob.get(jobId);
+    return row ? rowToJob(row) : null;
+  };
+
+  const getJobs = (plantType) => statements.levelJobs.all(plantType).map(rowToJob);
+
+  const writeJob = (job, { lastCheckedAt, createdAt, updatedAt }) => {
+    statements.upsertJob.run({
+      id: job.id,
+      plantType: job.plantType,
+      label: job.label || defaultLabel(job),
+      action: job.action,
+      doseSeconds: job.dose?.seconds ?? null,
+      doseMl: job.dose?.ml ?? null,
+      time: job.time,
+      days: [...job.days].sort((a, b) => a - b).join(','),
+      paused: Number(job.paused),
+      lastCheckedAt,
+      createdAt,
+      updatedAt
+    });
+    return getJob(job.id);
+  };
+
+  // A new job only runs occurrences after its creation
+  const createJob = (plantType, fields) => {
+    const now = Date.now();
+    return writeJob(
+      { dose: null, days: ALL_DAYS, paused: false, ...fields, id: randomUUID(), plantType },
+      { lastCheckedAt: now, createdAt: now, updatedAt: now }
+    );
+  };
+
+  // Change some fields of a job; the others keep their value. Skips of
+  // occurrences the new schedule no longer has are dropped.
+  const updateJob = (jobId, changes) => {
+    const row = statements.getJob.get(jobId);
+    const current = rowToJob(row);
+    // A label that was generated follows the job's new settings
+    const label = changes.label ?? (current.label === defaultLabel(current) ? '' : current.label);
+    const job = writeJob(
+      { ...current, ...changes, label },
+      { lastCheckedAt: row.last_checked_at, createdAt: row.created_at, updatedAt: Date.now() }
+    );
+
+    job.skips.forEach(skip => {
+      const time = Date.parse(skip);
+      if (!getOccurrences(job, time - 1, time).includes(time)) statements.removeSkip.run(jobId, time);
+    });
+    return getJob(jobId);
+  };
+
+  const deleteJob = (jobId) => {
+    statements.deleteJob.run(jobId);
+    statements.deleteJobSkips.run(jobId);
+  };
+
+  // Skip a single upcoming occurrence, or run it after all. Returns an error
+  // message when the job has no such occurrence ahead, or null.
+  const setSkipped = (jobId, occurrenceAt, skipped, now = Date.now()) => {
+    const job = getJob(jobId);
+    const time = Date.parse(occurrenceAt);
+    if (isNaN(time) || time <= now || !getOccurrences(job, time - 1, time).includes(time)) {
+      return 'occurrenceAt must be an upcoming occurrence of the job';
+    }
+    if (skipped) {
+      statements.addSkip.run(jobId, time);
+    } else {
+      statements.removeSkip.run(jobId, time);
+    }
+    return null;
+  };
+
+  // Occurrences of a level's jobs from now until `days` days ahead, paused
+  // jobs included so a calendar can show them greyed out
+  const getUpcoming = (plantType, days, now = Date.now()) =>
+    getJobs(plantType)
+      .flatMap(job => getOccurrences(job, now, now + days * 24 * 60 * 60 * 1000).map(time => ({
+        jobId: job.id,
+        label: job.label,
+        action: job.action,
+        occurrenceAt: toIsoString(time),
+        paused: job.paused,
+        skipped: job.skips.includes(toIsoString(time))
+      })))
+      .sort((a, b) => a.occurrenceAt.localeCompare(b.occurrenceAt));
+
+  const recordRun = ({ job, occurrenceAt, status, commandId = null, message = null, interlock = null, now = Date.now() }) => {
+    const { lastInsertRowid } = statements.insertRun.run({
+      jobId: job.id,
+      plantType: job.plantType,
+      label: job.label,
+      action: job.action,
+      occurrenceAt,
+      status,
+      commandId,
+      message,
+      interlock,
+      recordedAt: now
+    });
+    return rowToRun(statements.getRun.get(lastInsertRowid));
+  };
+
+  // Occurrences that came round since the previous check. Skipped and missed
+  // ones are recorded here; the due ones are returned for backend.js to run
+  // and report with recordRun. Paused jobs let theirs pass unrecorded.
+  const collectDue = (now = Date.now()) => {
+    const due = [];
+    const recorded = [];
+    statements.pruneRuns.run(now - RUN_RETENTION_MS);
+
+    statements.allJobs.all().forEach(row => {
+      const from = Math.max(row.last_checked_at, now - MAX_CATCH_UP_MS);
+      statements.setLastChecked.run(now, row.id);
+      const job = rowToJob(row);
+      statements.pruneSkips.run(job.id, now);
+      if (job.paused) return;
+
+      getOccurrences(job, from, now).forEach(occurrenceAt => {
+        if (job.skips.includes(toIsoString(occurrenceAt))) {
+          recorded.push(recordRun({ job, occurrenceAt, status: RUN_STATUSES.SKIPPED, message: 'Skipped from the calendar', now }));
+        } else if (now - occurrenceAt > MAX_LATE_MS) {
+          recorded.push(recordRun({ job, occurrenceAt, status: RUN_STATUSES.MISSED, message: 'The server was not running at the time', now }));
+        } else {
+          due.push({ job, occurrenceAt });
+        }
+      });
+    });
+    return { due, recorded };
+  };
+
+  // Final status of the run that sent a command, once the command settles;
+  // returns the updated run, or null when no scheduled run sent it
+  const settleRun = (commandId, status, message = null) => {
+    const row = statements.commandRun.get(commandId);
+    if (!row || row.status !== RUN_STATUSES.PENDING) return null;
+    statements.settleRun.run(status, message, Date.now(), row.id);
+    return rowToRun(statements.getRun.get(row.id));
+  };
+
+  const getRuns = (plantType, limit = 20) => statements.recentRuns.all(plantType, limit).map(rowToRun);
+
+  const deleteLevel = (plantType) => {
+    getJobs(plantType).forEach(job => statements.deleteJobSkips.run(job.id));
+    statements.deleteLevelJobs.run(plantType);
+    statements.deleteLevelRuns.run(plantType);
+  };
+
+  return {
+    getJob,
+    getJobs,
+    createJob,
+    updateJob,
+    deleteJob,
+    setSkipped,
+    getUpcoming,
+    collectDue,
+    recordRun,
+    settleRun,
+    getRuns,
+    deleteLevel
+  };
+};
+
+module.exports = {
+  createScheduler,
+  validateJob,
+  RUN_STATUSES,
+  SCHEDULE_ACTIONS
+};
@@ -0,0 +1,198 @@
+// Maps device readings onto grow levels.
+// A level takes every metric from its sensor device unless its sensor sources
+// name another device for that metric, optionally with a fallback device that
+// is used while the primary one has no recent value.
+
+const SENSOR_METRICS = [
+  'temperature',
+  'humidity',
+  'moisture',
+  'sunlight',
+  'nitrogen',
+  'phosphorus',
+  'potassium',
+  'waterLevel',
+  'fertilizerLevel'
+];
+
+// Used when no source has reported a metric yet; anything else defaults to 0
+const DEFAULT_VALUES = {
+  temperature: 20,
+  humidity: 50
+};
+
+// A source that has not reported a metric for this long gives way to its fallback
+const SOURCE_STALE_MS = 5 * 60 * 1000;
+
+// Latest value each device reported per metric, so levels can be composed after a restart
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS device_values (
+    device_id TEXT NOT NULL,
+    metric TEXT NOT NULL,
+    value REAL NOT NULL,
+    recorded_at INTEGER NOT NULL,
+    PRIMARY KEY (device_id, metric)
+  );
+`;
+
+const toNumber = (value) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = parseFloat(value);
+  return isNaN(number) ? undefined : number;
+};
+
+// Metrics present in an /update payload. Firmware versions name their fields
+// differently, so every known spelling is accepted.
+const parseDevicePayload = (data) => {
+  const candidates = {
+    temperature: data.temperature,
+    humidity: data.humidity,
+    moisture: data.moisture_percent ?? data.soil_moisture_percent ?? data.moisture,
+    sunlight: data.lux ?? data.lightLevel ?? data.ldr ?? data.sunlight,
+    nitrogen: data.npk?.N ?? data.nitrogen,
+    phosphorus: data.npk?.P ?? data.phosphorus,
+    potassium: data.npk?.K ?? data.potassium,
+    waterLevel: data.waterLevelPercent ?? data.waterLevel,
+    fertilizerLevel: data.fertilizer_level ?? data.fertilizerLevel
+  };
+
+  return SENSOR_METRICS.reduce((acc, metric) => {
+    const value = toNumber(candidates[metric]);
+    if (value !== undefined) acc[metric] = value;
+    return acc;
+  }, {});
+};
+
+// Primary and fallback device of one metric of a level
+const resolveSource = (level, metric) => {
+  const source = level.sensorSources?.[metric];
+  return {
+    deviceId: source?.deviceId || level.sensorDeviceId,
+    fallbackDeviceId: source?.fallbackDeviceId || null
+  };
+};
+
+const createSensorSources = (storage, registry) => {
+  const { db } = storage;
+  db.exec(SCHEMA);
+
+  const statements = {
+    deviceValues: db.prepare(`SELECT * FROM device_values WHERE device_id = ?`),
+    countValues: db.prepare(`SELECT COUNT(*) AS count FROM device_values`),
+    upsertValue: db.prepare(`
+      INSERT INTO device_values (device_id, metric, value, recorded_at)
+      VALUES (@deviceId, @metric, @value, @time)
+      ON CONFLICT (device_id, metric) DO UPDATE SET
+        value = excluded.value,
+        recorded_at = excluded.recorded_at
+    `)
+  };
+
+  // Latest value and its time per device and metric, cached in memory
+  const deviceValues = new Map();
+
+  const getDeviceValues = (deviceId) => {
+    if (!deviceValues.has(deviceId)) {
+      const values = {};
+      statements.deviceValues.all(deviceId).forEach(row => {
+        values[row.metric] = { value: row.value, time: row.recorded_at };
+      });
+      deviceValues.set(deviceId, values);
+    }
+    return deviceValues.get(deviceId);
+  };
+
+  const recordDeviceValues = (deviceId, values, time = Date.now()) => {
+    const current = getDeviceValues(deviceId);
+    db.transaction(() => {
+      Object.entries(values).forEach(([metric, value]) => {
+        current[metric] = { value, time };
+        statements.upsertValue.run({ deviceId, metric, value, time });
+      });
+    })();
+  };
+
+  // Latest values of a device as a flat reading, for initData and the simulator
+  const getDeviceReading = (deviceId) => {
+    const values = getDeviceValues(deviceId);
+    const metrics = Object.keys(values);
+    if (metrics.length === 0) return null;
+
+    return metrics.reduce((acc, metric) => {
+      acc[metric] = values[metric].value;
+      return acc;
+    }, {
+      timestamp: new Date(Math.max(...metrics.map(metric => values[metric].time))).toISOString(),
+      deviceId
+    });
+  };
+
+  const getValue = (deviceId, metric, now) => {
+    if (!deviceId) return undefined;
+    const entry = getDeviceValues(deviceId)[metric];
+    if (!entry) return undefined;
+    return { ...entry, fresh: now - entry.time <= SOURCE_STALE_MS };
+  };
+
+  // Value, report time and freshness of one metric of a level, or undefined
+  // while none of its sources has reported it
+  const getLevelValue = (level, metric, now = Date.now()) => {
+    const { deviceId, fallbackDeviceId } = resolveSource(level, metric);
+    const primary = getValue(deviceId, metric, now);
+    const fallback = getValue(fallbackDeviceId, metric, now);
+
+    // A stale primary still beats having no value at all
+    return (primary?.fresh ? primary : null) || (fallback?.fresh ? fallback : null) || primary || fallback;
+  };
+
+  // Reading of a level from its mapped sources
+  const composeLevelReading = (level, now = Date.now()) => {
+    const reading = {};
+
+    SENSOR_METRICS.forEach(metric => {
+      const chosen = getLevelValue(level, metric, now);
+      reading[metric] = chosen ? chosen.value : DEFAULT_VALUES[metric] ?? 0;
+    });
+
+    reading.timestamp = new Date(now).toISOString();
+    return reading;
+  };
+
+  // Levels to record when a device reports: those it is the sensor device of,
+  // plus levels without a sensor device that take any metric from it
+  const getLevelsToRecord = (deviceId) => registry.getLevels().filter(level =>
+    level.sensorDeviceId
+      ? level.sensorDeviceId === deviceId
+      : SENSOR_METRICS.some(metric => {
+        const source = resolveSource(level, metric);
+        return source.deviceId === deviceId || source.fallbackDeviceId === deviceId;
+      })
+  );
+
+  // Databases from before per-device values start from each device's latest reading
+  if (statements.countValues.get().count === 0) {
+    Object.entries(storage.getLatestReadings()).forEach(([deviceId, reading]) => {
+      const values = SENSOR_METRICS.reduce((acc, metric) => {
+        if (reading[metric] !== undefined) acc[metric] = reading[metric];
+        return acc;
+      }, {});
+      recordDeviceValues(deviceId, values, new Date(reading.timestamp).getTime());
+    });
+  }
+
+  return {
+    recordDeviceValues,
+    getDeviceReading,
+    getLevelValue,
+    composeLevelReading,
+    getLevelsToRecord
+  };
+};
+
+module.exports = {
+  createSensorSources,
+  parseDevicePayload,
+  resolveSource,
+  SENSOR_METRICS,
+  SOURCE_STALE_MS
+};
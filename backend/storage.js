@@ -0,0 +1,408 @@
+const fs = require('fs');
+const path = require('path');
+const Database = require('better-sqlite3');
+
+// Durable storage for backend.js, backed by an embedded SQLite file.
+// Holds sensor readings, device state snapshots and the command lifecycle.
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS readings (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    device_id TEXT NOT NULL,
+    plant_type TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    temperature REAL,
+    humidity REAL,
+    moisture REAL,
+    sunlight REAL,
+    nitrogen REAL,
+    phosphorus REAL,
+    potassium REAL,
+    water_level REAL,
+    fertilizer_level REAL
+  );
+  CREATE INDEX IF NOT EXISTS idx_readings_plant_time ON readings (plant_type, timestamp);
+  CREATE INDEX IF NOT EXISTS idx_readings_device_time ON readings (device_id, timestamp);
+
+  CREATE TABLE IF NOT EXISTS device_state_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    device_id TEXT NOT NULL,
+    recorded_at INTEGER NOT NULL,
+    light INTEGER NOT NULL DEFAULT 0,
+    water_pump INTEGER NOT NULL DEFAULT 0,
+    nutrient_pump INTEGER NOT NULL DEFAULT 0,
+    last_watered TEXT,
+    last_nutrients TEXT,
+    last_updated TEXT,
+    connection_status TEXT NOT NULL DEFAULT 'disconnected',
+    last_seen TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_device_state_device_time ON device_state_snapshots (device_id, recorded_at);
+
+  CREATE TABLE IF NOT EXISTS commands (
+    id TEXT PRIMARY KEY,
+    device_id TEXT NOT NULL,
+    plant_type TEXT,
+    command TEXT NOT NULL,
+    original_command TEXT,
+    value REAL,
+    duration INTEGER,
+    status TEXT NOT NULL,
+    issued_at INTEGER NOT NULL,
+    issued_by TEXT,
+    updated_at INTEGER NOT NULL,
+    timeout_at INTEGER,
+    completed_at INTEGER,
+    message TEXT,
+    desired_state TEXT,
+    idempotency_key TEXT,
+    dose_ml REAL,
+    delivered_ml REAL
+  );
+  CREATE INDEX IF NOT EXISTS idx_commands_device_status ON commands (device_id, status);
+  CREATE INDEX IF NOT EXISTS idx_commands_issued ON commands (issued_at);
+`;
+
+// Columns added after a table was first created; databases from before get
+// them on start
+const COLUMN_MIGRATIONS = [
+  { table: 'commands', column: 'desired_state', definition: 'TEXT' },
+  { table: 'commands', column: 'idempotency_key', definition: 'TEXT' },
+  { table: 'commands', column: 'dose_ml', definition: 'REAL' },
+  { table: 'commands', column: 'delivered_ml', definition: 'REAL' }
+];
+
+// Indexes on migrated columns, created once the columns exist
+const POST_MIGRATION_SCHEMA = `
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_commands_idempotency ON commands (device_id, idempotency_key);
+`;
+
+// Sensor fields and their column names
+const READING_COLUMNS = {
+  temperature: 'temperature',
+  humidity: 'humidity',
+  moisture: 'moisture',
+  sunlight: 'sunlight',
+  nitrogen: 'nitrogen',
+  phosphorus: 'phosphorus',
+  potassium: 'potassium',
+  waterLevel: 'water_level',
+  fertilizerLevel: 'fertilizer_level'
+};
+
+const toIso = (time) => (time === null || time === undefined ? undefined : new Date(time).toISOString());
+
+const rowToReading = (row) => {
+  const reading = {};
+  Object.entries(READING_COLUMNS).forEach(([field, column]) => {
+    if (row[column] !== null && row[column] !== undefined) {
+      reading[field] = row[column];
+    }
+  });
+  reading.timestamp = toIso(row.timestamp);
+  reading.deviceId = row.device_id;
+  return reading;
+};
+
+const rowToDeviceState = (row) => ({
+  light: Boolean(row.light),
+  waterPump: Boolean(row.water_pump),
+  nutrientPump: Boolean(row.nutrient_pump),
+  lastWatered: row.last_watered,
+  lastNutrients: row.last_nutrients,
+  lastUpdated: row.last_updated,
+  connectionStatus: row.connection_status,
+  lastSeen: row.last_seen
+});
+
+const rowToCommand = (row) => {
+  const command = {
+    id: row.id,
+    command: row.command,
+    originalCommand: row.original_command,
+    value: row.value,
+    deviceId: row.device_id,
+    plantType: row.plant_type,
+    duration: row.duration,
+    timestamp: toIso(row.issued_at),
+    status: row.status,
+    issuedBy: row.issued_by || undefined
+  };
+  if (row.timeout_at) command.timeoutAt = toIso(row.timeout_at);
+  if (row.completed_at) command.completedAt = toIso(row.completed_at);
+  if (row.message) command.message = row.message;
+  if (row.desired_state) command.desiredState = row.desired_state;
+  if (row.idempotency_key) command.idempotencyKey = row.idempotency_key;
+  if (row.dose_ml !== null && row.dose_ml !== undefined) command.doseMl = row.dose_ml;
+  if (row.delivered_ml !== null && row.delivered_ml !== undefined) command.deliveredMl = row.delivered_ml;
+  return command;
+};
+
+const createStorage = (dbPath) => {
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+  COLUMN_MIGRATIONS.forEach(({ table, column, definition }) => {
+    const columns = db.prepare(`PRAGMA table_info(${table})`).all();
+    if (!columns.some(existing => existing.name === column)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  });
+  db.exec(POST_MIGRATION_SCHEMA);
+
+  const statements = {
+    insertReading: db.prepare(`
+      INSERT INTO readings (device_id, plant_type, timestamp, ${Object.values(READING_COLUMNS).join(', ')})
+      VALUES (@deviceId, @plantType, @timestamp, ${Object.keys(READING_COLUMNS).map(field => `@${field}`).join(', ')})
+    `),
+    latestReading: db.prepare(`
+      SELECT * FROM readings WHERE device_id = ? ORDER BY timestamp DESC, id DESC LIMIT 1
+    `),
+    latestReadingDevices: db.prepare(`SELECT DISTINCT device_id FROM readings`),
+    recentReadings: db.prepare(`
+      SELECT * FROM (
+        SELECT * FROM readings WHERE plant_type = ? ORDER BY timestamp DESC, id DESC LIMIT ?
+      ) ORDER BY timestamp ASC, id ASC
+    `),
+    countReadings: db.prepare(`SELECT COUNT(*) AS count FROM readings WHERE plant_type = ?`),
+    insertDeviceState: db.prepare(`
+      INSERT INTO device_state_snapshots (
+        device_id, recorded_at, light, water_pump, nutrient_pump,
+        last_watered, last_nutrients, last_updated, connection_status, last_seen
+      ) VALUES (
+        @deviceId, @recordedAt, @light, @waterPump, @nutrientPump,
+        @lastWatered, @lastNutrients, @lastUpdated, @connectionStatus, @lastSeen
+      )
+    `),
+    touchDeviceState: db.prepare(`
+      UPDATE device_state_snapshots
+      SET last_updated = @lastUpdated, last_seen = @lastSeen, recorded_at = @recordedAt
+      WHERE id = @id
+    `),
+    latestDeviceState: db.prepare(`
+      SELECT * FROM device_state_snapshots WHERE device_id = ? ORDER BY recorded_at DESC, id DESC LIMIT 1
+    `),
+    deviceStateIds: db.prepare(`SELECT DISTINCT device_id FROM device_state_snapshots`),
+    insertCommand: db.prepare(`
+      INSERT INTO commands (
+        id, device_id, plant_type, command, original_command, value, duration,
+        status, issued_at, issued_by, updated_at, desired_state, idempotency_key, dose_ml
+      ) VALUES (
+        @id, @deviceId, @plantType, @command, @originalCommand, @value, @duration,
+        @status, @issuedAt, @issuedBy, @issuedAt, @desiredState, @idempotencyKey, @doseMl
+      )
+    `),
+    updateCommandStatus: db.prepare(`
+      UPDATE commands
+      SET status = @status,
+          updated_at = @updatedAt,
+          timeout_at = COALESCE(@timeoutAt, timeout_at),
+          completed_at = COALESCE(@completedAt, completed_at),
+          message = COALESCE(@message, message),
+          delivered_ml = COALESCE(@deliveredMl, delivered_ml)
+      WHERE id = @id
+    `),
+    getCommand: db.prepare(`SELECT * FROM commands WHERE id = ?`),
+    commandByIdempotencyKey: db.prepare(`
+      SELECT * FROM commands WHERE device_id = ? AND idempotency_key = ?
+    `),
+    commandsByStatus: db.prepare(`SELECT * FROM commands WHERE status = ? ORDER BY issued_at ASC`),
+    deviceCommandsByStatus: db.prepare(`
+      SELECT * FROM commands WHERE device_id = ? AND status = ? ORDER BY issued_at ASC
+    `),
+    commandsInRange: db.prepare(`
+      SELECT * FROM commands
+      WHERE plant_type = ? AND issued_at >= ? AND issued_at <= ?
+      ORDER BY issued_at ASC
+      LIMIT ?
+    `),
+    countCommandsByDevice: db.prepare(`
+      SELECT device_id, COUNT(*) AS count FROM commands WHERE status = ? GROUP BY device_id
+    `),
+    commandStartTimes: db.prepare(`
+      SELECT issued_at FROM commands
+      WHERE device_id = @deviceId
+        AND command IN (SELECT value FROM json_each(@commandTypes))
+        AND status IN ('pending', 'completed')
+        AND (desired_state IS NULL OR desired_state = 'on')
+        AND issued_at >= @since
+      ORDER BY issued_at ASC
+    `)
+  };
+
+  // Readings
+
+  const insertReading = (plantType, reading) => {
+    const row = { deviceId: reading.deviceId, plantType, timestamp: new Date(reading.timestamp).getTime() };
+    Object.keys(READING_COLUMNS).forEach(field => {
+      row[field] = typeof reading[field] === 'number' && !isNaN(reading[field]) ? reading[field] : null;
+    });
+    statements.insertReading.run(row);
+  };
+
+  const getLatestReading = (deviceId) => {
+    const row = statements.latestReading.get(deviceId);
+    return row ? rowToReading(row) : null;
+  };
+
+  // Latest reading of every device, keyed by device id
+  const getLatestReadings = () => statements.latestReadingDevices.all().reduce((acc, { device_id }) => {
+    acc[device_id] = getLatestReading(device_id);
+    return acc;
+  }, {});
+
+  const getRecentReadings = (plantType, limit) =>
+    statements.recentReadings.all(plantType, limit).map(rowToReading);
+
+  const countReadings = (plantType) => statements.countReadings.get(plantType).count;
+
+  // Device state snapshots
+
+  const getDeviceState = (deviceId) => {
+    const row = statements.latestDeviceState.get(deviceId);
+    return row ? rowToDeviceState(row) : null;
+  };
+
+  const getDeviceStates = () => statements.deviceStateIds.all().reduce((acc, { device_id }) => {
+    acc[device_id] = getDeviceState(device_id);
+    return acc;
+  }, {});
+
+  // Record a new snapshot when actuator or connection state changes,
+  // otherwise only refresh the timestamps of the latest one
+  const saveDeviceState = (deviceId, state) => {
+    const latest = statements.latestDeviceState.get(deviceId);
+    const row = {
+      deviceId,
+      recordedAt: Date.now(),
+      light: state.light ? 1 : 0,
+      waterPump: state.waterPump ? 1 : 0,
+      nutrientPump: state.nutrientPump ? 1 : 0,
+      lastWatered: state.lastWatered || null,
+      lastNutrients: state.lastNutrients || null,
+      lastUpdated: state.lastUpdated || new Date().toISOString(),
+      connectionStatus: state.connectionStatus || 'disconnected',
+      lastSeen: state.lastSeen || null
+    };
+
+    const unchanged = latest &&
+      latest.light === row.light &&
+      latest.water_pump === row.waterPump &&
+      latest.nutrient_pump === row.nutrientPump &&
+      latest.last_watered === row.lastWatered &&
+      latest.last_nutrients === row.lastNutrients &&
+      latest.connection_status === row.connectionStatus;
+
+    if (unchanged) {
+      statements.touchDeviceState.run({ id: latest.id, ...row });
+    } else {
+      statements.insertDeviceState.run(row);
+    }
+
+    return getDeviceState(deviceId);
+  };
+
+  // Commands
+
+  const insertCommand = (command) => {
+    statements.insertCommand.run({
+      id: command.id,
+      deviceId: command.deviceId,
+      plantType: command.plantType || null,
+      command: command.command,
+      originalCommand: command.originalCommand || null,
+      value: command.value,
+      duration: command.duration,
+      status: command.status,
+      issuedAt: new Date(command.timestamp).getTime(),
+      issuedBy: command.issuedBy || null,
+      desiredState: command.desiredState || null,
+      idempotencyKey: command.idempotencyKey || null,
+      doseMl: command.doseMl ?? null
+    });
+    return getCommand(command.id);
+  };
+
+  const updateCommandStatus = (id, status, details = {}) => {
+    const now = Date.now();
+    statements.updateCommandStatus.run({
+      id,
+      status,
+      updatedAt: now,
+      timeoutAt: status === 'timeout' ? now : null,
+      completedAt: status === 'completed' || status === 'failed' ? now : null,
+      message: details.message || null,
+      deliveredMl: details.deliveredMl ?? null
+    });
+    return getCommand(id);
+  };
+
+  const getCommand = (id) => {
+    const row = statements.getCommand.get(id);
+    return row ? rowToCommand(row) : null;
+  };
+
+  // Command a device was already sent under an idempotency key, if any
+  const getCommandByIdempotencyKey = (deviceId, key) => {
+    const row = statements.commandByIdempotencyKey.get(deviceId, key);
+    return row ? rowToCommand(row) : null;
+  };
+
+  const getCommandsByStatus = (status, deviceId) => (deviceId
+    ? statements.deviceCommandsByStatus.all(deviceId, status)
+    : statements.commandsByStatus.all(status)
+  ).map(rowToCommand);
+
+  // Commands issued for a plant type between from and to (epoch ms), oldest first
+  const getCommandHistory = (plantType, from, to, limit = 500) =>
+    statements.commandsInRange.all(plantType, from, to, limit).map(rowToCommand);
+
+  // Pending commands grouped by device id
+  const getPendingCommands = () => getCommandsByStatus('pending').reduce((acc, command) => {
+    if (!acc[command.deviceId]) {
+      acc[command.deviceId] = [];
+    }
+    acc[command.deviceId].push(command);
+    return acc;
+  }, {});
+
+  const countCommandsByDevice = (status) => statements.countCommandsByDevice.all(status)
+    .reduce((acc, { device_id, count }) => {
+      acc[device_id] = count;
+      return acc;
+    }, {});
+
+  // Issue times (epoch ms) of the commands of the given types that started an
+  // actuator on a device since a point in time; failed and timed out ones are left out
+  const getCommandStartTimes = (deviceId, commandTypes, since) => statements.commandStartTimes
+    .all({ deviceId, commandTypes: JSON.stringify(commandTypes), since })
+    .map(row => row.issued_at);
+
+  const close = () => db.close();
+
+  return {
+    db,
+    insertReading,
+    getLatestReading,
+    getLatestReadings,
+    getRecentReadings,
+    countReadings,
+    getDeviceState,
+    getDeviceStates,
+    saveDeviceState,
+    insertCommand,
+    updateCommandStatus,
+    getCommand,
+    getCommandByIdempotencyKey,
+    getCommandsByStatus,
+    getPendingCommands,
+    getCommandHistory,
+    countCommandsByDevice,
+    getCommandStartTimes,
+    close
+  };
+};
+
+module.exports = { createStorage, READING_COLUMNS, rowToReading };
@@ -3,8 +3,10 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import { AuthProvider, useAuth } from './context/AuthContext';
 import { ThemeProvider } from './context/ThemeContext';
 import { PlantProvider } from './context/PlantContext';
+import { ChartRangeProvider } from './context/ChartRangeContext';
 import LoginPage from './pages/LoginPage';
 import DashboardPage from './pages/DashboardPage';
+import ComparisonPage from './pages/ComparisonPage';
 
 import './index.css';
 import './styles/animations.css';
@@ -15,18 +17,28 @@ function App() {
       <ThemeProvider>
         <AuthProvider>
           <PlantProvider>
-            <Routes>
-              <Route path="/" element={<LoginPage />} />
-              <Route 
-                path="/dashboard" 
-                element={
-                  <RequireAuth>
-                    <DashboardPage />
-                  </RequireAuth>
-                } 
-              />
-              <Route path="*" element={<Navigate to="/" replace />} />
-            </Routes>
+            <ChartRangeProvider>
+              <Routes>
+                <Route path="/" element={<LoginPage />} />
+                <Route 
+                  path="/dashboard" 
+                  element={
+                    <RequireAuth>
+                      <DashboardPage />
+                    </RequireAuth>
+                  } 
+                />
+                <Route 
+                  path="/compare" 
+                  element={
+                    <RequireAuth>
+                      <ComparisonPage />
+                    </RequireAuth>
+                  } 
+                />
+                <Route path="*" element={<Navigate to="/" replace />} />
+              </Routes>
+            </ChartRangeProvider>
           </PlantProvider>
         </AuthProvider>
       </ThemeProvider>
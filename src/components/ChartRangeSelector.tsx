@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { useChartRange } from '../context/ChartRangeContext';
+import { CHART_RANGE_PRESETS, resolveChartRange } from '../utils/chartRange';
+
+interface ChartRangeSelectorProps {
+  chartId: string;
+  hint?: string;
+}
+
+// Format epoch milliseconds for a datetime-local input
+const toInputValue = (time: number): string => {
+  const date = new Date(time);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const ChartRangeSelector: React.FC<ChartRangeSelectorProps> = ({ chartId, hint }) => {
+  const [showCustomRange, setShowCustomRange] = useState(false);
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const { getRange, setRange, zoom, setZoom } = useChartRange();
+  const chartRange = getRange(chartId);
+
+  const openCustomRange = () => {
+    const { from, to } = zoom || resolveChartRange(chartRange);
+    setCustomFrom(toInputValue(from));
+    setCustomTo(toInputValue(to));
+    setShowCustomRange(true);
+  };
+
+  const applyCustomRange = () => {
+    const from = new Date(customFrom).getTime();
+    const to = new Date(customTo).getTime();
+    if (isNaN(from) || isNaN(to) || from >= to) return;
+
+    setRange(chartId, { preset: 'custom', from, to });
+    setShowCustomRange(false);
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex flex-wrap gap-1">
+        {CHART_RANGE_PRESETS.map(option => (
+          <button
+            key={option.preset}
+            onClick={() => {
+              setRange(chartId, { preset: option.preset });
+              setShowCustomRange(false);
+            }}
+            className={`px-2 py-0.5 rounded text-xs font-medium transition-colors ${
+              chartRange.preset === option.preset
+                ? 'bg-green-600 text-white'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+        <button
+          onClick={() => (showCustomRange ? setShowCustomRange(false) : openCustomRange())}
+          className={`px-2 py-0.5 rounded text-xs font-medium transition-colors ${
+            chartRange.preset === 'custom'
+              ? 'bg-green-600 text-white'
+              : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+          }`}
+        >
+          Custom
+        </button>
+        {zoom && (
+          <button
+            onClick={() => setZoom(null)}
+            className="px-2 py-0.5 rounded text-xs font-medium bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 hover:bg-blue-200 dark:hover:bg-blue-900/50"
+          >
+            Reset zoom
+          </button>
+        )}
+      </div>
+      {hint && (
+        <p className="mt-1 text-[10px] text-gray-400 dark:text-gray-500">
+          {hint}
+        </p>
+      )}
+
+      {showCustomRange && (
+        <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+          <input
+            type="datetime-local"
+            value={customFrom}
+            onChange={(e) => setCustomFrom(e.target.value)}
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+          <span className="text-gray-500 dark:text-gray-400">to</span>
+          <input
+            type="datetime-local"
+            value={customTo}
+            onChange={(e) => setCustomTo(e.target.value)}
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+          <button
+            onClick={applyCustomRange}
+            className="px-2 py-1 rounded bg-green-600 text-white hover:bg-green-700"
+          >
+            Apply
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChartRangeSelector;
@@ -0,0 +1,214 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DataPoint, HistoryUpdate, Plant } from '../types';
+import arduinoService from '../services/ArduinoService';
+import { useChartRange } from '../context/ChartRangeContext';
+import ChartRangeSelector from './ChartRangeSelector';
+import {
+  describeChartRange,
+  formatChartTime,
+  isLiveRange,
+  LIVE_REFRESH_MS,
+  pickBucket,
+  resolveChartRange,
+} from '../utils/chartRange';
+import { LEVEL_COLORS, MetricDescriptor } from '../utils/metrics';
+
+interface ComparisonChartProps {
+  metric: MetricDescriptor;
+  plants: Plant[];
+}
+
+// One metric of several levels overlaid on a shared time scale
+const ComparisonChart: React.FC<ComparisonChartProps> = ({ metric, plants }) => {
+  const [series, setSeries] = useState<Record<string, DataPoint[]>>({});
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const plotRef = useRef<HTMLDivElement>(null);
+  const { getRange, zoom } = useChartRange();
+  const chartId = `compare-${metric.key}`;
+  const chartRange = getRange(chartId);
+  const { from: rangeFrom, to: rangeTo } = zoom || resolveChartRange(chartRange);
+  const rangeSpan = rangeTo - rangeFrom || 1;
+  const isLive = isLiveRange(chartRange) && !zoom;
+  const plantKey = plants.map(plant => plant.id).join(',');
+
+  useEffect(() => {
+    const fetchSeries = async () => {
+      const { from, to } = zoom || resolveChartRange(chartRange);
+      const bucket = pickBucket(to - from);
+      const results = await Promise.all(plants.map(plant =>
+        arduinoService.queryHistory({ plantType: plant.id, metrics: [metric.key], from, to, bucket, agg: 'avg' })
+      ));
+      setSeries(plants.reduce<Record<string, DataPoint[]>>((acc, plant, index) => {
+        acc[plant.id] = results[index]?.[metric.key] ?? [];
+        return acc;
+      }, {}));
+      setLoadError(results.some(result => result === null) ? 'Could not load every level from the backend.' : null);
+    };
+
+    // A burst of readings refetches the series once
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+    const handleHistory = (update: HistoryUpdate) => {
+      if (!isLive || !plants.some(plant => plant.id === update.plantType) || refreshTimer) return;
+      refreshTimer = setTimeout(() => {
+        refreshTimer = undefined;
+        fetchSeries();
+      }, LIVE_REFRESH_MS);
+    };
+
+    const unsubscribe = arduinoService.on('history', handleHistory);
+    const fetchTimer = setTimeout(fetchSeries, zoom ? 300 : 0);
+
+    return () => {
+      clearTimeout(fetchTimer);
+      clearTimeout(refreshTimer);
+      unsubscribe();
+    };
+    // plantKey stands in for plants, which is a new array on every render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [metric.key, plantKey, chartRange, zoom, isLive]);
+
+  const allValues = Object.values(series).flat().map(point => point.value);
+  const minValue = allValues.length > 0 ? Math.min(...allValues) : 0;
+  const maxValue = allValues.length > 0 ? Math.max(...allValues) : 100;
+  const valueRange = maxValue - minValue || 1;
+
+  const getXPosition = (timestamp: string): number =>
+    ((new Date(timestamp).getTime() - rangeFrom) / rangeSpan) * 100;
+
+  const getYPosition = (value: number): number => 90 - ((value - minValue) / valueRange) * 70;
+
+  // Value of each level at the bucket nearest the crosshair
+  const hoverValues = hoverTime === null ? [] : plants.map(plant => {
+    const points = series[plant.id] || [];
+    const nearest = points.reduce<DataPoint | null>((best, point) => {
+      if (!best) return point;
+      return Math.abs(new Date(point.timestamp).getTime() - hoverTime) <
+        Math.abs(new Date(best.timestamp).getTime() - hoverTime) ? point : best;
+    }, null);
+    return { plant, point: nearest };
+  });
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = plotRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    const fraction = Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 1);
+    setHoverTime(rangeFrom + fraction * rangeSpan);
+  };
+
+  const hasData = allValues.length > 0;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 relative">
+      <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200 mb-2 font-['Poppins',_'Inter',_'system-ui',_sans-serif]">
+        {metric.label} ({zoom ? describeChartRange({ preset: 'custom', ...zoom }) : describeChartRange(chartRange)})
+      </h3>
+      <ChartRangeSelector chartId={chartId} />
+
+      <div className="flex flex-wrap gap-4 mb-2 text-xs text-gray-600 dark:text-gray-300">
+        {plants.map((plant, index) => (
+          <span key={plant.id} className="flex items-center">
+            <span className="inline-block w-3 h-0.5 mr-1.5" style={{ backgroundColor: LEVEL_COLORS[index % LEVEL_COLORS.length] }} />
+            {plant.name}
+          </span>
+        ))}
+      </div>
+
+      {loadError && hasData && <p className="mb-2 text-xs text-red-600 dark:text-red-400">{loadError}</p>}
+
+      {!hasData ? (
+        <div className="flex items-center justify-center h-48">
+          {loadError ? (
+            <p className="text-red-600 dark:text-red-400">{loadError}</p>
+          ) : (
+            <p className="text-gray-500 dark:text-gray-400">No data available for this range</p>
+          )}
+        </div>
+      ) : (
+        <div
+          ref={plotRef}
+          className="relative h-52 cursor-crosshair"
+          onPointerMove={handlePointerMove}
+          onPointerLeave={() => setHoverTime(null)}
+        >
+          <svg className="w-full h-full" viewBox="0 0 100 100" preserveAspectRatio="none">
+            {[0, 25, 50, 75, 100].map((y) => (
+              <g key={y}>
+                <line x1="0" y1={y} x2="100" y2={y} stroke="currentColor" strokeWidth="0.1" className="text-gray-300 dark:text-gray-600" />
+                <text
+                  x="2"
+                  y={y}
+                  dy="-1"
+                  className="fill-current text-gray-500 dark:text-gray-400"
+                  style={{ fontFamily: "'Inter', sans-serif", fontSize: "3px", fontWeight: 300 }}
+                >
+                  {Math.round(maxValue - (y / 100) * valueRange)}
+                </text>
+              </g>
+            ))}
+
+            {[0, 25, 50, 75, 100].map((x) => (
+              <text
+                key={x}
+                x={x}
+                y="98"
+                textAnchor={x === 0 ? 'start' : x === 100 ? 'end' : 'middle'}
+                className="fill-current text-gray-500 dark:text-gray-400"
+                style={{ fontFamily: "'Inter', sans-serif", fontSize: "3px", fontWeight: 300 }}
+              >
+                {formatChartTime(new Date(rangeFrom + (x / 100) * rangeSpan).toISOString(), rangeSpan)}
+              </text>
+            ))}
+
+            {plants.map((plant, index) => {
+              const points = series[plant.id] || [];
+              if (points.length < 2) return null;
+              return (
+                <polyline
+                  key={plant.id}
+                  points={points.map(point => `${getXPosition(point.timestamp)},${getYPosition(point.value)}`).join(' ')}
+                  fill="none"
+                  stroke={LEVEL_COLORS[index % LEVEL_COLORS.length]}
+                  strokeWidth="1.2"
+                  strokeLinejoin="round"
+                />
+              );
+            })}
+
+            {hoverTime !== null && (
+              <line
+                x1={((hoverTime - rangeFrom) / rangeSpan) * 100}
+                y1="0"
+                x2={((hoverTime - rangeFrom) / rangeSpan) * 100}
+                y2="100"
+                stroke="currentColor"
+                strokeWidth="0.3"
+                className="text-gray-500 dark:text-gray-400"
+              />
+            )}
+          </svg>
+
+          {hoverTime !== null && (
+            <div
+              className="absolute top-0 pointer-events-none bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md shadow-md px-2 py-1 text-xs text-gray-700 dark:text-gray-200 whitespace-nowrap"
+              style={{
+                left: `${((hoverTime - rangeFrom) / rangeSpan) * 100}%`,
+                transform: hoverTime - rangeFrom > rangeSpan / 2 ? 'translateX(calc(-100% - 8px))' : 'translateX(8px)'
+              }}
+            >
+              <div className="text-gray-500 dark:text-gray-400">{new Date(hoverTime).toLocaleString()}</div>
+              {hoverValues.map(({ plant, point }, index) => (
+                <div key={plant.id} className="flex items-center">
+                  <span className="inline-block w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: LEVEL_COLORS[index % LEVEL_COLORS.length] }} />
+                  {plant.name}: {point ? `${Math.round(point.value * 100) / 100}${metric.unit}` : '—'}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonChart;
@@ -1,27 +1,61 @@
 import React, { useState, useEffect } from 'react';
 import { Droplet, Sun, FlaskRound as Flask } from 'lucide-react';
 import arduinoService from '../services/ArduinoService';
+import { useEmergencyStop } from '../hooks/useEmergencyStop';
+import { ControlAction, ControlActuator, ControlResult, InterlockReason } from '../types';
+import { PumpName } from '../types/api';
+import { CommandStatusPayload, DoseRequest } from '../types/socket';
+import { parseControlAction } from '../utils/controls';
+import DoseControls from './DoseControls';
+import IrrigationAutomation from './IrrigationAutomation';
+import LightingAutomation from './LightingAutomation';
 
 interface ControlPanelProps {
-  onAction: (action: 'water' | 'light' | 'nutrients') => Promise<boolean>;
+  onAction: (action: ControlAction, dose?: DoseRequest) => Promise<boolean>;
   isLoading: boolean;
 }
 
+const CONTROL_ACTUATORS: ControlActuator[] = ['water', 'light', 'nutrients'];
+
+const INTERLOCK_LABELS: Record<InterlockReason, string> = {
+  emergency_stop: 'Emergency stop',
+  reservoir_low: 'Reservoir low',
+  max_run_time: 'Run time limit',
+  cooldown: 'Cooling down',
+  daily_cap: 'Daily limit reached',
+};
+
+interface ActionState {
+  loading: boolean;
+  success: boolean;
+  error: string | null;
+  interlock?: InterlockReason;
+}
+
+// Commands of the active level still waiting for their device's ack
+const getPendingCommands = () => CONTROL_ACTUATORS.reduce((acc, actuator) => {
+  acc[actuator] = arduinoService.getPendingCommand(actuator);
+  return acc;
+}, {} as Record<ControlActuator, CommandStatusPayload | null>);
+
 const ControlPanel: React.FC<ControlPanelProps> = ({ onAction, isLoading }) => {
-  const [actionStates, setActionStates] = useState({
-    water: { loading: false, success: false },
-    light: { loading: false, success: false },
-    nutrients: { loading: false, success: false },
+  const [actionStates, setActionStates] = useState<Record<ControlActuator, ActionState>>({
+    water: { loading: false, success: false, error: null },
+    light: { loading: false, success: false, error: null },
+    nutrients: { loading: false, success: false, error: null },
   });
+  // Bumped on every command status change so pending commands are re-read
+  const [, setCommandVersion] = useState(0);
+  const emergencyStop = useEmergencyStop();
 
   useEffect(() => {
     // Listen for control responses
-    const handleControlSuccess = (response: any) => {
+    const handleControlSuccess = (response: ControlResult) => {
       const action = response.action;
-      if (action && actionStates[action as keyof typeof actionStates]) {
+      if (action) {
         setActionStates(prev => ({
           ...prev,
-          [action]: { loading: false, success: true },
+          [action]: { loading: false, success: true, error: null },
         }));
         
         // Reset success state after 2 seconds
@@ -34,71 +68,103 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ onAction, isLoading }) => {
       }
     };
 
-    const handleControlError = (response: any) => {
+    // Failed, timed out or rejected commands keep their reason on the button
+    const handleControlError = (response: ControlResult) => {
       const action = response.action;
-      if (action && actionStates[action as keyof typeof actionStates]) {
+      if (action) {
         setActionStates(prev => ({
           ...prev,
-          [action]: { loading: false, success: false },
+          [action]: { loading: false, success: false, error: response.message, interlock: response.interlock },
         }));
       }
     };
 
-    arduinoService.on('controlSuccess', handleControlSuccess);
-    arduinoService.on('controlError', handleControlError);
+    const unsubscribeSuccess = arduinoService.on('controlSuccess', handleControlSuccess);
+    const unsubscribeError = arduinoService.on('controlError', handleControlError);
+    const unsubscribeCommand = arduinoService.on('command', () => setCommandVersion(version => version + 1));
 
     return () => {
-      arduinoService.off('controlSuccess', handleControlSuccess);
-      arduinoService.off('controlError', handleControlError);
+      unsubscribeSuccess();
+      unsubscribeError();
+      unsubscribeCommand();
     };
   }, []);
 
-  const handleAction = async (action: 'water' | 'light' | 'nutrients') => {
+  const handleAction = async (action: ControlAction, dose?: DoseRequest) => {
     if (isLoading || !arduinoService.isConnected()) {
       console.warn('Cannot send command: not connected or loading');
       return;
     }
 
+    const { actuator } = parseControlAction(action);
     setActionStates(prev => ({
       ...prev,
-      [action]: { loading: true, success: false },
+      [actuator]: { loading: true, success: false, error: null },
     }));
 
     try {
       console.log(`Sending ${action} command...`);
-      const success = await onAction(action);
-      
-      if (!success) {
-        // If the action failed immediately, reset loading state
-        setActionStates(prev => ({
-          ...prev,
-          [action]: { loading: false, success: false },
-        }));
-      }
-      // Success state will be handled by the WebSocket response
-      
+      await onAction(action, dose);
     } catch (error) {
       console.error(`Error sending ${action} command:`, error);
-      setActionStates(prev => ({
-        ...prev,
-        [action]: { loading: false, success: false },
-      }));
     }
+
+    // Once queued the command shows as pending until the device acknowledges it;
+    // success and errors arrive through the WebSocket
+    setActionStates(prev => ({
+      ...prev,
+      [actuator]: { ...prev[actuator], loading: false },
+    }));
+  };
+
+  const pendingCommands = getPendingCommands();
+
+  // Busy while the request is in flight or the device has not acked yet
+  const isBusy = (actuator: ControlActuator) => actionStates[actuator].loading || pendingCommands[actuator] !== null;
+
+  const statusLine = (actuator: ControlActuator) => {
+    if (pendingCommands[actuator]) {
+      return <span className="text-xs text-gray-500 dark:text-gray-400 mt-1">Waiting for device...</span>;
+    }
+    const { error, interlock } = actionStates[actuator];
+    if (interlock) {
+      return (
+        <span className="text-xs text-orange-600 dark:text-orange-400 mt-1 text-center">
+          <span className="font-semibold">{INTERLOCK_LABELS[interlock]}:</span> {error}
+        </span>
+      );
+    }
+    if (error) {
+      return <span className="text-xs text-red-600 dark:text-red-400 mt-1 text-center">{error}</span>;
+    }
+    return null;
   };
 
   const isWateringActive = arduinoService.isWateringActive();
   const isLightActive = arduinoService.isLightActive();
   const isConnected = arduinoService.isConnected();
 
+  // While the emergency stop is latched only switching off is possible
+  const isStopped = (actuator: ControlActuator) => emergencyStop.engaged && !(
+    (actuator === 'water' && isWateringActive) || (actuator === 'light' && isLightActive)
+  );
+  const isDisabled = (actuator: ControlActuator) => isBusy(actuator) || isLoading || !isConnected || isStopped(actuator);
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
       <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">Controls</h2>
+
+      {emergencyStop.engaged && (
+        <div className="mb-4 px-3 py-2 rounded-lg bg-red-50 dark:bg-red-900/30 text-sm text-red-700 dark:text-red-300">
+          Emergency stop engaged{emergencyStop.engagedBy ? ` by ${emergencyStop.engagedBy}` : ''}. Actuators cannot be started until it is cleared.
+        </div>
+      )}
       
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         {/* Water Button */}
         <button
-          onClick={() => handleAction('water')}
-          disabled={actionStates.water.loading || isLoading || !isConnected}
+          onClick={() => handleAction(isWateringActive ? 'water:off' : 'water:on')}
+          disabled={isDisabled('water')}
           className={`
             flex flex-col items-center justify-center p-4 rounded-lg transition-all duration-300 transform hover:scale-105
             ${actionStates.water.success 
@@ -106,13 +172,13 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ onAction, isLoading }) => {
               : isWateringActive
                 ? 'bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300 hover:bg-red-200 dark:hover:bg-red-800 shadow-md'
                 : 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 hover:bg-blue-100 dark:hover:bg-blue-900/50 shadow-md'}
-            ${actionStates.water.loading || isLoading || !isConnected ? 'opacity-50 cursor-not-allowed transform-none' : 'hover:shadow-lg'}
+            ${isDisabled('water') ? 'opacity-50 cursor-not-allowed transform-none' : 'hover:shadow-lg'}
           `}
         >
           <div className="relative">
             <Droplet 
               size={24} 
-              className={`${actionStates.water.loading ? 'animate-pulse' : ''}`} 
+              className={`${isBusy('water') ? 'animate-pulse' : ''}`} 
             />
             {actionStates.water.success && (
               <span className="absolute -top-1 -right-1 flex h-3 w-3">
@@ -120,7 +186,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ onAction, isLoading }) => {
                 <span className="relative inline-flex rounded-full h-3 w-3 bg-green-500"></span>
               </span>
             )}
-            {isWateringActive && !actionStates.water.loading && (
+            {isWateringActive && !isBusy('water') && (
               <span className="absolute -top-1 -right-1 flex h-3 w-3">
                 <span className="animate-pulse absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-75"></span>
                 <span className="relative inline-flex rounded-full h-3 w-3 bg-red-500"></span>
@@ -128,18 +194,18 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ onAction, isLoading }) => {
             )}
           </div>
           <span className="mt-2 font-medium text-center">
-            {actionStates.water.loading ? 'Processing...' : 
+            {isBusy('water') ? 'Processing...' : 
              isWateringActive ? 'Stop Watering' : 'Start Watering'}
           </span>
-          {isWateringActive && (
+          {statusLine('water') || (isWateringActive && (
             <span className="text-xs text-red-600 dark:text-red-400 mt-1">Active</span>
-          )}
+          ))}
         </button>
 
         {/* Light Button */}
         <button
-          onClick={() => handleAction('light')}
-          disabled={actionStates.light.loading || isLoading || !isConnected}
+          onClick={() => handleAction(isLightActive ? 'light:off' : 'light:on')}
+          disabled={isDisabled('light')}
           className={`
             flex flex-col items-center justify-center p-4 rounded-lg transition-all duration-300 transform hover:scale-105
             ${actionStates.light.success 
@@ -147,13 +213,13 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ onAction, isLoading }) => {
               : isLightActive
                 ? 'bg-yellow-100 dark:bg-yellow-900 text-yellow-700 dark:text-yellow-300 hover:bg-yellow-200 dark:hover:bg-yellow-800 shadow-md'
                 : 'bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 hover:bg-amber-100 dark:hover:bg-amber-900/50 shadow-md'}
-            ${actionStates.light.loading || isLoading || !isConnected ? 'opacity-50 cursor-not-allowed transform-none' : 'hover:shadow-lg'}
+            ${isDisabled('light') ? 'opacity-50 cursor-not-allowed transform-none' : 'hover:shadow-lg'}
           `}
         >
           <div className="relative">
             <Sun 
               size={24} 
-              className={`${actionStates.light.loading ? 'animate-pulse' : isLightActive ? 'animate-spin' : ''}`} 
+              className={`${isBusy('light') ? 'animate-pulse' : isLightActive ? 'animate-spin' : ''}`} 
             />
             {actionStates.light.success && (
               <span className="absolute -top-1 -right-1 flex h-3 w-3">
@@ -161,7 +227,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ onAction, isLoading }) => {
                 <span className="relative inline-flex rounded-full h-3 w-3 bg-green-500"></span>
               </span>
             )}
-            {isLightActive && !actionStates.light.loading && (
+            {isLightActive && !isBusy('light') && (
               <span className="absolute -top-1 -right-1 flex h-3 w-3">
                 <span className="animate-pulse absolute inline-flex h-full w-full rounded-full bg-yellow-400 opacity-75"></span>
                 <span className="relative inline-flex rounded-full h-3 w-3 bg-yellow-500"></span>
@@ -169,30 +235,30 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ onAction, isLoading }) => {
             )}
           </div>
           <span className="mt-2 font-medium text-center">
-            {actionStates.light.loading ? 'Processing...' : 
+            {isBusy('light') ? 'Processing...' : 
              isLightActive ? 'Turn Off Light' : 'Turn On Light'}
           </span>
-          {isLightActive && (
+          {statusLine('light') || (isLightActive && (
             <span className="text-xs text-yellow-600 dark:text-yellow-400 mt-1">Active</span>
-          )}
+          ))}
         </button>
 
         {/* Nutrients Button */}
         <button
           onClick={() => handleAction('nutrients')}
-          disabled={actionStates.nutrients.loading || isLoading || !isConnected}
+          disabled={isDisabled('nutrients')}
           className={`
             flex flex-col items-center justify-center p-4 rounded-lg transition-all duration-300 transform hover:scale-105
             ${actionStates.nutrients.success 
               ? 'bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-300 shadow-lg' 
               : 'bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-300 hover:bg-green-100 dark:hover:bg-green-900/50 shadow-md'}
-            ${actionStates.nutrients.loading || isLoading || !isConnected ? 'opacity-50 cursor-not-allowed transform-none' : 'hover:shadow-lg'}
+            ${isDisabled('nutrients') ? 'opacity-50 cursor-not-allowed transform-none' : 'hover:shadow-lg'}
           `}
         >
           <div className="relative">
             <Flask 
               size={24} 
-              className={`${actionStates.nutrients.loading ? 'animate-bounce' : ''}`} 
+              className={`${isBusy('nutrients') ? 'animate-bounce' : ''}`} 
             />
             {actionStates.nutrients.success && (
               <span className="absolute -top-1 -right-1 flex h-3 w-3">
@@ -202,12 +268,24 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ onAction, isLoading }) => {
             )}
           </div>
           <span className="mt-2 font-medium text-center">
-            {actionStates.nutrients.loading ? 'Adding Nutrients...' : 'Add Nutrients'}
+            {isBusy('nutrients') ? 'Adding Nutrients...' : 'Add Nutrients'}
           </span>
-          <span className="text-xs text-green-600 dark:text-green-400 mt-1">One-time dose</span>
+          {statusLine('nutrients') || (
+            <span className="text-xs text-green-600 dark:text-green-400 mt-1">One-time dose</span>
+          )}
         </button>
       </div>
 
+      <DoseControls
+        onDose={(pump: PumpName, dose) => handleAction(pump === 'water' ? 'water:on' : 'nutrients', dose)}
+        isBusy={(pump) => isBusy(pump) || (pump === 'water' && isWateringActive)}
+        disabled={isLoading || !isConnected || emergencyStop.engaged}
+      />
+
+      <IrrigationAutomation disabled={isLoading || !isConnected} />
+
+      <LightingAutomation disabled={isLoading || !isConnected} />
+
       {/* Connection Status Indicator */}
       <div className="mt-4 flex items-center justify-center">
         <div className={`flex items-center space-x-2 px-3 py-1 rounded-full text-xs font-medium ${
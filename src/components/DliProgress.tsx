@@ -0,0 +1,89 @@
+import React from 'react';
+import { Sunrise } from 'lucide-react';
+import { useLightingStatus } from '../hooks/useLightingStatus';
+import { Plant } from '../types';
+
+interface DliProgressProps {
+  plant: Plant;
+}
+
+// How the level's daily light integral is tracking against its target: light
+// so far, the projection if the current light holds, and any extension of the
+// photoperiod the grow light automation may add.
+const DliProgress: React.FC<DliProgressProps> = ({ plant }) => {
+  const status = useLightingStatus(plant.id);
+
+  if (!status) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">Daily Light Integral</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400">Waiting for the backend...</p>
+      </div>
+    );
+  }
+
+  const { dli } = status;
+  // Only the backend's target counts; the profile's is not tracked until sent
+  const target = dli.target;
+  const scale = Math.max(target ?? 0, dli.projected, dli.mol, 1);
+  const percentOf = (value: number) => `${Math.min((value / scale) * 100, 100)}%`;
+  const isShort = target !== null && dli.projected < target;
+  const barColor = target === null || dli.mol >= target ? 'bg-green-500' : isShort ? 'bg-orange-500' : 'bg-yellow-500';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="flex items-center gap-2 text-xl font-semibold text-gray-900 dark:text-white">
+          <Sunrise size={22} className="text-yellow-500" />
+          Daily Light Integral
+        </h2>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          Since {new Date(dli.dayStartedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </span>
+      </div>
+
+      <div className="flex items-baseline gap-2 mb-2">
+        <span className="text-3xl font-bold text-gray-900 dark:text-white">{dli.mol.toFixed(2)}</span>
+        <span className="text-sm text-gray-500 dark:text-gray-400">
+          {target !== null ? `of ${target} ` : ''}mol/m²
+        </span>
+      </div>
+
+      <div className="relative h-3 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+        <div className={`absolute inset-y-0 left-0 ${barColor} opacity-30`} style={{ width: percentOf(dli.projected) }} />
+        <div className={`absolute inset-y-0 left-0 ${barColor}`} style={{ width: percentOf(dli.mol) }} />
+        {target !== null && (
+          <div className="absolute inset-y-0 w-0.5 bg-gray-900 dark:bg-white" style={{ left: percentOf(target) }} />
+        )}
+      </div>
+
+      <div className="mt-3 grid grid-cols-2 gap-2 text-xs text-gray-500 dark:text-gray-400">
+        <span>Projected: {dli.projected.toFixed(2)} mol/m²</span>
+        <span>PPFD now: {dli.ppfd !== null ? `${dli.ppfd} µmol/m²/s` : '–'}</span>
+        <span>Photoperiod: {status.lightsOnAt}–{status.lightsOffAt}</span>
+        <span>Factor: {dli.ppfdFactor} µmol/m²/s per lux</span>
+      </div>
+
+      {target === null ? (
+        <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+          {plant.targetDli != null
+            ? `Switch the grow light to auto or save the plant profile to track the day against ${plant.targetDli} mol/m².`
+            : 'Set a target DLI in the plant profile to track the day against it.'}
+        </p>
+      ) : status.phase === 'extending' ? (
+        <p className="mt-3 text-xs text-yellow-600 dark:text-yellow-400">{status.message}</p>
+      ) : isShort && (
+        <p className="mt-3 text-xs text-orange-600 dark:text-orange-400">
+          Projected {(target - dli.projected).toFixed(2)} mol/m² short.{' '}
+          {status.mode !== 'auto'
+            ? 'Switch the grow light to auto to extend its hours.'
+            : dli.extensionUntil
+            ? `The grow light will stay on past ${status.lightsOffAt}, until ${new Date(dli.extensionUntil).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} at the latest.`
+            : 'The photoperiod cannot be extended any further.'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DliProgress;
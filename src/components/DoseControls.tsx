@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import { Droplet, FlaskRound as Flask } from 'lucide-react';
+import { usePlant } from '../context/PlantContext';
+import arduinoService from '../services/ArduinoService';
+import { PumpCalibrationResponse, PumpName } from '../types/api';
+import { BackendCommandType, DoseRequest } from '../types/socket';
+
+type DoseUnit = 's' | 'ml';
+
+interface DoseControlsProps {
+  onDose: (pump: PumpName, dose: DoseRequest) => void;
+  isBusy: (pump: PumpName) => boolean;
+  disabled: boolean;
+}
+
+const PUMP_LABELS: Record<PumpName, string> = {
+  water: 'Water',
+  nutrients: 'Nutrients',
+};
+
+const PUMP_COMMANDS: Record<PumpName, BackendCommandType> = {
+  water: 'water_pump',
+  nutrients: 'fert_pump',
+};
+
+// Timed or volumetric doses for the active level's pumps. Volumes are turned
+// into run times by the backend with the pump's flow calibration.
+const DoseControls: React.FC<DoseControlsProps> = ({ onDose, isBusy, disabled }) => {
+  const { activePlant, levels } = usePlant();
+  const deviceId = levels.find(level => level.id === activePlant.id)?.actuatorDeviceId ?? null;
+
+  const [amounts, setAmounts] = useState<Record<PumpName, string>>({ water: '10', nutrients: '5' });
+  const [units, setUnits] = useState<Record<PumpName, DoseUnit>>({ water: 's', nutrients: 'ml' });
+  const [calibration, setCalibration] = useState<PumpCalibrationResponse | null>(null);
+  const [calibrating, setCalibrating] = useState<PumpName | null>(null);
+  const [flowRateInput, setFlowRateInput] = useState('');
+  const [delivered, setDelivered] = useState<Partial<Record<PumpName, { ml: number; at: string }>>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCalibration(null);
+    setDelivered({});
+    if (!deviceId) return;
+
+    let cancelled = false;
+    arduinoService.getPumpCalibration(deviceId).then(result => {
+      if (!cancelled) setCalibration(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [deviceId]);
+
+  // Delivered volume of the last completed dose per pump
+  useEffect(() => {
+    return arduinoService.on('command', command => {
+      if (command.deviceId !== deviceId || command.status !== 'completed' || command.deliveredMl == null) return;
+      const pump = (Object.keys(PUMP_COMMANDS) as PumpName[]).find(name => PUMP_COMMANDS[name] === command.command);
+      if (pump) {
+        setDelivered(prev => ({
+          ...prev,
+          [pump]: { ml: command.deliveredMl as number, at: command.completedAt || command.timestamp },
+        }));
+      }
+    });
+  }, [deviceId]);
+
+  const handleDose = (pump: PumpName) => {
+    const amount = parseFloat(amounts[pump]);
+    if (isNaN(amount) || amount <= 0) {
+      setError(`Enter a positive ${units[pump] === 's' ? 'number of seconds' : 'volume'} for ${PUMP_LABELS[pump].toLowerCase()}.`);
+      return;
+    }
+    setError(null);
+    onDose(pump, units[pump] === 's' ? { seconds: amount } : { ml: amount });
+  };
+
+  const handleSaveFlowRate = async (pump: PumpName) => {
+    const mlPerSecond = parseFloat(flowRateInput);
+    if (!deviceId || isNaN(mlPerSecond) || mlPerSecond <= 0) {
+      setError('Flow rate must be a positive number of ml per second.');
+      return;
+    }
+    const result = await arduinoService.savePumpCalibration(deviceId, pump, mlPerSecond);
+    setError(result ? null : `Could not save the ${PUMP_LABELS[pump].toLowerCase()} pump calibration.`);
+    if (result) {
+      setCalibration(result);
+      setCalibrating(null);
+    }
+  };
+
+  if (!deviceId) return null;
+
+  const inputClassName = 'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white';
+
+  return (
+    <div className="mt-4 border-t border-gray-200 dark:border-gray-700 pt-4">
+      <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Dose</h3>
+
+      <div className="space-y-3">
+        {(Object.keys(PUMP_LABELS) as PumpName[]).map(pump => {
+          const flow = calibration?.pumps[pump];
+          const last = delivered[pump];
+          const Icon = pump === 'water' ? Droplet : Flask;
+
+          return (
+            <div key={pump} className="flex flex-wrap items-center gap-2">
+              <Icon size={16} className={pump === 'water' ? 'text-blue-500' : 'text-green-500'} />
+              <span className="w-20 text-sm text-gray-900 dark:text-white">{PUMP_LABELS[pump]}</span>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={amounts[pump]}
+                onChange={(e) => setAmounts(prev => ({ ...prev, [pump]: e.target.value }))}
+                className={`w-20 ${inputClassName}`}
+              />
+              <select
+                value={units[pump]}
+                onChange={(e) => setUnits(prev => ({ ...prev, [pump]: e.target.value as DoseUnit }))}
+                className={inputClassName}
+              >
+                <option value="s">s</option>
+                <option value="ml">ml</option>
+              </select>
+              <button
+                onClick={() => handleDose(pump)}
+                disabled={disabled || isBusy(pump)}
+                className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isBusy(pump) ? 'Dosing...' : 'Dose'}
+              </button>
+
+              {calibrating === pump ? (
+                <span className="flex items-center gap-1">
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={flowRateInput}
+                    onChange={(e) => setFlowRateInput(e.target.value)}
+                    className={`w-20 ${inputClassName}`}
+                  />
+                  <span className="text-xs text-gray-500 dark:text-gray-400">ml/s</span>
+                  <button
+                    onClick={() => handleSaveFlowRate(pump)}
+                    className="text-xs text-green-600 dark:text-green-400 hover:underline"
+                  >
+                    Save
+                  </button>
+                  <button
+                    onClick={() => setCalibrating(null)}
+                    className="text-xs text-gray-500 dark:text-gray-400 hover:underline"
+                  >
+                    Cancel
+                  </button>
+                </span>
+              ) : flow && (
+                <button
+                  onClick={() => {
+                    setCalibrating(pump);
+                    setFlowRateInput(String(flow.mlPerSecond));
+                  }}
+                  className="text-xs text-gray-500 dark:text-gray-400 hover:underline"
+                  title="Time how long the pump takes to fill a measuring jug and enter ml per second"
+                >
+                  {flow.mlPerSecond} ml/s{flow.calibrated ? '' : ' (default)'}
+                </button>
+              )}
+
+              {last && (
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  Last: {last.ml} ml at {new Date(last.at).toLocaleTimeString()}
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {error && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default DoseControls;
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { useEmergencyStop } from '../hooks/useEmergencyStop';
+import arduinoService from '../services/ArduinoService';
+import { Octagon, RotateCcw } from 'lucide-react';
+
+// Header E-stop. Engaging switches off every actuator and latches; the
+// backend refuses all starts until an operator clears it here.
+const EmergencyStopButton: React.FC = () => {
+  const { user } = useAuth();
+  const emergencyStop = useEmergencyStop();
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleEngage = async () => {
+    setIsSending(true);
+    const engaged = await arduinoService.engageEmergencyStop({ engagedBy: user?.name });
+    setError(engaged ? null : 'Emergency stop failed to reach the backend');
+    setIsSending(false);
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Clear the emergency stop? Actuators stay off, but can be started again.')) return;
+    setIsSending(true);
+    const cleared = await arduinoService.clearEmergencyStop(user?.name);
+    setError(cleared ? null : 'Could not clear the emergency stop');
+    setIsSending(false);
+  };
+
+  if (emergencyStop.engaged) {
+    const since = emergencyStop.engagedAt ? new Date(emergencyStop.engagedAt).toLocaleTimeString() : null;
+    return (
+      <div className="flex items-center gap-2">
+        <span
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-red-600 text-white text-sm font-bold animate-pulse"
+          title={`Stopped${since ? ` at ${since}` : ''}${emergencyStop.engagedBy ? ` by ${emergencyStop.engagedBy}` : ''}`}
+        >
+          <Octagon size={16} />
+          STOPPED
+        </span>
+        <button
+          onClick={handleClear}
+          disabled={isSending}
+          className="flex items-center gap-1 px-2 py-1.5 text-xs rounded-lg border border-red-600 text-red-700 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/30 disabled:opacity-50"
+        >
+          <RotateCcw size={12} />
+          Clear
+        </button>
+        {error && <span className="text-xs text-red-600 dark:text-red-400">{error}</span>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        onClick={handleEngage}
+        disabled={isSending}
+        className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-red-600 text-white text-sm font-bold shadow-md hover:bg-red-700 disabled:opacity-50"
+        title="Switch off every pump and light and block restarts"
+        aria-label="Emergency stop"
+      >
+        <Octagon size={16} />
+        {isSending ? 'Stopping...' : 'E-STOP'}
+      </button>
+      {error && <span className="text-xs text-red-600 dark:text-red-400">{error}</span>}
+    </div>
+  );
+};
+
+export default EmergencyStopButton;
@@ -1,67 +1,71 @@
-import React, { useEffect, useState } from 'react';
-import { SensorData } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { DataPoint, ConnectionEvent, HistoryUpdate, Plant, TimeWindow } from '../types';
+import { ActuatorAction } from '../types/socket';
+import { CommandHistoryEntry } from '../types/api';
 import arduinoService from '../services/ArduinoService';
+import { useChartRange } from '../context/ChartRangeContext';
+import ChartRangeSelector from './ChartRangeSelector';
+import {
+  describeChartRange,
+  formatChartTime,
+  isLiveRange,
+  LIVE_REFRESH_MS,
+  pickBucket,
+  resolveChartRange,
+} from '../utils/chartRange';
+import { MetricDescriptor, getOptimalRange } from '../utils/metrics';
 
 interface HistoricalChartProps {
-  title: string;
-  dataType: 'moisture' | 'temperature' | 'nutrients';
-  unit: string;
-  color: string;
+  chartId?: string; // Key for the persisted range; defaults to the metric key
+  metric: MetricDescriptor;
+  plant: Plant;
   isLoading: boolean;
+  onRemove?: () => void;
 }
 
-interface AveragedDataPoint {
-  timestamp: string;
-  value: number;
-  count: number;
-}
+// Colours of the actuator command markers
+const ACTUATOR_MARKERS: Record<ActuatorAction, { label: string; color: string }> = {
+  water: { label: 'Water pump', color: '#0284c7' },
+  light: { label: 'Grow light', color: '#eab308' },
+  nutrients: { label: 'Fertilizer pump', color: '#16a34a' },
+};
+
+// Narrowest window zooming can reach
+const MIN_ZOOM_SPAN_MS = 5 * 60 * 1000;
+
+// Pointer gesture in progress on the plot area
+type Gesture =
+  | { type: 'pan'; startFraction: number; startWindow: TimeWindow }
+  | { type: 'brush'; startFraction: number }
+  | { type: 'pinch'; startDistance: number; startWindow: TimeWindow; centerFraction: number };
 
 const HistoricalChart: React.FC<HistoricalChartProps> = ({ 
-  title, 
-  dataType,
-  unit, 
-  color,
-  isLoading
+  chartId,
+  metric,
+  plant,
+  isLoading,
+  onRemove
 }) => {
-  const [data, setData] = useState<AveragedDataPoint[]>([]);
+  const { key: dataType, unit, color } = metric;
+  const title = `${metric.label} Trends`;
+  const optimalRange = getOptimalRange(metric, plant);
+  const [data, setData] = useState<DataPoint[]>([]);
+  const [commands, setCommands] = useState<CommandHistoryEntry[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [isConnected, setIsConnected] = useState(false);
-
-  const averageDataPoints = (rawData: { timestamp: string; value: number }[]): AveragedDataPoint[] => {
-    if (rawData.length === 0) return [];
-
-    const intervalMs = 10 * 60 * 1000; // 10 minutes intervals for 4-hour window
-    const fourHoursAgo = Date.now() - (4 * 60 * 60 * 1000); // 4 hours ago
-    const buckets = new Map<number, { sum: number; count: number; timestamp: string }>();
-
-    // Filter data to last 4 hours only
-    const recentData = rawData.filter(point => new Date(point.timestamp).getTime() >= fourHoursAgo);
-
-    recentData.forEach(point => {
-      const time = new Date(point.timestamp).getTime();
-      const bucketKey = Math.floor(time / intervalMs) * intervalMs;
-      
-      if (!buckets.has(bucketKey)) {
-        buckets.set(bucketKey, { 
-          sum: 0, 
-          count: 0, 
-          timestamp: new Date(bucketKey).toISOString() 
-        });
-      }
-      
-      const bucket = buckets.get(bucketKey)!;
-      bucket.sum += point.value;
-      bucket.count += 1;
-    });
-
-    return Array.from(buckets.entries())
-      .map(([bucketKey, bucket]) => ({
-        timestamp: bucket.timestamp,
-        value: bucket.sum / bucket.count,
-        count: bucket.count
-      }))
-      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
-      .slice(-24); // Keep last 24 points (4 hours with 10-minute intervals)
-  };
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const [brush, setBrush] = useState<{ start: number; end: number } | null>(null);
+  const plotRef = useRef<HTMLDivElement>(null);
+  const pointers = useRef(new Map<number, number>());
+  const gesture = useRef<Gesture | null>(null);
+  const { getRange, zoom, setZoom } = useChartRange();
+  const rangeKey = chartId || dataType;
+  const chartRange = getRange(rangeKey);
+  // The shared zoom window, when set, replaces the selected range
+  const { from: rangeFrom, to: rangeTo } = zoom || resolveChartRange(chartRange);
+  const rangeSpan = rangeTo - rangeFrom || 1;
+  const isLive = isLiveRange(chartRange) && !zoom;
 
   // Calculate min/max values safely
   const getMinMaxValues = () => {
@@ -83,21 +87,23 @@ const HistoricalChart: React.FC<HistoricalChartProps> = ({
     return 90 - ((value - minValue) / range * 70);
   };
 
+  // X position on a time scale spanning the selected range
+  const getXPosition = (timestamp: string): number =>
+    ((new Date(timestamp).getTime() - rangeFrom) / rangeSpan) * 100;
+
   // Generate smooth curve using SVG path
   const generateSmoothPath = (): string => {
     if (data.length < 2) return '';
     
-    const chartWidth = 100;
-    const pointGap = chartWidth / (data.length - 1);
-    
-    let path = `M 0,${getYPosition(data[0].value)}`;
+    let path = `M ${getXPosition(data[0].timestamp)},${getYPosition(data[0].value)}`;
     
     for (let i = 1; i < data.length; i++) {
-      const x = i * pointGap;
+      const x = getXPosition(data[i].timestamp);
       const y = getYPosition(data[i].value);
+      const prevX = getXPosition(data[i - 1].timestamp);
+      const pointGap = x - prevX;
       
       if (i === 1) {
-        const prevX = (i - 1) * pointGap;
         const prevY = getYPosition(data[i - 1].value);
         const cpX1 = prevX + pointGap * 0.3;
         const cpY1 = prevY;
@@ -105,7 +111,6 @@ const HistoricalChart: React.FC<HistoricalChartProps> = ({
         const cpY2 = y;
         path += ` C ${cpX1},${cpY1} ${cpX2},${cpY2} ${x},${y}`;
       } else {
-        const prevX = (i - 1) * pointGap;
         const prevY = getYPosition(data[i - 1].value);
         const cpX = prevX + (x - prevX) * 0.5;
         const cpY = prevY + (y - prevY) * 0.5;
@@ -118,111 +123,229 @@ const HistoricalChart: React.FC<HistoricalChartProps> = ({
 
   const smoothPath = generateSmoothPath();
 
+  // Optimal range as a band, clipped to the plot area
+  const hoverPoint = hoverIndex !== null ? data[hoverIndex] : undefined;
+
+  const optimalBand = (() => {
+    if (!optimalRange || data.length === 0) return null;
+    const top = Math.max(0, getYPosition(optimalRange.max));
+    const bottom = Math.min(100, getYPosition(optimalRange.min));
+    return bottom > top ? { top, bottom } : null;
+  })();
+
   useEffect(() => {
     // Check connection status
     const checkConnection = () => {
       setIsConnected(arduinoService.isConnected());
     };
 
+    // The backend averages readings into buckets sized for the visible window
     const fetchHistoricalData = async () => {
       try {
-        const historicalData = await arduinoService.getHistoricalData();
-        
-        const processedData = historicalData.map(item => {
-          let value = 0;
-          
-          switch (dataType) {
-            case 'moisture':
-              value = item.moisture;
-              break;
-            case 'temperature':
-              value = item.temperature;
-              break;
-            case 'nutrients':
-              value = (item.nitrogen + item.phosphorus + item.potassium) / 3;
-              break;
-          }
-          
-          return {
-            timestamp: item.timestamp,
-            value: value
-          };
+        const { from, to } = zoom || resolveChartRange(chartRange);
+        const bucket = pickBucket(to - from);
+        const series = await arduinoService.queryHistory({
+          metrics: [dataType],
+          from,
+          to,
+          bucket,
+          agg: 'avg'
         });
-        
-        const averagedData = averageDataPoints(processedData);
-        setData(averagedData);
+        setData(series ? series[dataType] : []);
+        setLoadError(series ? null : 'Could not load this range from the backend.');
       } catch (error) {
         console.error('Failed to fetch historical data:', error);
       }
     };
 
+    const fetchCommands = async () => {
+      const { from, to } = zoom || resolveChartRange(chartRange);
+      const commandHistory = await arduinoService.getCommandHistory({ from, to });
+      setCommands(commandHistory.filter(command => command.action));
+    };
+
     // Initial connection check
     checkConnection();
 
     // Handle connection status changes
-    const handleConnection = (status: { connected: boolean }) => {
+    const handleConnection = (status: ConnectionEvent) => {
       setIsConnected(status.connected);
       if (status.connected) {
         fetchHistoricalData();
+        fetchCommands();
       }
     };
 
-    let updateTimeout: NodeJS.Timeout;
-    const handleDataUpdate = (newData: SensorData) => {
-      if (!isConnected) return;
-      
-      if (updateTimeout) {
-        clearTimeout(updateTimeout);
+    // History covers both the backend backfill and live readings; custom ranges
+    // are fixed. A burst of readings refetches the series once.
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+    const handleHistory = (update: HistoryUpdate) => {
+      if (!isLive || update.plantType !== arduinoService.getActivePlant() || refreshTimer) return;
+      refreshTimer = setTimeout(() => {
+        refreshTimer = undefined;
+        fetchHistoricalData();
+      }, LIVE_REFRESH_MS);
+    };
+
+    // New commands add markers
+    const handleCommand = () => {
+      if (isLive) {
+        fetchCommands();
       }
-      
-      updateTimeout = setTimeout(() => {
-        let value = 0;
-        
-        switch (dataType) {
-          case 'moisture':
-            value = newData.moisture;
-            break;
-          case 'temperature':
-            value = newData.temperature;
-            break;
-          case 'nutrients':
-            value = (newData.nitrogen + newData.phosphorus + newData.potassium) / 3;
-            break;
-        }
-        
-        setData(prevData => {
-          const newPoint = {
-            timestamp: newData.timestamp,
-            value: value
-          };
-          
-          const updatedRawData = [...prevData.map(p => ({ timestamp: p.timestamp, value: p.value })), newPoint];
-          return averageDataPoints(updatedRawData);
-        });
-      }, 5000); // Update every 5 seconds
     };
 
     // Subscribe to events
-    arduinoService.on('connection', handleConnection);
-    arduinoService.on('data', handleDataUpdate);
+    const unsubscribeConnection = arduinoService.on('connection', handleConnection);
+    const unsubscribeHistory = arduinoService.on('history', handleHistory);
+    const unsubscribeCommand = arduinoService.on('command', handleCommand);
 
-    // Initial data fetch if connected
-    if (arduinoService.isConnected()) {
+    // Initial data fetch; wait for zoom gestures to settle before refetching
+    const fetchTimer = setTimeout(() => {
       fetchHistoricalData();
-    }
+      fetchCommands();
+    }, zoom ? 300 : 0);
 
     return () => {
-      if (updateTimeout) {
-        clearTimeout(updateTimeout);
-      }
-      arduinoService.off('connection', handleConnection);
-      arduinoService.off('data', handleDataUpdate);
+      clearTimeout(fetchTimer);
+      clearTimeout(refreshTimer);
+      unsubscribeConnection();
+      unsubscribeHistory();
+      unsubscribeCommand();
+    };
+  }, [dataType, chartRange, zoom, isLive]);
+
+  // Horizontal pointer position as a fraction of the plot width
+  const getFraction = (clientX: number): number => {
+    const rect = plotRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1);
+  };
+
+  // Keep windows from running into the future
+  const clampWindow = (view: TimeWindow): TimeWindow => {
+    const now = Date.now();
+    if (view.to <= now) return view;
+    return { from: view.from - (view.to - now), to: now };
+  };
+
+  // Zoom around a point of the plot; factor < 1 zooms in
+  const zoomAround = (view: TimeWindow, fraction: number, factor: number): TimeWindow => {
+    const span = Math.max((view.to - view.from) * factor, MIN_ZOOM_SPAN_MS);
+    const center = view.from + fraction * (view.to - view.from);
+    const from = center - fraction * span;
+    return clampWindow({ from, to: from + span });
+  };
+
+  const currentWindow = (): TimeWindow => ({ from: rangeFrom, to: rangeTo });
+
+  // Wheel zoom needs a non-passive listener so the page does not scroll
+  useEffect(() => {
+    const plot = plotRef.current;
+    if (!plot) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const factor = event.deltaY > 0 ? 1.25 : 0.8;
+      setZoom(zoomAround(currentWindow(), getFraction(event.clientX), factor));
     };
-  }, [dataType, isConnected]);
+
+    plot.addEventListener('wheel', handleWheel, { passive: false });
+    return () => plot.removeEventListener('wheel', handleWheel);
+  });
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pointers.current.set(event.pointerId, event.clientX);
+    const fraction = getFraction(event.clientX);
+    setHoverIndex(null);
+
+    if (pointers.current.size === 2) {
+      const [a, b] = Array.from(pointers.current.values());
+      gesture.current = {
+        type: 'pinch',
+        startDistance: Math.abs(a - b) || 1,
+        startWindow: currentWindow(),
+        centerFraction: getFraction((a + b) / 2),
+      };
+      setBrush(null);
+    } else if (event.shiftKey) {
+      gesture.current = { type: 'brush', startFraction: fraction };
+      setBrush({ start: fraction, end: fraction });
+    } else {
+      gesture.current = { type: 'pan', startFraction: fraction, startWindow: currentWindow() };
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const fraction = getFraction(event.clientX);
+    const active = gesture.current;
+
+    if (!active) {
+      // Crosshair snaps to the bucket nearest the pointer
+      if (data.length === 0) return;
+      const time = rangeFrom + fraction * rangeSpan;
+      let nearest = 0;
+      data.forEach((point, index) => {
+        if (Math.abs(new Date(point.timestamp).getTime() - time) <
+            Math.abs(new Date(data[nearest].timestamp).getTime() - time)) {
+          nearest = index;
+        }
+      });
+      setHoverIndex(nearest);
+      return;
+    }
+
+    pointers.current.set(event.pointerId, event.clientX);
+
+    if (active.type === 'pan') {
+      if (Math.abs(fraction - active.startFraction) < 0.005) return; // Ignore clicks
+      const shift = (active.startFraction - fraction) * (active.startWindow.to - active.startWindow.from);
+      setZoom(clampWindow({ from: active.startWindow.from + shift, to: active.startWindow.to + shift }));
+    } else if (active.type === 'brush') {
+      setBrush({ start: active.startFraction, end: fraction });
+    } else if (pointers.current.size === 2) {
+      const [a, b] = Array.from(pointers.current.values());
+      const factor = active.startDistance / (Math.abs(a - b) || 1);
+      setZoom(zoomAround(active.startWindow, active.centerFraction, factor));
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    pointers.current.delete(event.pointerId);
+    const active = gesture.current;
+
+    // Brushing zooms every chart to the selected window
+    if (active?.type === 'brush' && brush && Math.abs(brush.end - brush.start) > 0.01) {
+      const start = Math.min(brush.start, brush.end);
+      const end = Math.max(brush.start, brush.end);
+      setZoom({ from: rangeFrom + start * rangeSpan, to: rangeFrom + end * rangeSpan });
+    }
+
+    setBrush(null);
+    gesture.current = null;
+  };
+
+  const removeButton = onRemove && (
+    <button
+      onClick={onRemove}
+      className="absolute top-2 right-2 p-1 rounded-full text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+      aria-label={`Remove ${metric.label} chart`}
+    >
+      <X size={14} />
+    </button>
+  );
+
+  const rangeSelector = (
+    <ChartRangeSelector
+      chartId={rangeKey}
+      hint="Scroll or pinch to zoom · drag to pan · shift-drag to zoom all charts to a range"
+    />
+  );
 
   if (isLoading || !isConnected) {
     return (
-      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 h-72">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 h-72 relative">
+        {removeButton}
         <div className="flex items-center justify-center h-full">
           <div className="text-center">
             <div className="animate-pulse">
@@ -240,16 +363,24 @@ const HistoricalChart: React.FC<HistoricalChartProps> = ({
 
   if (data.length === 0) {
     return (
-      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 h-72">
-        <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200 mb-4 font-['Poppins',_'Inter',_'system-ui',_sans-serif]">
-          {title} (Last 4 hours)
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 h-72 relative">
+        {removeButton}
+        <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200 mb-2 font-['Poppins',_'Inter',_'system-ui',_sans-serif]">
+          {title} ({zoom ? describeChartRange({ preset: 'custom', ...zoom }) : describeChartRange(chartRange)})
         </h3>
+        {rangeSelector}
         <div className="flex items-center justify-center h-48">
           <div className="text-center">
-            <p className="text-gray-500 dark:text-gray-400">No data available yet</p>
-            <p className="text-sm text-gray-400 dark:text-gray-500 mt-2">
-              Data will appear as it's collected from sensors
-            </p>
+            {loadError ? (
+              <p className="text-red-600 dark:text-red-400">{loadError}</p>
+            ) : (
+              <>
+                <p className="text-gray-500 dark:text-gray-400">No data available yet</p>
+                <p className="text-sm text-gray-400 dark:text-gray-500 mt-2">
+                  Data will appear as it's collected from sensors
+                </p>
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -258,17 +389,31 @@ const HistoricalChart: React.FC<HistoricalChartProps> = ({
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 transition-all duration-300 hover:shadow-xl relative">
-      <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200 mb-4 font-['Poppins',_'Inter',_'system-ui',_sans-serif]">
-        {title} (Last 4 hours)
+      {removeButton}
+      <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200 mb-2 pr-32 font-['Poppins',_'Inter',_'system-ui',_sans-serif]">
+        {title} ({zoom ? describeChartRange({ preset: 'custom', ...zoom }) : describeChartRange(chartRange)})
       </h3>
+      {rangeSelector}
       
       <div className="absolute top-6 right-6 text-xs text-gray-700 dark:text-gray-300 font-['Poppins',_'Inter',_'system-ui',_sans-serif]">
         <div className="font-medium">Current: {Math.round((data[data.length - 1]?.value || 0) * 100) / 100}{unit}</div>
         <div className="text-gray-500 dark:text-gray-400">Range: {Math.round(minValue * 100) / 100} - {Math.round(maxValue * 100) / 100}{unit}</div>
-        <div className="text-green-600 dark:text-green-400">● Live</div>
+        {optimalRange && (
+          <div className="text-gray-500 dark:text-gray-400">Optimal: {optimalRange.min} - {optimalRange.max}{unit}</div>
+        )}
+        {isLive && <div className="text-green-600 dark:text-green-400">● Live</div>}
       </div>
       
-      <div className="relative h-52">
+      <div
+        ref={plotRef}
+        className={`relative h-52 select-none ${gesture.current?.type === 'pan' ? 'cursor-grabbing' : 'cursor-crosshair'}`}
+        style={{ touchAction: 'none' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={() => setHoverIndex(null)}
+      >
         <svg className="w-full h-full" viewBox="0 0 100 100" preserveAspectRatio="none">
           <defs>
             <pattern id={`grid-${dataType}`} width="5" height="5" patternUnits="userSpaceOnUse">
@@ -332,19 +477,49 @@ const HistoricalChart: React.FC<HistoricalChartProps> = ({
                     fontWeight: 300
                   }}
                 >
-                  {(() => {
-                    const dataIndex = Math.floor((x / 100) * (data.length - 1));
-                    const timestamp = data[dataIndex]?.timestamp;
-                    return timestamp ? new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '';
-                  })()}
+                  {formatChartTime(new Date(rangeFrom + (x / 100) * rangeSpan).toISOString(), rangeSpan)}
                 </text>
               )}
             </g>
           ))}
           
+          {optimalBand && (
+            <g>
+              <rect
+                x="0"
+                y={optimalBand.top}
+                width="100"
+                height={optimalBand.bottom - optimalBand.top}
+                fill={color}
+                opacity="0.1"
+              >
+                <title>{`Optimal range: ${optimalRange?.min} - ${optimalRange?.max}${unit}`}</title>
+              </rect>
+              <line x1="0" y1={optimalBand.top} x2="100" y2={optimalBand.top} stroke={color} strokeWidth="0.2" strokeDasharray="1,1" opacity="0.6" />
+              <line x1="0" y1={optimalBand.bottom} x2="100" y2={optimalBand.bottom} stroke={color} strokeWidth="0.2" strokeDasharray="1,1" opacity="0.6" />
+            </g>
+          )}
+          
+          {commands.map(command => {
+            const marker = ACTUATOR_MARKERS[command.action as ActuatorAction];
+            const x = getXPosition(command.timestamp);
+            const width = Math.max(((command.duration || 0) / rangeSpan) * 100, 0);
+            if (x < 0 || x > 100) return null;
+            return (
+              <g key={command.id}>
+                {width > 0 && (
+                  <rect x={x} y="0" width={Math.min(width, 100 - x)} height="100" fill={marker.color} opacity="0.15" />
+                )}
+                <line x1={x} y1="0" x2={x} y2="100" stroke={marker.color} strokeWidth="0.4" strokeDasharray="2,1">
+                  <title>{`${marker.label} (${command.status})${command.duration ? ` for ${Math.round(command.duration / 1000)}s` : ''} at ${new Date(command.timestamp).toLocaleString()}`}</title>
+                </line>
+              </g>
+            );
+          })}
+          
           {smoothPath && (
             <path
-              d={`${smoothPath} L 100,100 L 0,100 Z`}
+              d={`${smoothPath} L ${getXPosition(data[data.length - 1].timestamp)},100 L ${getXPosition(data[0].timestamp)},100 Z`}
               fill={`url(#gradient-${dataType})`}
               className="transition-all duration-500 ease-in-out"
             />
@@ -365,7 +540,7 @@ const HistoricalChart: React.FC<HistoricalChartProps> = ({
           )}
           
           {data.map((d, i) => {
-            const x = (i / (data.length - 1)) * 100;
+            const x = getXPosition(d.timestamp);
             const y = getYPosition(d.value);
             return (
               <circle
@@ -380,13 +555,74 @@ const HistoricalChart: React.FC<HistoricalChartProps> = ({
                 style={{
                   filter: 'drop-shadow(0 1px 2px rgba(0,0,0,0.2))'
                 }}
-              >
-                <title>{`${Math.round(d.value * 100) / 100}${unit} (avg of ${d.count} readings) at ${new Date(d.timestamp).toLocaleTimeString()}`}</title>
-              </circle>
+              />
             );
           })}
+          
+          {hoverPoint && (
+            <line
+              x1={getXPosition(hoverPoint.timestamp)}
+              y1="0"
+              x2={getXPosition(hoverPoint.timestamp)}
+              y2="100"
+              stroke="currentColor"
+              strokeWidth="0.3"
+              className="text-gray-500 dark:text-gray-400"
+            />
+          )}
+          {hoverPoint && (
+            <line
+              x1="0"
+              y1={getYPosition(hoverPoint.value)}
+              x2="100"
+              y2={getYPosition(hoverPoint.value)}
+              stroke="currentColor"
+              strokeWidth="0.3"
+              className="text-gray-500 dark:text-gray-400"
+            />
+          )}
+          
+          {brush && (
+            <rect
+              x={Math.min(brush.start, brush.end) * 100}
+              y="0"
+              width={Math.abs(brush.end - brush.start) * 100}
+              height="100"
+              fill={color}
+              opacity="0.2"
+            />
+          )}
         </svg>
+        
+        {hoverPoint && (
+          <div
+            className="absolute top-0 pointer-events-none bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md shadow-md px-2 py-1 text-xs text-gray-700 dark:text-gray-200 whitespace-nowrap"
+            style={{
+              left: `${Math.min(Math.max(getXPosition(hoverPoint.timestamp), 0), 100)}%`,
+              transform: getXPosition(hoverPoint.timestamp) > 50 ? 'translateX(calc(-100% - 8px))' : 'translateX(8px)'
+            }}
+          >
+            <div className="font-medium">{Math.round(hoverPoint.value * 100) / 100}{unit}</div>
+            <div className="text-gray-500 dark:text-gray-400">{new Date(hoverPoint.timestamp).toLocaleString()}</div>
+            <div className="text-gray-500 dark:text-gray-400">
+              {hoverPoint.count ?? 1} {(hoverPoint.count ?? 1) === 1 ? 'reading' : 'readings'}
+            </div>
+          </div>
+        )}
       </div>
+      
+      {commands.length > 0 && (
+        <div className="flex flex-wrap gap-3 mt-2 text-xs text-gray-500 dark:text-gray-400">
+          {(Object.keys(ACTUATOR_MARKERS) as ActuatorAction[])
+            .filter(action => commands.some(command => command.action === action))
+            .map(action => (
+              <span key={action} className="flex items-center">
+                <span className="inline-block w-2 h-2 rounded-sm mr-1" style={{ backgroundColor: ACTUATOR_MARKERS[action].color }} />
+                {ACTUATOR_MARKERS[action].label}
+              </span>
+            ))}
+        </div>
+      )}
     </div>
   );
 };
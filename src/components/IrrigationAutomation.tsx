@@ -0,0 +1,97 @@
+import React, { useState, useEffect } from 'react';
+import { Bot } from 'lucide-react';
+import { usePlant } from '../context/PlantContext';
+import arduinoService from '../services/ArduinoService';
+import { IrrigationPhase, IrrigationStatus } from '../types/socket';
+
+interface IrrigationAutomationProps {
+  disabled: boolean;
+}
+
+const PHASE_STYLES: Record<IrrigationPhase, string> = {
+  manual: 'text-gray-500 dark:text-gray-400',
+  idle: 'text-green-600 dark:text-green-400',
+  watering: 'text-blue-600 dark:text-blue-400',
+  soaking: 'text-blue-600 dark:text-blue-400',
+  blocked: 'text-orange-600 dark:text-orange-400',
+  waiting: 'text-gray-500 dark:text-gray-400',
+};
+
+// Auto/Manual switch for the active level's irrigation. In auto the backend
+// waters in pulses whenever moisture drops below the profile's moisture band.
+const IrrigationAutomation: React.FC<IrrigationAutomationProps> = ({ disabled }) => {
+  const { activePlant } = usePlant();
+  const [status, setStatus] = useState<IrrigationStatus | null>(arduinoService.getIrrigationStatus(activePlant.id));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { min: moistureMin, max: moistureMax } = activePlant.optimalConditions.moisture;
+
+  useEffect(() => {
+    setStatus(arduinoService.getIrrigationStatus(activePlant.id));
+    setError(null);
+    return arduinoService.on('irrigation', update => {
+      if (update.plantType === activePlant.id) setStatus(update);
+    });
+  }, [activePlant.id]);
+
+  const handleToggle = async () => {
+    const isAuto = status?.mode === 'auto';
+    setIsSaving(true);
+    const result = await arduinoService.saveIrrigation(
+      activePlant.id,
+      isAuto ? { mode: 'manual' } : { mode: 'auto', moistureMin, moistureMax }
+    );
+    setError(result ? null : `Could not switch irrigation to ${isAuto ? 'manual' : 'auto'}.`);
+    setIsSaving(false);
+  };
+
+  const isAuto = status?.mode === 'auto';
+
+  return (
+    <div className="mt-4 border-t border-gray-200 dark:border-gray-700 pt-4">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-1 text-sm font-medium text-gray-700 dark:text-gray-300">
+          <Bot size={16} />
+          Irrigation
+        </h3>
+        <button
+          onClick={handleToggle}
+          disabled={disabled || isSaving}
+          className={`px-3 py-1 text-xs font-medium rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+            isAuto
+              ? 'bg-green-600 text-white hover:bg-green-700'
+              : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+          }`}
+          aria-pressed={isAuto}
+        >
+          {isAuto ? 'Auto' : 'Manual'}
+        </button>
+      </div>
+
+      {isAuto && status ? (
+        <div className="mt-2 space-y-1 text-xs">
+          <p className={PHASE_STYLES[status.phase]}>
+            <span className="font-semibold capitalize">{status.phase}:</span> {status.message}
+          </p>
+          <p className="text-gray-500 dark:text-gray-400">
+            Moisture {status.moisture !== null ? `${status.moisture}%` : '–'}, band {status.moistureMin}–{status.moistureMax}%, target {status.target}%
+            {status.pulses > 0 && `, ${status.pulses} pulse${status.pulses === 1 ? '' : 's'} this cycle`}
+          </p>
+          {status.phase === 'soaking' && status.nextCheckAt && (
+            <p className="text-gray-500 dark:text-gray-400">
+              Next check at {new Date(status.nextCheckAt).toLocaleTimeString()}
+            </p>
+          )}
+        </div>
+      ) : (
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          Switch to auto to water whenever moisture drops below {moistureMin}%.
+        </p>
+      )}
+
+      {error && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default IrrigationAutomation;
@@ -0,0 +1,212 @@
+import React, { Fragment, useState } from 'react';
+import { usePlant } from '../context/PlantContext';
+import arduinoService from '../services/ArduinoService';
+import { GrowLevel, PlantType, SensorMetric, SensorSource } from '../types';
+import { SaveLevelRequest } from '../types/api';
+import { getMetric } from '../utils/metrics';
+import { SENSOR_METRICS } from '../utils/sensorSources';
+import { ChevronDown, ChevronRight, Plus, Trash2 } from 'lucide-react';
+
+// Next free id of the form levelN
+const nextLevelId = (levels: GrowLevel[]): PlantType => {
+  let index = levels.length + 1;
+  while (levels.some(level => level.id === `level${index}`)) {
+    index++;
+  }
+  return `level${index}`;
+};
+
+// Adds, removes and rewires grow levels in the backend registry
+const LevelRegistryManager: React.FC = () => {
+  const { levels, devices } = usePlant();
+  const [newLevelName, setNewLevelName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [expandedLevel, setExpandedLevel] = useState<PlantType | null>(null);
+
+  const saveLevel = async (plantType: PlantType, changes: SaveLevelRequest) => {
+    const level = await arduinoService.saveLevel(plantType, changes);
+    setError(level ? null : `Could not save ${changes.name || plantType}. Is the backend reachable?`);
+  };
+
+  const handleAddLevel = async () => {
+    const name = newLevelName.trim();
+    if (!name) return;
+    await saveLevel(nextLevelId(levels), { name, sensorDeviceId: null, actuatorDeviceId: null });
+    setNewLevelName('');
+  };
+
+  const handleDeleteLevel = async (level: GrowLevel) => {
+    if (!window.confirm(`Remove ${level.name}? Its recorded history is kept.`)) return;
+    const deleted = await arduinoService.deleteLevel(level.id);
+    setError(deleted ? null : `Could not remove ${level.name}.`);
+  };
+
+  // The whole mapping is sent, as the backend replaces it on save
+  const handleSourceChange = (level: GrowLevel, metric: SensorMetric, changes: Partial<SensorSource>) => {
+    const current = level.sensorSources[metric];
+    const source = {
+      deviceId: current?.deviceId || '',
+      fallbackDeviceId: current?.fallbackDeviceId || null,
+      ...changes,
+    };
+    const sensorSources = { ...level.sensorSources };
+
+    if (source.deviceId) {
+      sensorSources[metric] = source;
+    } else if (source.fallbackDeviceId && level.sensorDeviceId) {
+      // A fallback alone keeps the level's sensor device as primary
+      sensorSources[metric] = { deviceId: level.sensorDeviceId, fallbackDeviceId: source.fallbackDeviceId };
+    } else {
+      delete sensorSources[metric];
+    }
+    saveLevel(level.id, { sensorSources });
+  };
+
+  const deviceOptions = devices.map(device => (
+    <option key={device.id} value={device.id}>
+      {device.name === device.id ? device.id : `${device.name} (${device.id})`}
+    </option>
+  ));
+
+  const selectClassName = 'w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white';
+
+  const deviceSelect = (level: GrowLevel, field: 'sensorDeviceId' | 'actuatorDeviceId') => (
+    <select
+      value={level[field] || ''}
+      onChange={(e) => saveLevel(level.id, { [field]: e.target.value || null })}
+      className={selectClassName}
+    >
+      <option value="">Unassigned</option>
+      {deviceOptions}
+    </select>
+  );
+
+  // Per-metric source and fallback device of one level
+  const sourcesEditor = (level: GrowLevel) => (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-x-3 gap-y-2 items-center pb-3">
+      <span className="text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">Metric</span>
+      <span className="hidden sm:block text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">Source device</span>
+      <span className="hidden sm:block text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">Fallback device</span>
+      {SENSOR_METRICS.map(metric => {
+        const source = level.sensorSources[metric];
+        return (
+          <Fragment key={metric}>
+            <span className="text-gray-700 dark:text-gray-300">{getMetric(metric).label}</span>
+            <select
+              value={source?.deviceId || ''}
+              onChange={(e) => handleSourceChange(level, metric, { deviceId: e.target.value })}
+              className={selectClassName}
+            >
+              <option value="">Sensor device{level.sensorDeviceId ? ` (${level.sensorDeviceId})` : ''}</option>
+              {deviceOptions}
+            </select>
+            <select
+              value={source?.fallbackDeviceId || ''}
+              onChange={(e) => handleSourceChange(level, metric, { fallbackDeviceId: e.target.value || null })}
+              className={selectClassName}
+            >
+              <option value="">No fallback</option>
+              {deviceOptions}
+            </select>
+          </Fragment>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="mb-6 border border-gray-200 dark:border-gray-700 rounded-lg p-6">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Levels &amp; Devices</h3>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        Choose which device reports each level's soil readings and which device receives its pump and light commands.
+        Expand a level to take single metrics, such as air temperature or a tank level, from another device, with an
+        optional fallback used while that device is silent. New boards appear here after they first report to the backend.
+      </p>
+
+      {error && (
+        <p className="mb-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">
+              <th className="pb-2 pr-3">Level</th>
+              <th className="pb-2 pr-3">Sensor device</th>
+              <th className="pb-2 pr-3">Actuator device</th>
+              <th className="pb-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {levels.map(level => (
+              <Fragment key={level.id}>
+                <tr className="border-t border-gray-100 dark:border-gray-700">
+                  <td className="py-2 pr-3">
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => setExpandedLevel(expandedLevel === level.id ? null : level.id)}
+                        className="flex-shrink-0 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                        title="Sensor sources"
+                        aria-expanded={expandedLevel === level.id}
+                      >
+                        {expandedLevel === level.id ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                      </button>
+                      <input
+                        type="text"
+                        defaultValue={level.name}
+                        onBlur={(e) => {
+                          const name = e.target.value.trim();
+                          if (name && name !== level.name) saveLevel(level.id, { name });
+                        }}
+                        className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white"
+                      />
+                    </div>
+                    <span className="text-xs text-gray-400 dark:text-gray-500">{level.id}</span>
+                  </td>
+                  <td className="py-2 pr-3">{deviceSelect(level, 'sensorDeviceId')}</td>
+                  <td className="py-2 pr-3">{deviceSelect(level, 'actuatorDeviceId')}</td>
+                  <td className="py-2 text-right">
+                    <button
+                      onClick={() => handleDeleteLevel(level)}
+                      disabled={levels.length <= 1}
+                      className="p-1 text-gray-400 hover:text-red-600 rounded disabled:opacity-40 disabled:cursor-not-allowed"
+                      title="Remove level"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+                {expandedLevel === level.id && (
+                  <tr>
+                    <td colSpan={4}>{sourcesEditor(level)}</td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center gap-2 mt-4">
+        <input
+          type="text"
+          value={newLevelName}
+          onChange={(e) => setNewLevelName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAddLevel()}
+          placeholder="New level name, e.g. Level 3"
+          className="flex-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+        />
+        <button
+          onClick={handleAddLevel}
+          disabled={!newLevelName.trim()}
+          className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Plus size={16} />
+          Add Level
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LevelRegistryManager;
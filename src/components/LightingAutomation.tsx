@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import { SunMoon } from 'lucide-react';
+import { usePlant } from '../context/PlantContext';
+import { useLightingStatus } from '../hooks/useLightingStatus';
+import arduinoService from '../services/ArduinoService';
+import { LightingPhase } from '../types/socket';
+
+interface LightingAutomationProps {
+  disabled: boolean;
+}
+
+const PHASE_STYLES: Record<LightingPhase, string> = {
+  manual: 'text-gray-500 dark:text-gray-400',
+  lit: 'text-yellow-600 dark:text-yellow-400',
+  daylight: 'text-green-600 dark:text-green-400',
+  night: 'text-indigo-600 dark:text-indigo-400',
+  extending: 'text-yellow-600 dark:text-yellow-400',
+  blocked: 'text-orange-600 dark:text-orange-400',
+  waiting: 'text-gray-500 dark:text-gray-400',
+};
+
+// Auto/Manual switch and photoperiod of the active level's grow light. In
+// auto the backend keeps the light off at night and during the photoperiod
+// switches it whenever lux falls below the profile's sunlight minimum.
+const LightingAutomation: React.FC<LightingAutomationProps> = ({ disabled }) => {
+  const { activePlant } = usePlant();
+  const status = useLightingStatus(activePlant.id);
+  const [lightsOnAt, setLightsOnAt] = useState('06:00');
+  const [hoursInput, setHoursInput] = useState('16');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const luxMin = activePlant.optimalConditions.sunlight.min;
+
+  useEffect(() => {
+    setError(null);
+  }, [activePlant.id]);
+
+  // Photoperiod inputs follow the backend until edited
+  const savedLightsOnAt = status?.lightsOnAt;
+  const savedHours = status?.photoperiodHours;
+  useEffect(() => {
+    if (savedLightsOnAt === undefined || savedHours === undefined) return;
+    setLightsOnAt(savedLightsOnAt);
+    setHoursInput(String(savedHours));
+  }, [savedLightsOnAt, savedHours]);
+
+  const handleToggle = async () => {
+    const isAuto = status?.mode === 'auto';
+    setIsSaving(true);
+    const result = await arduinoService.saveLighting(
+      activePlant.id,
+      isAuto ? { mode: 'manual' } : { mode: 'auto', luxMin, targetDli: activePlant.targetDli ?? null }
+    );
+    setError(result ? null : `Could not switch the grow light to ${isAuto ? 'manual' : 'auto'}.`);
+    setIsSaving(false);
+  };
+
+  const handleSavePhotoperiod = async () => {
+    const photoperiodHours = parseFloat(hoursInput);
+    if (isNaN(photoperiodHours) || photoperiodHours < 0 || photoperiodHours > 24) {
+      setError('Light hours must be between 0 and 24.');
+      return;
+    }
+    setIsSaving(true);
+    const result = await arduinoService.saveLighting(activePlant.id, { lightsOnAt, photoperiodHours });
+    setError(result ? null : 'Could not save the photoperiod.');
+    setIsSaving(false);
+  };
+
+  const isAuto = status?.mode === 'auto';
+  const isChanged = status !== null &&
+    (lightsOnAt !== status.lightsOnAt || parseFloat(hoursInput) !== status.photoperiodHours);
+  const inputClassName = 'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white';
+
+  return (
+    <div className="mt-4 border-t border-gray-200 dark:border-gray-700 pt-4">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-1 text-sm font-medium text-gray-700 dark:text-gray-300">
+          <SunMoon size={16} />
+          Grow light
+        </h3>
+        <button
+          onClick={handleToggle}
+          disabled={disabled || isSaving}
+          className={`px-3 py-1 text-xs font-medium rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+            isAuto
+              ? 'bg-green-600 text-white hover:bg-green-700'
+              : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+          }`}
+          aria-pressed={isAuto}
+        >
+          {isAuto ? 'Auto' : 'Manual'}
+        </button>
+      </div>
+
+      <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+        <span>On at</span>
+        <input
+          type="time"
+          value={lightsOnAt}
+          onChange={(e) => setLightsOnAt(e.target.value)}
+          className={inputClassName}
+        />
+        <span>for</span>
+        <input
+          type="number"
+          min="0"
+          max="24"
+          step="0.5"
+          value={hoursInput}
+          onChange={(e) => setHoursInput(e.target.value)}
+          className={`w-16 ${inputClassName}`}
+        />
+        <span>h</span>
+        {isChanged && (
+          <button
+            onClick={handleSavePhotoperiod}
+            disabled={disabled || isSaving}
+            className="text-xs text-green-600 dark:text-green-400 hover:underline disabled:opacity-50"
+          >
+            Save
+          </button>
+        )}
+      </div>
+
+      {isAuto && status ? (
+        <div className="mt-2 space-y-1 text-xs">
+          <p className={PHASE_STYLES[status.phase]}>
+            <span className="font-semibold capitalize">{status.phase}:</span> {status.message}
+          </p>
+          <p className="text-gray-500 dark:text-gray-400">
+            Light {status.lux !== null ? `${status.lux} lux` : '–'}, on below {status.luxMin} lux, off from {status.luxOff} lux
+            {status.nextChangeAt && `, ${status.inPhotoperiod ? 'night' : 'photoperiod'} from ${new Date(status.nextChangeAt).toLocaleTimeString()}`}
+          </p>
+        </div>
+      ) : (
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          Switch to auto to light the plant whenever it gets less than {luxMin} lux during the photoperiod.
+        </p>
+      )}
+
+      {error && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default LightingAutomation;
@@ -0,0 +1,204 @@
+import React, { useState, useEffect } from 'react';
+import { Sprout } from 'lucide-react';
+import { useEmergencyStop } from '../hooks/useEmergencyStop';
+import arduinoService from '../services/ArduinoService';
+import { Plant } from '../types';
+import { NutrientDose, NutrientName, NutrientPlan, NutrientPlanPhase } from '../types/socket';
+
+interface NutrientPlannerProps {
+  plant: Plant;
+  onDose: (ml: number) => Promise<boolean>;
+  disabled: boolean;
+}
+
+const NUTRIENT_LABELS: Record<NutrientName, string> = {
+  nitrogen: 'N',
+  phosphorus: 'P',
+  potassium: 'K',
+};
+
+const NUTRIENT_NAMES = Object.keys(NUTRIENT_LABELS) as NutrientName[];
+
+const PHASE_STYLES: Record<NutrientPlanPhase, string> = {
+  ok: 'text-green-600 dark:text-green-400',
+  due: 'text-orange-600 dark:text-orange-400',
+  dosing: 'text-blue-600 dark:text-blue-400',
+  interval: 'text-gray-600 dark:text-gray-300',
+  blocked: 'text-red-600 dark:text-red-400',
+  waiting: 'text-gray-500 dark:text-gray-400',
+};
+
+const formatChange = (change: number | null) =>
+  change === null ? '–' : `${change > 0 ? '+' : ''}${change}`;
+
+// NPK readings against the profile's targets, the planner's recommended
+// fertilizer dose and how recent doses moved the readings once settled
+const NutrientPlanner: React.FC<NutrientPlannerProps> = ({ plant, onDose, disabled }) => {
+  const [plan, setPlan] = useState<NutrientPlan | null>(arduinoService.getNutrientPlan(plant.id));
+  const [doses, setDoses] = useState<NutrientDose[]>([]);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const emergencyStop = useEmergencyStop();
+  const { nitrogen, phosphorus, potassium } = plant.optimalConditions;
+
+  useEffect(() => {
+    setPlan(arduinoService.getNutrientPlan(plant.id));
+    setError(null);
+    setDoses([]);
+
+    let cancelled = false;
+    arduinoService.getNutrientDoses(plant.id).then(result => {
+      if (!cancelled && result) setDoses(result);
+    });
+
+    const unsubscribePlan = arduinoService.on('nutrientPlan', update => {
+      if (update.plantType === plant.id) setPlan(update);
+    });
+    // A dose is reported once completed and again once its effect is measured
+    const unsubscribeDose = arduinoService.on('nutrientDose', dose => {
+      if (dose.plantType !== plant.id) return;
+      setDoses(prev => [dose, ...prev.filter(candidate => candidate.commandId !== dose.commandId)]
+        .sort((a, b) => b.dosedAt.localeCompare(a.dosedAt))
+        .slice(0, 10));
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribePlan();
+      unsubscribeDose();
+    };
+  }, [plant.id]);
+
+  const handleToggle = async () => {
+    const isAuto = plan?.mode === 'auto';
+    setIsSending(true);
+    const result = await arduinoService.saveNutrientSettings(
+      plant.id,
+      isAuto ? { mode: 'manual' } : {
+        mode: 'auto',
+        targets: {
+          nitrogen: { min: nitrogen.min, max: nitrogen.max },
+          phosphorus: { min: phosphorus.min, max: phosphorus.max },
+          potassium: { min: potassium.min, max: potassium.max },
+        },
+      }
+    );
+    setError(result ? null : `Could not switch the planner to ${isAuto ? 'manual' : 'auto'}.`);
+    setIsSending(false);
+  };
+
+  const handleDose = async () => {
+    if (!plan?.recommendedMl) return;
+    setIsSending(true);
+    const sent = await onDose(plan.recommendedMl);
+    setError(sent ? null : 'The dose could not be sent.');
+    setIsSending(false);
+  };
+
+  const isAuto = plan?.mode === 'auto';
+  const canDose = !isAuto && plan?.recommendedMl != null && (plan.phase === 'due' || plan.phase === 'interval');
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="flex items-center gap-2 text-xl font-semibold text-gray-900 dark:text-white">
+          <Sprout size={22} className="text-green-500" />
+          Nutrient Planner
+        </h2>
+        <button
+          onClick={handleToggle}
+          disabled={!plan || isSending}
+          className={`px-3 py-1 text-xs font-medium rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+            isAuto
+              ? 'bg-green-600 text-white hover:bg-green-700'
+              : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+          }`}
+          aria-pressed={isAuto}
+        >
+          {isAuto ? 'Auto' : 'Manual'}
+        </button>
+      </div>
+
+      {!plan ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Waiting for the backend...</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-3 mb-3">
+            {NUTRIENT_NAMES.map(name => {
+              const nutrient = plan.nutrients[name];
+              const isLow = nutrient.value !== null && nutrient.value < nutrient.min;
+              const isHigh = nutrient.value !== null && nutrient.value > nutrient.max;
+              return (
+                <div key={name} className="bg-gray-50 dark:bg-gray-700 rounded-lg p-3 text-center">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">{NUTRIENT_LABELS[name]}</div>
+                  <div className={`text-lg font-bold ${isLow ? 'text-orange-600 dark:text-orange-400' : isHigh ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                    {nutrient.value !== null ? Math.round(nutrient.value) : '–'}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {nutrient.min}–{nutrient.max} mg/kg
+                  </div>
+                  {isLow && nutrient.deficit !== null && (
+                    <div className="text-xs text-orange-600 dark:text-orange-400">−{nutrient.deficit} to target</div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <p className={`text-sm ${PHASE_STYLES[plan.phase]}`}>{plan.message}</p>
+          {plan.nextDoseAt && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Next dose allowed at {new Date(plan.nextDoseAt).toLocaleString()}
+            </p>
+          )}
+
+          {canDose && (
+            <button
+              onClick={handleDose}
+              disabled={disabled || isSending || emergencyStop.engaged}
+              className="mt-3 px-3 py-1.5 text-sm bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSending ? 'Dosing...' : `Dose ${plan.recommendedMl} ml now`}
+            </button>
+          )}
+        </>
+      )}
+
+      {error && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="mt-4 border-t border-gray-200 dark:border-gray-700 pt-4">
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Recent doses</h3>
+        {doses.length === 0 ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400">No fertilizer doses recorded yet.</p>
+        ) : (
+          <table className="w-full text-xs text-gray-600 dark:text-gray-300">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="font-medium py-1">When</th>
+                <th className="font-medium py-1">Dose</th>
+                {NUTRIENT_NAMES.map(name => (
+                  <th key={name} className="font-medium py-1 text-right">Δ{NUTRIENT_LABELS[name]}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {doses.map(dose => (
+                <tr key={dose.commandId} className="border-t border-gray-100 dark:border-gray-700">
+                  <td className="py-1">{new Date(dose.dosedAt).toLocaleString()}</td>
+                  <td className="py-1">{dose.doseMl} ml{dose.issuedBy === 'automation' ? ' (auto)' : ''}</td>
+                  {dose.change ? NUTRIENT_NAMES.map(name => (
+                    <td key={name} className="py-1 text-right">{formatChange(dose.change![name])}</td>
+                  )) : (
+                    <td colSpan={3} className="py-1 text-right text-gray-400">settling...</td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NutrientPlanner;
@@ -1,8 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { SensorData, Plant } from '../types';
+import { SensorData, Plant, HistoryUpdate } from '../types';
 import { Download, FileText, Clock, Calendar } from 'lucide-react';
 import arduinoService from '../services/ArduinoService';
 
+// Live readings refresh the report preview at most this often
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
 interface PDFReportGeneratorProps {
   plant: Plant;
   sensorData: SensorData | null;
@@ -18,7 +21,7 @@ const PDFReportGenerator: React.FC<PDFReportGeneratorProps> = ({
   useEffect(() => {
     const fetchAllData = async () => {
       try {
-        const historicalData = await arduinoService.getHistoricalData();
+        const historicalData = await arduinoService.getHistoricalData({ plantType: plant.id });
         setAllData(historicalData);
       } catch (error) {
         console.error('Failed to fetch historical data:', error);
@@ -27,29 +30,39 @@ const PDFReportGenerator: React.FC<PDFReportGeneratorProps> = ({
 
     fetchAllData();
 
-    // Update data when new sensor data comes in
-    const handleDataUpdate = (newData: SensorData) => {
-      setAllData(prev => [...prev, newData].slice(-100)); // Keep last 100 records
+    // Keep the report data in sync with backfilled and live readings. Reading
+    // back the whole cache is costly, so a burst of readings reads it once.
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+    const handleHistory = (update: HistoryUpdate) => {
+      if (update.plantType !== plant.id || refreshTimer) return;
+      refreshTimer = setTimeout(() => {
+        refreshTimer = undefined;
+        fetchAllData();
+      }, REFRESH_INTERVAL_MS);
     };
 
-    arduinoService.on('data', handleDataUpdate);
+    const unsubscribe = arduinoService.on('history', handleHistory);
 
     return () => {
-      arduinoService.off('data', handleDataUpdate);
+      clearTimeout(refreshTimer);
+      unsubscribe();
     };
-  }, []);
+  }, [plant.id]);
   
   const calculateTimeRange = () => {
     if (!allData || allData.length === 0) return null;
     
-    const timestamps = allData
-      .map(data => data?.timestamp ? new Date(data.timestamp).getTime() : 0)
-      .filter(Boolean);
+    // A loop rather than Math.min(...), which overflows the stack on a week of readings
+    let minTime = Infinity;
+    let maxTime = -Infinity;
+    allData.forEach(data => {
+      const time = data?.timestamp ? new Date(data.timestamp).getTime() : 0;
+      if (!time) return;
+      minTime = Math.min(minTime, time);
+      maxTime = Math.max(maxTime, time);
+    });
     
-    if (timestamps.length === 0) return null;
-
-    const minTime = Math.min(...timestamps);
-    const maxTime = Math.max(...timestamps);
+    if (minTime === Infinity) return null;
     
     return {
       start: new Date(minTime),
@@ -78,8 +91,8 @@ const PDFReportGenerator: React.FC<PDFReportGeneratorProps> = ({
     const validValues = values.filter(v => typeof v === 'number' && !isNaN(v));
     if (validValues.length === 0) return { min: 0, max: 0, avg: 0 };
     
-    const min = Math.min(...validValues);
-    const max = Math.max(...validValues);
+    const min = validValues.reduce((lowest, val) => Math.min(lowest, val), Infinity);
+    const max = validValues.reduce((highest, val) => Math.max(highest, val), -Infinity);
     const avg = validValues.reduce((sum, val) => sum + val, 0) / validValues.length;
     return { min, max, avg };
   };
@@ -344,7 +357,7 @@ const PDFReportGenerator: React.FC<PDFReportGeneratorProps> = ({
     <div class="header">
         <h1>🌱 Smart Agriculture Report</h1>
         <p><strong>Plant:</strong> ${plant?.name || 'Unknown Plant'}</p>
-        <p><strong>Device:</strong> ${plant?.id === 'level1' ? 'ESP32_1' : 'ESP32_2'}</p>
+        <p><strong>Device:</strong> ${sensorData?.deviceId?.toUpperCase() || 'N/A'}</p>
         <p><strong>Generated:</strong> ${reportDate} at ${reportTime}</p>
         
         <div class="time-range">
@@ -1,36 +1,90 @@
 import React, { useState } from 'react';
 import { usePlant } from '../context/PlantContext';
+import LevelRegistryManager from './LevelRegistryManager';
+import arduinoService from '../services/ArduinoService';
 import { Plant } from '../types';
+import { SaveLightingRequest } from '../types/api';
+import { NutrientName } from '../types/socket';
 import { Edit3, Save, X, Upload } from 'lucide-react';
 
+const NUTRIENT_NAMES: NutrientName[] = ['nitrogen', 'phosphorus', 'potassium'];
+
 interface PlantManagerProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
 const PlantManager: React.FC<PlantManagerProps> = ({ isOpen, onClose }) => {
-  const { plantOptions, updatePlant } = usePlant();
+  const { plantOptions, updatePlant, levels } = usePlant();
   const [editingPlant, setEditingPlant] = useState<string | null>(null);
   const [editForm, setEditForm] = useState<Partial<Plant>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   if (!isOpen) return null;
 
   const handleEditStart = (plant: Plant) => {
     setEditingPlant(plant.id);
     setEditForm(plant);
+    setError(null);
   };
 
-  const handleEditSave = () => {
+  // The backend's automation settings follow the profile only when it is saved
+  // here, so browsers holding different profiles never overwrite each other.
+  // Returns what the backend did not accept, or null once it accepted it all.
+  const pushAutomationSettings = async (previous: Plant, edited: Plant): Promise<string | null> => {
+    const { moisture, sunlight, nitrogen, phosphorus, potassium } = edited.optimalConditions;
+    if (moisture.min !== previous.optimalConditions.moisture.min || moisture.max !== previous.optimalConditions.moisture.max) {
+      const saved = await arduinoService.saveIrrigation(edited.id, { moistureMin: moisture.min, moistureMax: moisture.max });
+      if (!saved) return 'the moisture band';
+    }
+
+    // The DLI target is tracked in manual mode too
+    const lighting: SaveLightingRequest = {};
+    if (sunlight.min !== previous.optimalConditions.sunlight.min) lighting.luxMin = sunlight.min;
+    if (edited.targetDli !== previous.targetDli) lighting.targetDli = edited.targetDli ?? null;
+    if (Object.keys(lighting).length > 0 && !await arduinoService.saveLighting(edited.id, lighting)) {
+      return 'the light settings';
+    }
+
+    const targetsChanged = NUTRIENT_NAMES.some(name =>
+      edited.optimalConditions[name].min !== previous.optimalConditions[name].min ||
+      edited.optimalConditions[name].max !== previous.optimalConditions[name].max
+    );
+    if (targetsChanged) {
+      const saved = await arduinoService.saveNutrientSettings(edited.id, {
+        targets: {
+          nitrogen: { min: nitrogen.min, max: nitrogen.max },
+          phosphorus: { min: phosphorus.min, max: phosphorus.max },
+          potassium: { min: potassium.min, max: potassium.max },
+        },
+      });
+      if (!saved) return 'the NPK targets';
+    }
+    return null;
+  };
+
+  const handleEditSave = async () => {
     if (editingPlant && editForm) {
+      const previous = plantOptions.find(plant => plant.id === editingPlant);
+      setIsSaving(true);
+      const refused = previous ? await pushAutomationSettings(previous, editForm as Plant) : null;
+      setIsSaving(false);
+      if (refused) {
+        setError(`The backend did not accept ${refused}, so the profile was not saved.`);
+        return;
+      }
       updatePlant(editingPlant, editForm as Plant);
       setEditingPlant(null);
       setEditForm({});
+      setError(null);
     }
   };
 
   const handleEditCancel = () => {
     setEditingPlant(null);
     setEditForm({});
+    setError(null);
   };
 
   return (
@@ -49,11 +103,13 @@ const PlantManager: React.FC<PlantManagerProps> = ({ isOpen, onClose }) => {
         <div className="p-6">
           <div className="mb-4 p-4 bg-blue-50 dark:bg-blue-900/30 rounded-lg">
             <p className="text-sm text-blue-800 dark:text-blue-300">
-              <strong>Note:</strong> You have two fixed levels in your smart agriculture system. 
+              <strong>Note:</strong> Levels and their devices are stored by the backend and can be added below.
               You can edit the plant names, images, water usage, and optimal growing conditions for each level.
             </p>
           </div>
 
+          <LevelRegistryManager />
+
           {/* Plants List */}
           <div className="space-y-6">
             {plantOptions.map((plant) => (
@@ -88,6 +144,23 @@ const PlantManager: React.FC<PlantManagerProps> = ({ isOpen, onClose }) => {
                           min="0"
                         />
                       </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                          Target DLI (mol/m²/day)
+                        </label>
+                        <input
+                          type="number"
+                          value={editForm.targetDli ?? ''}
+                          onChange={(e) => setEditForm(prev => ({
+                            ...prev,
+                            targetDli: e.target.value === '' ? undefined : Number(e.target.value)
+                          }))}
+                          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+                          placeholder="No target"
+                          step="0.5"
+                          min="0"
+                        />
+                      </div>
                     </div>
 
                     {/* Plant Image */}
@@ -168,13 +241,16 @@ const PlantManager: React.FC<PlantManagerProps> = ({ isOpen, onClose }) => {
                       </div>
                     </div>
 
+                    {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
                     <div className="flex gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
                       <button
                         onClick={handleEditSave}
-                        className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                        disabled={isSaving}
+                        className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                       >
                         <Save size={16} />
-                        Save Changes
+                        {isSaving ? 'Saving...' : 'Save Changes'}
                       </button>
                       <button
                         onClick={handleEditCancel}
@@ -201,7 +277,10 @@ const PlantManager: React.FC<PlantManagerProps> = ({ isOpen, onClose }) => {
                           Water usage: {plant.waterUsagePerDay || 0} L/day
                         </p>
                         <p className="text-sm text-gray-500 dark:text-gray-400">
-                          Device: {plant.id === 'level1' ? 'esp32_1' : 'esp32_2'}
+                          Target DLI: {plant.targetDli !== undefined ? `${plant.targetDli} mol/m²/day` : 'none'}
+                        </p>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                          Device: {levels.find(level => level.id === plant.id)?.sensorDeviceId || 'unassigned'}
                         </p>
                       </div>
                     </div>
@@ -27,7 +27,7 @@ const ReservoirStatus: React.FC<ReservoirStatusProps> = ({ levels }) => {
         {/* Water Reservoir */}
         <div className="flex flex-col items-center">
           <div className="mb-2 text-sm font-medium text-gray-600 dark:text-gray-400">
-            Water Level (esp32_1)
+            Water Level
           </div>
           <div className="relative flex items-center justify-center h-36 w-36">
             <svg className="w-full h-full -rotate-90" viewBox="0 0 120 120">
@@ -81,7 +81,7 @@ const ReservoirStatus: React.FC<ReservoirStatusProps> = ({ levels }) => {
         {/* Fertilizer Reservoir */}
         <div className="flex flex-col items-center">
           <div className="mb-2 text-sm font-medium text-gray-600 dark:text-gray-400">
-            Fertilizer Level (esp32_2)
+            Fertilizer Level
           </div>
           <div className="relative flex items-center justify-center h-36 w-36">
             <svg className="w-full h-full -rotate-90" viewBox="0 0 120 120">
@@ -0,0 +1,259 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { CalendarClock, Pause, Play, Plus, Trash2 } from 'lucide-react';
+import arduinoService from '../services/ArduinoService';
+import { Plant } from '../types';
+import { SaveScheduleRequest } from '../types/api';
+import { ScheduledJob, ScheduleOccurrence, ScheduleRun, ScheduleRunStatus, SchedulesPayload } from '../types/socket';
+import { WEEKDAYS, describeDays, describeDose } from '../utils/schedules';
+import ScheduleJobForm from './ScheduleJobForm';
+
+interface ScheduleCalendarProps {
+  plant: Plant;
+  disabled: boolean;
+}
+
+const CALENDAR_DAYS = 7;
+
+const RUN_STATUS_STYLES: Record<ScheduleRunStatus, string> = {
+  pending: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300',
+  completed: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  timeout: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  cancelled: 'bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300',
+  refused: 'bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300',
+  skipped: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+  missed: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Start of each of the next `count` days, today first
+const getCalendarDays = (count: number) => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return Array.from({ length: count }, (_, index) => {
+    const day = new Date(today);
+    day.setDate(today.getDate() + index);
+    return day;
+  });
+};
+
+// Recurring jobs of the active level on a week calendar. Occurrences can be
+// skipped one at a time and jobs paused as a whole; the run history shows
+// whether each occurrence actually ran.
+const ScheduleCalendar: React.FC<ScheduleCalendarProps> = ({ plant, disabled }) => {
+  const [schedules, setSchedules] = useState<SchedulesPayload | null>(null);
+  const [runs, setRuns] = useState<ScheduleRun[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSchedules = useCallback(async () => {
+    const result = await arduinoService.getSchedules(plant.id, CALENDAR_DAYS);
+    if (result) setSchedules(result);
+  }, [plant.id]);
+
+  useEffect(() => {
+    setSchedules(null);
+    setRuns([]);
+    setError(null);
+    setIsAdding(false);
+
+    let cancelled = false;
+    arduinoService.getSchedules(plant.id, CALENDAR_DAYS).then(result => {
+      if (!cancelled && result) setSchedules(result);
+    });
+    arduinoService.getScheduleRuns(plant.id).then(result => {
+      if (!cancelled && result) setRuns(result);
+    });
+
+    const unsubscribeSchedules = arduinoService.on('schedules', update => {
+      if (update.plantType === plant.id) setSchedules(update);
+    });
+    // A run is reported when its occurrence comes round and again once its command settles
+    const unsubscribeRun = arduinoService.on('scheduleRun', run => {
+      if (run.plantType !== plant.id) return;
+      setRuns(prev => [run, ...prev.filter(candidate => candidate.id !== run.id)]
+        .sort((a, b) => b.occurrenceAt.localeCompare(a.occurrenceAt) || b.id - a.id)
+        .slice(0, 10));
+      loadSchedules();
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribeSchedules();
+      unsubscribeRun();
+    };
+  }, [plant.id, loadSchedules]);
+
+  const handleCreate = async (job: SaveScheduleRequest) => {
+    const created = await arduinoService.saveSchedule(plant.id, job);
+    if (created) {
+      setIsAdding(false);
+      await loadSchedules();
+    }
+    return created !== null;
+  };
+
+  const handleTogglePaused = async (job: ScheduledJob) => {
+    setBusyId(job.id);
+    const saved = await arduinoService.saveSchedule(plant.id, { paused: !job.paused }, job.id);
+    setError(saved ? null : `Could not ${job.paused ? 'resume' : 'pause'} ${job.label}.`);
+    if (saved) await loadSchedules();
+    setBusyId(null);
+  };
+
+  const handleDelete = async (job: ScheduledJob) => {
+    if (!window.confirm(`Delete the scheduled job "${job.label}"?`)) return;
+    setBusyId(job.id);
+    const deleted = await arduinoService.deleteSchedule(plant.id, job.id);
+    setError(deleted ? null : `Could not delete ${job.label}.`);
+    setBusyId(null);
+  };
+
+  const handleToggleSkipped = async (occurrence: ScheduleOccurrence) => {
+    const key = `${occurrence.jobId}@${occurrence.occurrenceAt}`;
+    setBusyId(key);
+    const saved = await arduinoService.skipOccurrence(plant.id, occurrence.jobId, occurrence.occurrenceAt, !occurrence.skipped);
+    setError(saved ? null : `Could not ${occurrence.skipped ? 'restore' : 'skip'} ${occurrence.label}.`);
+    if (saved) await loadSchedules();
+    setBusyId(null);
+  };
+
+  const now = Date.now();
+  const calendarDays = getCalendarDays(CALENDAR_DAYS);
+  const occurrencesOn = (day: Date) => {
+    const end = new Date(day);
+    end.setDate(day.getDate() + 1);
+    return (schedules?.occurrences ?? []).filter(occurrence => {
+      const time = Date.parse(occurrence.occurrenceAt);
+      return time > now && time >= day.getTime() && time < end.getTime();
+    });
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="flex items-center gap-2 text-xl font-semibold text-gray-900 dark:text-white">
+          <CalendarClock size={22} className="text-green-500" />
+          Schedule
+        </h2>
+        {!isAdding && (
+          <button
+            onClick={() => setIsAdding(true)}
+            disabled={disabled}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus size={16} />
+            New job
+          </button>
+        )}
+      </div>
+
+      {isAdding && (
+        <ScheduleJobForm onSave={handleCreate} onCancel={() => setIsAdding(false)} disabled={disabled} />
+      )}
+
+      {!schedules ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Waiting for the backend...</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-7 gap-2 mb-4">
+            {calendarDays.map((day, index) => (
+              <div key={day.toISOString()} className="min-h-[5rem] rounded-lg bg-gray-50 dark:bg-gray-700 p-2">
+                <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+                  {index === 0 ? 'Today' : `${WEEKDAYS[day.getDay()]} ${day.getDate()}`}
+                </div>
+                <div className="space-y-1">
+                  {occurrencesOn(day).map(occurrence => {
+                    const key = `${occurrence.jobId}@${occurrence.occurrenceAt}`;
+                    return (
+                      <button
+                        key={key}
+                        onClick={() => handleToggleSkipped(occurrence)}
+                        disabled={disabled || occurrence.paused || busyId === key}
+                        title={occurrence.paused ? 'Job paused' : occurrence.skipped ? 'Click to run after all' : 'Click to skip'}
+                        className={`w-full text-left px-1.5 py-1 rounded text-xs transition-colors disabled:cursor-not-allowed ${
+                          occurrence.paused
+                            ? 'bg-gray-100 dark:bg-gray-600 text-gray-400 dark:text-gray-500'
+                            : occurrence.skipped
+                            ? 'bg-gray-100 dark:bg-gray-600 text-gray-400 dark:text-gray-500 line-through'
+                            : 'bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-200 hover:bg-green-200 dark:hover:bg-green-900/60'
+                        }`}
+                      >
+                        <span className="font-semibold">{formatTime(occurrence.occurrenceAt)}</span> {occurrence.label}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {schedules.jobs.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No jobs yet. Add one to water, light or feed this level at a fixed time.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+              {schedules.jobs.map(job => (
+                <li key={job.id} className="flex items-center justify-between py-2">
+                  <div className={job.paused ? 'opacity-60' : ''}>
+                    <div className="text-sm font-medium text-gray-900 dark:text-white">{job.label}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {job.time} · {describeDays(job.days)}{job.dose && ` · ${describeDose(job.dose)}`}
+                      {job.paused && ' · paused'}
+                      {job.skips.length > 0 && ` · ${job.skips.length} skipped`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => handleTogglePaused(job)}
+                      disabled={disabled || busyId === job.id}
+                      className="p-1.5 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 disabled:opacity-50"
+                      aria-label={job.paused ? `Resume ${job.label}` : `Pause ${job.label}`}
+                      title={job.paused ? 'Resume' : 'Pause'}
+                    >
+                      {job.paused ? <Play size={16} /> : <Pause size={16} />}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(job)}
+                      disabled={disabled || busyId === job.id}
+                      className="p-1.5 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 disabled:opacity-50"
+                      aria-label={`Delete ${job.label}`}
+                      title="Delete"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+
+      {error && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="mt-4 border-t border-gray-200 dark:border-gray-700 pt-4">
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Recent runs</h3>
+        {runs.length === 0 ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400">No scheduled job has come round yet.</p>
+        ) : (
+          <ul className="space-y-1">
+            {runs.map(run => (
+              <li key={run.id} className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300">
+                <span className={`px-1.5 py-0.5 rounded font-medium ${RUN_STATUS_STYLES[run.status]}`}>{run.status}</span>
+                <span>{new Date(run.occurrenceAt).toLocaleString()}</span>
+                <span className="font-medium">{run.label}</span>
+                {run.message && <span className="text-gray-400 truncate">{run.message}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleCalendar;
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { ControlAction } from '../types';
+import { SaveScheduleRequest } from '../types/api';
+import { CONTROL_ACTION_LABELS } from '../utils/controls';
+import { WEEKDAYS } from '../utils/schedules';
+
+type DoseUnit = 's' | 'ml';
+
+interface ScheduleJobFormProps {
+  onSave: (job: SaveScheduleRequest) => Promise<boolean>;
+  onCancel: () => void;
+  disabled: boolean;
+}
+
+// Actions that take a dose; without one a water job runs until switched off
+const DOSED_ACTIONS: ControlAction[] = ['water:on', 'nutrients'];
+
+// New recurring job of the active level: an action, an optional dose, a time
+// of day and the weekdays it runs on
+const ScheduleJobForm: React.FC<ScheduleJobFormProps> = ({ onSave, onCancel, disabled }) => {
+  const [label, setLabel] = useState('');
+  const [action, setAction] = useState<ControlAction>('water:on');
+  const [amount, setAmount] = useState('20');
+  const [unit, setUnit] = useState<DoseUnit>('s');
+  const [time, setTime] = useState('06:00');
+  const [days, setDays] = useState<number[]>([0, 1, 2, 3, 4, 5, 6]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isDosed = DOSED_ACTIONS.includes(action);
+
+  const toggleDay = (day: number) => {
+    setDays(prev => prev.includes(day) ? prev.filter(candidate => candidate !== day) : [...prev, day].sort((a, b) => a - b));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const doseAmount = parseFloat(amount);
+    if (isDosed && amount !== '' && (isNaN(doseAmount) || doseAmount <= 0)) {
+      setError(`Enter a positive ${unit === 's' ? 'number of seconds' : 'volume'}, or leave it empty.`);
+      return;
+    }
+    if (days.length === 0) {
+      setError('Pick at least one day.');
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await onSave({
+      label: label.trim(),
+      action,
+      dose: isDosed && amount !== '' ? (unit === 's' ? { seconds: doseAmount } : { ml: doseAmount }) : null,
+      time,
+      days,
+    });
+    setError(saved ? null : 'Could not save the job.');
+    setIsSaving(false);
+  };
+
+  const inputClassName = 'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white';
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-4 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+        <select
+          value={action}
+          onChange={(e) => setAction(e.target.value as ControlAction)}
+          className={inputClassName}
+        >
+          {(Object.keys(CONTROL_ACTION_LABELS) as ControlAction[]).map(candidate => (
+            <option key={candidate} value={candidate}>{CONTROL_ACTION_LABELS[candidate]}</option>
+          ))}
+        </select>
+        {isDosed && (
+          <>
+            <span>for</span>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="–"
+              className={`w-20 ${inputClassName}`}
+            />
+            <select value={unit} onChange={(e) => setUnit(e.target.value as DoseUnit)} className={inputClassName}>
+              <option value="s">s</option>
+              <option value="ml">ml</option>
+            </select>
+          </>
+        )}
+        <span>at</span>
+        <input type="time" value={time} onChange={(e) => setTime(e.target.value)} required className={inputClassName} />
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {WEEKDAYS.map((name, day) => (
+          <button
+            key={name}
+            type="button"
+            onClick={() => toggleDay(day)}
+            className={`px-2 py-1 text-xs rounded ${
+              days.includes(day)
+                ? 'bg-green-600 text-white'
+                : 'bg-gray-200 dark:bg-gray-600 text-gray-600 dark:text-gray-300'
+            }`}
+            aria-pressed={days.includes(day)}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+
+      <input
+        type="text"
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+        maxLength={60}
+        placeholder="Label (optional)"
+        className={`w-full ${inputClassName}`}
+      />
+
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-300 hover:underline"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={disabled || isSaving}
+          className="px-3 py-1.5 text-sm bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : 'Add job'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ScheduleJobForm;
@@ -82,7 +82,7 @@ const SensorReadings: React.FC<SensorReadingsProps> = ({ data, plant, plantHealt
         </h2>
         <div className="flex items-center gap-3">
           <span className="text-xs text-gray-500 dark:text-gray-400">
-            Device: {plant.id === 'level1' ? 'esp32_1' : 'esp32_2'}
+            Device: {data.deviceId || 'unassigned'}
           </span>
           <div className={`px-3 py-1 rounded-full text-sm font-medium ${healthColors[plantHealth.status]}`}>
             Plant Health: {plantHealth.status.charAt(0).toUpperCase() + plantHealth.status.slice(1)}
@@ -1,6 +1,7 @@
 import React from 'react';
+import { NavLink, useLocation, useNavigate } from 'react-router-dom';
 import { usePlant } from '../context/PlantContext';
-import { Leaf, Menu, X, Settings } from 'lucide-react';
+import { Leaf, Menu, X, Settings, LayoutDashboard, Columns } from 'lucide-react';
 import { PlantType } from '../types';
 
 interface SidebarProps {
@@ -11,12 +12,25 @@ interface SidebarProps {
 
 const Sidebar: React.FC<SidebarProps> = ({ isMobileOpen, setIsMobileOpen, onManagePlants }) => {
   const { activePlant, setActivePlantType, plantOptions } = usePlant();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const isDashboard = location.pathname === '/dashboard';
 
   const handlePlantSelect = (plantType: PlantType) => {
     setActivePlantType(plantType);
     setIsMobileOpen(false);
+    if (!isDashboard) {
+      navigate('/dashboard');
+    }
   };
 
+  const viewLinkClass = ({ isActive }: { isActive: boolean }) =>
+    `flex items-center px-6 py-2 text-sm font-medium transition-colors duration-200 ${
+      isActive
+        ? 'text-green-700 dark:text-green-300'
+        : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+    }`;
+
   return (
     <>
       {/* Mobile menu button */}
@@ -48,6 +62,16 @@ const Sidebar: React.FC<SidebarProps> = ({ isMobileOpen, setIsMobileOpen, onMana
 
           {/* Plants Navigation */}
           <nav className="flex-1 overflow-y-auto py-4">
+            <div className="mb-4 pb-4 border-b border-gray-200 dark:border-gray-700">
+              <NavLink to="/dashboard" className={viewLinkClass} onClick={() => setIsMobileOpen(false)}>
+                <LayoutDashboard size={18} className="mr-3" />
+                Dashboard
+              </NavLink>
+              <NavLink to="/compare" className={viewLinkClass} onClick={() => setIsMobileOpen(false)}>
+                <Columns size={18} className="mr-3" />
+                Compare Levels
+              </NavLink>
+            </div>
             <div className="flex justify-between items-center px-6 mb-3">
               <h2 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                 Growing Levels
@@ -66,7 +90,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isMobileOpen, setIsMobileOpen, onMana
                   key={plant.id}
                   onClick={() => handlePlantSelect(plant.id as PlantType)}
                   className={`w-full flex items-center px-6 py-3 text-sm font-medium transition-colors duration-200 ${
-                    activePlant.id === plant.id
+                    isDashboard && activePlant.id === plant.id
                       ? 'bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-300 border-l-4 border-green-600 dark:border-green-500'
                       : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
                   }`}
@@ -0,0 +1,82 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { ChartRange, TimeWindow } from '../types';
+import { DEFAULT_CHART_RANGE } from '../utils/chartRange';
+
+// Time window of every history chart, persisted per chart. While ranges are
+// synced, all charts share the range that was picked last. Zooming, panning or
+// brushing any chart sets a temporary zoom window that every chart follows.
+
+interface ChartRangeState {
+  syncRanges: boolean;
+  sharedRange: ChartRange;
+  chartRanges: Record<string, ChartRange>;
+}
+
+interface ChartRangeContextType {
+  getRange: (chartId: string) => ChartRange;
+  setRange: (chartId: string, range: ChartRange) => void;
+  syncRanges: boolean;
+  setSyncRanges: (sync: boolean) => void;
+  zoom: TimeWindow | null;
+  setZoom: (window: TimeWindow | null) => void;
+}
+
+const getInitialRangeState = (): ChartRangeState => {
+  const savedRanges = localStorage.getItem('smartAgriChartRanges');
+  if (savedRanges) {
+    try {
+      return JSON.parse(savedRanges);
+    } catch (error) {
+      console.error('Error parsing saved chart ranges:', error);
+    }
+  }
+
+  return {
+    syncRanges: true,
+    sharedRange: DEFAULT_CHART_RANGE,
+    chartRanges: {},
+  };
+};
+
+const ChartRangeContext = createContext<ChartRangeContextType | undefined>(undefined);
+
+export const ChartRangeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [state, setState] = useState<ChartRangeState>(getInitialRangeState);
+  const [zoom, setZoom] = useState<TimeWindow | null>(null);
+
+  useEffect(() => {
+    localStorage.setItem('smartAgriChartRanges', JSON.stringify(state));
+  }, [state]);
+
+  const getRange = useCallback((chartId: string): ChartRange => {
+    if (state.syncRanges) return state.sharedRange;
+    return state.chartRanges[chartId] || state.sharedRange;
+  }, [state]);
+
+  const setRange = useCallback((chartId: string, range: ChartRange) => {
+    setState(prev => ({
+      ...prev,
+      sharedRange: prev.syncRanges ? range : prev.sharedRange,
+      chartRanges: { ...prev.chartRanges, [chartId]: range },
+    }));
+    setZoom(null);
+  }, []);
+
+  const setSyncRanges = useCallback((sync: boolean) => {
+    setState(prev => ({ ...prev, syncRanges: sync }));
+  }, []);
+
+  return (
+    <ChartRangeContext.Provider value={{ getRange, setRange, syncRanges: state.syncRanges, setSyncRanges, zoom, setZoom }}>
+      {children}
+    </ChartRangeContext.Provider>
+  );
+};
+
+export const useChartRange = () => {
+  const context = useContext(ChartRangeContext);
+  if (context === undefined) {
+    throw new Error('useChartRange must be used within a ChartRangeProvider');
+  }
+  return context;
+};
@@ -1,12 +1,38 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import { Plant, PlantType } from '../types';
+import { GrowLevel, Plant, PlantType, RegisteredDevice, Registry } from '../types';
+import arduinoService from '../services/ArduinoService';
 
-// Fixed plant data for Level 1 and Level 2 - can be modified and persisted
+// Profile used for a level until its plant details are edited
+const createDefaultPlant = (id: PlantType, name: string): Plant => ({
+  id,
+  name,
+  image: 'https://images.pexels.com/photos/7657084/pexels-photo-7657084.jpeg?auto=compress&cs=tinysrgb&w=600',
+  waterUsagePerDay: 1.2,
+  targetDli: 14,
+  optimalConditions: {
+    moisture: { min: 65, max: 85, unit: '%' },
+    waterLevel: { min: 70, max: 90, unit: '%' },
+    sunlight: { min: 4500, max: 7500, unit: 'lux' },
+    temperature: { min: 15, max: 22, unit: '°C' },
+    humidity: { min: 60, max: 80, unit: '%' },
+    nutrientLevel: { min: 550, max: 750, unit: 'mg/kg' },
+    nitrogen: { min: 40, max: 80, unit: 'mg/kg' },
+    phosphorus: { min: 20, max: 50, unit: 'mg/kg' },
+    potassium: { min: 40, max: 90, unit: 'mg/kg' },
+  },
+});
+
+// Plant details per level - can be modified and persisted
 const getInitialPlantData = (): Record<PlantType, Plant> => {
   const savedPlants = localStorage.getItem('smartAgriPlants');
   if (savedPlants) {
     try {
-      return JSON.parse(savedPlants);
+      // Profiles saved before a condition existed get its default range
+      const parsed: Record<PlantType, Plant> = JSON.parse(savedPlants);
+      return Object.fromEntries(Object.entries(parsed).map(([id, plant]) => [id, {
+        ...plant,
+        optimalConditions: { ...createDefaultPlant(id, plant.name).optimalConditions, ...plant.optimalConditions },
+      }]));
     } catch (error) {
       console.error('Error parsing saved plant data:', error);
     }
@@ -14,34 +40,8 @@ const getInitialPlantData = (): Record<PlantType, Plant> => {
 
   // Default plant data
   return {
-    level1: {
-      id: 'level1',
-      name: 'Level 1',
-      image: 'https://images.pexels.com/photos/7657084/pexels-photo-7657084.jpeg?auto=compress&cs=tinysrgb&w=600',
-      waterUsagePerDay: 1.2,
-      optimalConditions: {
-        moisture: { min: 65, max: 85, unit: '%' },
-        waterLevel: { min: 70, max: 90, unit: '%' },
-        sunlight: { min: 4500, max: 7500, unit: 'lux' },
-        temperature: { min: 15, max: 22, unit: '°C' },
-        humidity: { min: 60, max: 80, unit: '%' },
-        nutrientLevel: { min: 550, max: 750, unit: 'mg/kg' },
-      },
-    },
-    level2: {
-      id: 'level2',
-      name: 'Level 2',
-      image: 'https://images.pexels.com/photos/7657084/pexels-photo-7657084.jpeg?auto=compress&cs=tinysrgb&w=600',
-      waterUsagePerDay: 1.8,
-      optimalConditions: {
-        moisture: { min: 65, max: 85, unit: '%' },
-        waterLevel: { min: 70, max: 90, unit: '%' },
-        sunlight: { min: 4500, max: 7500, unit: 'lux' },
-        temperature: { min: 15, max: 22, unit: '°C' },
-        humidity: { min: 60, max: 80, unit: '%' },
-        nutrientLevel: { min: 550, max: 750, unit: 'mg/kg' },
-      },
-    },
+    level1: createDefaultPlant('level1', 'Level 1'),
+    level2: { ...createDefaultPlant('level2', 'Level 2'), waterUsagePerDay: 1.8 },
   };
 };
 
@@ -50,16 +50,29 @@ interface PlantContextType {
   setActivePlantType: (type: PlantType) => void;
   plantOptions: Plant[];
   updatePlant: (id: string, updatedPlant: Partial<Plant>) => void;
+  levels: GrowLevel[]; // Levels registered with the backend, in sidebar order
+  devices: RegisteredDevice[];
 }
 
 const PlantContext = createContext<PlantContextType | undefined>(undefined);
 
 export const PlantProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [plants, setPlants] = useState<Record<string, Plant>>(getInitialPlantData());
+  const [registry, setRegistry] = useState<Registry>(arduinoService.getRegistry());
   const [activePlantType, setActivePlantType] = useState<PlantType>('level1');
   
-  const plantOptions = Object.values(plants);
-  const activePlant = plants[activePlantType] || plantOptions[0];
+  // One plant per registered level; saved plant details are used until the
+  // registry has been loaded
+  const plantOptions = registry.levels.length > 0
+    ? registry.levels.map(level => plants[level.id] || createDefaultPlant(level.id, level.name))
+    : Object.values(plants);
+  const activePlant = plantOptions.find(plant => plant.id === activePlantType) || plantOptions[0];
+
+  useEffect(() => {
+    const unsubscribe = arduinoService.on('registry', setRegistry);
+    arduinoService.loadRegistry();
+    return unsubscribe;
+  }, []);
 
   // Save plants to localStorage whenever plants state changes
   useEffect(() => {
@@ -67,17 +80,18 @@ export const PlantProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   }, [plants]);
 
   const updatePlant = (id: string, updatedPlant: Partial<Plant>) => {
+    const current = plantOptions.find(plant => plant.id === id);
     setPlants(prev => {
       const newPlants = {
         ...prev,
-        [id]: { ...prev[id], ...updatedPlant }
+        [id]: { ...(prev[id] || current), ...updatedPlant }
       };
       return newPlants;
     });
   };
 
   const handleSetActivePlantType = (type: PlantType) => {
-    if (plants[type]) {
+    if (plantOptions.some(plant => plant.id === type)) {
       setActivePlantType(type);
     }
   };
@@ -89,6 +103,8 @@ export const PlantProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         setActivePlantType: handleSetActivePlantType,
         plantOptions,
         updatePlant,
+        levels: registry.levels,
+        devices: registry.devices,
       }}
     >
       {children}
@@ -1,6 +1,19 @@
 import { useState, useEffect } from 'react';
 import arduinoService from '../services/ArduinoService';
-import { SensorData, PlantType, Alert, PlantHealth, ReservoirLevels, ArduinoStatus, Plant } from '../types';
+import {
+  SensorData,
+  PlantType,
+  Alert,
+  ReservoirLevels,
+  ArduinoStatus,
+  Plant,
+  ControlAction,
+  ControlResult,
+  ConnectionEvent,
+  ServiceError,
+} from '../types';
+import { DoseRequest } from '../types/socket';
+import { calculatePlantHealth } from '../utils/plantHealth';
 
 export const useArduinoData = (plantType: PlantType, plant: Plant) => {
   const [sensorData, setSensorData] = useState<SensorData | null>(null);
@@ -45,7 +58,9 @@ export const useArduinoData = (plantType: PlantType, plant: Plant) => {
       const alert: Alert = {
         id: `moisture-${Date.now()}`,
         type: 'warning',
-        message: 'Low soil moisture detected! Starting watering system.',
+        message: arduinoService.getIrrigationStatus(plant.id)?.mode === 'auto'
+          ? 'Low soil moisture detected! Irrigation automation is watering.'
+          : 'Low soil moisture detected! Water the plant or switch irrigation to auto.',
         timestamp: new Date().toISOString(),
         read: false,
       };
@@ -58,7 +73,9 @@ export const useArduinoData = (plantType: PlantType, plant: Plant) => {
       const alert: Alert = {
         id: `sunlight-${Date.now()}`,
         type: 'warning',
-        message: 'Dim lighting detected! Turning on grow lights.',
+        message: arduinoService.getLightingStatus(plant.id)?.mode === 'auto'
+          ? 'Dim lighting detected! Grow light automation is handling it.'
+          : 'Dim lighting detected! Turn on the grow light or switch it to auto.',
         timestamp: new Date().toISOString(),
         read: false,
       };
@@ -66,13 +83,16 @@ export const useArduinoData = (plantType: PlantType, plant: Plant) => {
       if (userEmail) sendEmailAlert(alert, userEmail);
     }
 
-    // Check nutrient levels (average of NPK)
-    const avgNutrients = (data.nitrogen + data.phosphorus + data.potassium) / 3;
-    if (avgNutrients < 30) {
+    // Check each nutrient against its target band in the profile
+    const lowNutrients = (['nitrogen', 'phosphorus', 'potassium'] as const)
+      .filter(nutrient => data[nutrient] < plant.optimalConditions[nutrient].min);
+    if (lowNutrients.length > 0) {
       const alert: Alert = {
         id: `nutrients-${Date.now()}`,
         type: 'warning',
-        message: 'Low nutrient levels detected! Sending nutrients to plants.',
+        message: `Low ${lowNutrients.join(', ')} detected! ${arduinoService.getNutrientPlan(plant.id)?.mode === 'auto'
+          ? 'The nutrient planner will dose fertilizer.'
+          : 'See the nutrient planner for a recommended dose.'}`,
         timestamp: new Date().toISOString(),
         read: false,
       };
@@ -120,8 +140,8 @@ export const useArduinoData = (plantType: PlantType, plant: Plant) => {
   useEffect(() => {
     const handleData = (data: SensorData) => {
       // Validate that the data is for the current plant type
-      const expectedDeviceId = plantType === 'level1' ? 'esp32_1' : 'esp32_2';
-      if (!data.deviceId || data.deviceId === expectedDeviceId) {
+      const expectedDeviceId = arduinoService.getSensorDeviceId(plantType);
+      if (!data.deviceId || !expectedDeviceId || data.deviceId === expectedDeviceId) {
         setSensorData(data);
         setIsLoading(false);
         
@@ -143,7 +163,7 @@ export const useArduinoData = (plantType: PlantType, plant: Plant) => {
       }
     };
 
-    const handleConnection = (status: { connected: boolean }) => {
+    const handleConnection = (status: ConnectionEvent) => {
       setConnectionStatus({
         connected: status.connected,
         lastConnected: status.connected ? new Date().toISOString() : connectionStatus.lastConnected,
@@ -158,7 +178,7 @@ export const useArduinoData = (plantType: PlantType, plant: Plant) => {
       setAlerts(prev => [alert, ...prev].slice(0, 10));
     };
 
-    const handleError = (error: { message: string; details?: string }) => {
+    const handleError = (error: ServiceError) => {
       console.error('Arduino service error:', error);
       
       const errorAlert: Alert = {
@@ -172,7 +192,7 @@ export const useArduinoData = (plantType: PlantType, plant: Plant) => {
       setAlerts(prev => [errorAlert, ...prev].slice(0, 10));
     };
 
-    const handleControlSuccess = (response: any) => {
+    const handleControlSuccess = (response: ControlResult) => {
       const successAlert: Alert = {
         id: Date.now().toString(),
         type: 'success',
@@ -184,7 +204,7 @@ export const useArduinoData = (plantType: PlantType, plant: Plant) => {
       setAlerts(prev => [successAlert, ...prev].slice(0, 10));
     };
 
-    const handleControlError = (response: any) => {
+    const handleControlError = (response: ControlResult) => {
       const errorAlert: Alert = {
         id: Date.now().toString(),
         type: 'error',
@@ -197,13 +217,15 @@ export const useArduinoData = (plantType: PlantType, plant: Plant) => {
     };
 
     // Subscribe to events
-    arduinoService.on('data', handleData);
-    arduinoService.on('reservoir', handleReservoirData);
-    arduinoService.on('connection', handleConnection);
-    arduinoService.on('alert', handleAlert);
-    arduinoService.on('error', handleError);
-    arduinoService.on('controlSuccess', handleControlSuccess);
-    arduinoService.on('controlError', handleControlError);
+    const unsubscribers = [
+      arduinoService.on('data', handleData),
+      arduinoService.on('reservoir', handleReservoirData),
+      arduinoService.on('connection', handleConnection),
+      arduinoService.on('alert', handleAlert),
+      arduinoService.on('error', handleError),
+      arduinoService.on('controlSuccess', handleControlSuccess),
+      arduinoService.on('controlError', handleControlError),
+    ];
 
     // Set active plant
     arduinoService.setActivePlant(plantType);
@@ -228,83 +250,13 @@ export const useArduinoData = (plantType: PlantType, plant: Plant) => {
     
     return () => {
       // Unsubscribe from events
-      arduinoService.off('data', handleData);
-      arduinoService.off('reservoir', handleReservoirData);
-      arduinoService.off('connection', handleConnection);
-      arduinoService.off('alert', handleAlert);
-      arduinoService.off('error', handleError);
-      arduinoService.off('controlSuccess', handleControlSuccess);
-      arduinoService.off('controlError', handleControlError);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
     };
   }, [plantType, connectionStatus.lastConnected]);
 
-  // Updated plant health calculation - removed water level, increased sunlight to 25%
-  const calculatePlantHealth = (): PlantHealth => {
-    if (!sensorData || !plant) {
-      return { status: 'fair', score: 50 };
-    }
-
-    let totalScore = 0;
-    let factorCount = 0;
-
-    // Helper function to calculate score for a parameter
-    const calculateParameterScore = (value: number, optimal: { min: number; max: number }): number => {
-      if (value >= optimal.min && value <= optimal.max) {
-        return 100; // Perfect score if within optimal range
-      }
-      
-      const optimalMid = (optimal.min + optimal.max) / 2;
-      const optimalRange = optimal.max - optimal.min;
-      const deviation = Math.abs(value - optimalMid);
-      
-      // Calculate score based on how far from optimal range
-      // Give some tolerance outside the range before heavily penalizing
-      const tolerance = optimalRange * 0.2; // 20% tolerance
-      
-      if (deviation <= tolerance) {
-        return Math.max(80, 100 - (deviation / tolerance) * 20);
-      } else {
-        return Math.max(0, 80 - ((deviation - tolerance) / optimalRange) * 60);
-      }
-    };
-
-    // Soil moisture (weight: 30% - most important)
-    const moistureScore = calculateParameterScore(sensorData.moisture, plant.optimalConditions.moisture);
-    totalScore += moistureScore * 0.3;
-    factorCount += 0.3;
-
-    // Temperature (weight: 25%)
-    const temperatureScore = calculateParameterScore(sensorData.temperature, plant.optimalConditions.temperature);
-    totalScore += temperatureScore * 0.25;
-    factorCount += 0.25;
-
-    // Sunlight (weight: 25% - increased from 15%)
-    const sunlightScore = calculateParameterScore(sensorData.sunlight, plant.optimalConditions.sunlight);
-    totalScore += sunlightScore * 0.25;
-    factorCount += 0.25;
-
-    // Humidity (weight: 20%)
-    const humidityScore = calculateParameterScore(sensorData.humidity, plant.optimalConditions.humidity);
-    totalScore += humidityScore * 0.2;
-    factorCount += 0.2;
-
-    // Water level removed from calculation
-
-    const overallScore = totalScore / factorCount;
-    
-    let status: PlantHealth['status'];
-    if (overallScore >= 90) status = 'excellent';
-    else if (overallScore >= 75) status = 'good';
-    else if (overallScore >= 60) status = 'fair';
-    else if (overallScore >= 40) status = 'poor';
-    else status = 'critical';
-
-    return { status, score: overallScore };
-  };
-
   // Function to send control actions
-  const sendControlAction = async (action: 'water' | 'light' | 'nutrients') => {
-    return await arduinoService.sendCommand(action);
+  const sendControlAction = async (action: ControlAction, dose?: DoseRequest) => {
+    return await arduinoService.sendCommand(action, dose);
   };
 
   // Function to connect/reconnect to Arduino
@@ -327,7 +279,7 @@ export const useArduinoData = (plantType: PlantType, plant: Plant) => {
     connectionStatus,
     alerts,
     isLoading,
-    plantHealth: calculatePlantHealth(),
+    plantHealth: calculatePlantHealth(sensorData, plant),
     sendControlAction,
     connectToArduino,
     markAlertAsRead,
@@ -0,0 +1,15 @@
+import { useState, useEffect } from 'react';
+import arduinoService from '../services/ArduinoService';
+import { EmergencyStopState } from '../types/socket';
+
+// Emergency stop latch as the backend last reported it
+export const useEmergencyStop = () => {
+  const [emergencyStop, setEmergencyStop] = useState<EmergencyStopState>(arduinoService.getEmergencyStop());
+
+  useEffect(() => {
+    setEmergencyStop(arduinoService.getEmergencyStop());
+    return arduinoService.on('emergencyStop', setEmergencyStop);
+  }, []);
+
+  return emergencyStop;
+};
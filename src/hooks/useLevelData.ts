@@ -0,0 +1,47 @@
+import { useState, useEffect } from 'react';
+import arduinoService from '../services/ArduinoService';
+import { SensorData, PlantType, ConnectionEvent, LevelDataUpdate } from '../types';
+
+// Latest readings of several levels at once, independent of the active plant
+export const useLevelData = (plantTypes: PlantType[]) => {
+  const [levelData, setLevelData] = useState<Partial<Record<PlantType, SensorData>>>({});
+  const [isConnected, setIsConnected] = useState(arduinoService.isConnected());
+  const levelKey = plantTypes.join(',');
+
+  useEffect(() => {
+    const levels = levelKey.split(',') as PlantType[];
+
+    // Start from whatever the service already holds
+    const initialData: Partial<Record<PlantType, SensorData>> = {};
+    levels.forEach(plantType => {
+      const data = arduinoService.getLevelData(plantType);
+      if (data) initialData[plantType] = data;
+    });
+    setLevelData(initialData);
+
+    const handleLevelData = (update: LevelDataUpdate) => {
+      if (levels.includes(update.plantType)) {
+        setLevelData(prev => ({ ...prev, [update.plantType]: update.data }));
+      }
+    };
+
+    const handleConnection = (status: ConnectionEvent) => {
+      setIsConnected(status.connected);
+    };
+
+    const unsubscribers = [
+      arduinoService.on('levelData', handleLevelData),
+      arduinoService.on('connection', handleConnection),
+    ];
+
+    if (!arduinoService.isConnected()) {
+      arduinoService.connect();
+    }
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [levelKey]);
+
+  return { levelData, isConnected };
+};
@@ -0,0 +1,18 @@
+import { useState, useEffect } from 'react';
+import arduinoService from '../services/ArduinoService';
+import { PlantType } from '../types';
+import { LightingStatus } from '../types/socket';
+
+// Grow light automation and daily light integral of a level as the backend last reported them
+export const useLightingStatus = (plantType: PlantType) => {
+  const [status, setStatus] = useState<LightingStatus | null>(arduinoService.getLightingStatus(plantType));
+
+  useEffect(() => {
+    setStatus(arduinoService.getLightingStatus(plantType));
+    return arduinoService.on('lighting', update => {
+      if (update.plantType === plantType) setStatus(update);
+    });
+  }, [plantType]);
+
+  return status;
+};
@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { usePlant } from '../context/PlantContext';
+import { useTheme } from '../context/ThemeContext';
+import { useChartRange } from '../context/ChartRangeContext';
+import { useLevelData } from '../hooks/useLevelData';
+
+import Sidebar from '../components/Sidebar';
+import SensorReadings from '../components/SensorReadings';
+import ComparisonChart from '../components/ComparisonChart';
+import PlantManager from '../components/PlantManager';
+
+import { PlantType } from '../types';
+import { HistoryMetric } from '../types/api';
+import { LEVEL_COLORS, getMetric } from '../utils/metrics';
+import { calculatePlantHealth } from '../utils/plantHealth';
+
+import { LogOut, Moon, Sun, Link2 } from 'lucide-react';
+
+// Metrics overlaid for every level on the comparison page
+const COMPARISON_METRICS: HistoryMetric[] = ['moisture', 'temperature', 'humidity', 'sunlight', 'nutrients'];
+
+const ComparisonPage: React.FC = () => {
+  const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [showPlantManager, setShowPlantManager] = useState(false);
+  const { user, isAuthenticated, logout } = useAuth();
+  const { theme, toggleTheme } = useTheme();
+  const { plantOptions } = usePlant();
+  const { syncRanges, setSyncRanges } = useChartRange();
+  const navigate = useNavigate();
+
+  const { levelData, isConnected } = useLevelData(plantOptions.map(plant => plant.id as PlantType));
+
+  // Protect route - redirect to login if not authenticated
+  useEffect(() => {
+    if (!isAuthenticated) {
+      navigate('/');
+    }
+  }, [isAuthenticated, navigate]);
+
+  if (!isAuthenticated) {
+    return null; // Don't render anything while redirecting
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
+      {/* Sidebar */}
+      <Sidebar
+        isMobileOpen={isMobileMenuOpen}
+        setIsMobileOpen={setIsMobileMenuOpen}
+        onManagePlants={() => setShowPlantManager(true)}
+      />
+
+      {/* Plant Manager Modal */}
+      <PlantManager
+        isOpen={showPlantManager}
+        onClose={() => setShowPlantManager(false)}
+      />
+
+      {/* Main Content */}
+      <div className="lg:pl-64 min-h-screen flex flex-col">
+        {/* Header */}
+        <header className="bg-white dark:bg-gray-800 shadow-sm z-10">
+          <div className="flex justify-between items-center px-4 sm:px-6 lg:px-8 py-4">
+            <h1 className="text-xl font-semibold text-gray-900 dark:text-white">
+              Level Comparison
+            </h1>
+
+            <div className="flex items-center space-x-4">
+              <span className={`text-sm font-medium ${isConnected ? 'text-green-600 dark:text-green-400' : 'text-red-500'}`}>
+                {isConnected ? 'Connected' : 'Disconnected'}
+              </span>
+
+              {/* Theme Toggle */}
+              <button
+                onClick={toggleTheme}
+                className="p-2 rounded-full text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                aria-label={`Switch to ${theme === 'light' ? 'dark' : 'light'} mode`}
+              >
+                {theme === 'light' ? <Moon size={20} /> : <Sun size={20} />}
+              </button>
+
+              {/* User Menu */}
+              <div className="flex items-center space-x-2">
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  {user?.name}
+                </span>
+                <button
+                  onClick={logout}
+                  className="p-1 rounded-full text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  aria-label="Log out"
+                >
+                  <LogOut size={18} />
+                </button>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <main className="flex-1 py-6 px-4 sm:px-6 lg:px-8">
+          <div className="grid grid-cols-1 gap-6">
+            {/* Current readings, one column per level */}
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+              {plantOptions.map((plant, index) => {
+                const data = levelData[plant.id as PlantType] || null;
+                return (
+                  <div key={plant.id}>
+                    <h2 className="flex items-center text-lg font-semibold text-gray-900 dark:text-white mb-3 font-['Poppins',_'Inter',_'system-ui',_sans-serif]">
+                      <span
+                        className="inline-block w-3 h-3 rounded-full mr-2"
+                        style={{ backgroundColor: LEVEL_COLORS[index % LEVEL_COLORS.length] }}
+                      />
+                      {plant.name}
+                    </h2>
+                    <SensorReadings
+                      data={data}
+                      plant={plant}
+                      plantHealth={calculatePlantHealth(data, plant)}
+                      isLoading={!data}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Overlaid history */}
+            <div className="flex flex-wrap items-center justify-between gap-2 mt-6 mb-4">
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white font-['Poppins',_'Inter',_'system-ui',_sans-serif]">
+                Historical Comparison
+              </h2>
+              <button
+                onClick={() => setSyncRanges(!syncRanges)}
+                className={`flex items-center px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                  syncRanges
+                    ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400'
+                    : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300'
+                }`}
+                aria-pressed={syncRanges}
+              >
+                <Link2 size={16} className="mr-1.5" />
+                {syncRanges ? 'Time ranges synced' : 'Sync time ranges'}
+              </button>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {COMPARISON_METRICS.map(key => (
+                <ComparisonChart
+                  key={key}
+                  metric={getMetric(key)}
+                  plants={plantOptions}
+                />
+              ))}
+            </div>
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonPage;
@@ -3,6 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { usePlant } from '../context/PlantContext';
 import { useTheme } from '../context/ThemeContext';
+import { useChartRange } from '../context/ChartRangeContext';
 import { useArduinoData } from '../hooks/useArduinoData';
 
 import Sidebar from '../components/Sidebar';
@@ -10,13 +11,33 @@ import SensorReadings from '../components/SensorReadings';
 import PlantInfo from '../components/PlantInfo';
 import ControlPanel from '../components/ControlPanel';
 import ReservoirStatus from '../components/ReservoirStatus';
+import DliProgress from '../components/DliProgress';
+import NutrientPlanner from '../components/NutrientPlanner';
+import ScheduleCalendar from '../components/ScheduleCalendar';
 import ConnectionStatus from '../components/ConnectionStatus';
+import EmergencyStopButton from '../components/EmergencyStopButton';
 import Alerts from '../components/Alerts';
 import HistoricalChart from '../components/HistoricalChart';
 import PlantManager from '../components/PlantManager';
 import PDFReportGenerator from '../components/PDFReportGenerator';
 
-import { LogOut, Moon, Sun } from 'lucide-react';
+import { HistoryMetric } from '../types/api';
+import { METRICS, DEFAULT_CHART_METRICS, getMetric } from '../utils/metrics';
+
+import { LogOut, Moon, Sun, Link2, Plus } from 'lucide-react';
+
+// Metrics charted on the dashboard, persisted across sessions
+const getInitialChartMetrics = (): HistoryMetric[] => {
+  const savedCharts = localStorage.getItem('smartAgriDashboardCharts');
+  if (savedCharts) {
+    try {
+      return JSON.parse(savedCharts);
+    } catch (error) {
+      console.error('Error parsing saved dashboard charts:', error);
+    }
+  }
+  return DEFAULT_CHART_METRICS;
+};
 
 const DashboardPage: React.FC = () => {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
@@ -25,6 +46,9 @@ const DashboardPage: React.FC = () => {
   const { user, isAuthenticated, logout } = useAuth();
   const { theme, toggleTheme } = useTheme();
   const { activePlant } = usePlant();
+  const { syncRanges, setSyncRanges } = useChartRange();
+  const [chartMetrics, setChartMetrics] = useState<HistoryMetric[]>(getInitialChartMetrics);
+  const [metricToAdd, setMetricToAdd] = useState<HistoryMetric | ''>('');
   const navigate = useNavigate();
   
   const {
@@ -46,6 +70,22 @@ const DashboardPage: React.FC = () => {
     }
   }, [isAuthenticated, navigate]);
 
+  useEffect(() => {
+    localStorage.setItem('smartAgriDashboardCharts', JSON.stringify(chartMetrics));
+  }, [chartMetrics]);
+
+  const availableMetrics = METRICS.filter(metric => !chartMetrics.includes(metric.key));
+
+  const handleAddChart = () => {
+    if (!metricToAdd) return;
+    setChartMetrics(prev => [...prev, metricToAdd]);
+    setMetricToAdd('');
+  };
+
+  const handleRemoveChart = (key: HistoryMetric) => {
+    setChartMetrics(prev => prev.filter(metric => metric !== key));
+  };
+
   const handleConnect = useCallback(async () => {
     setIsConnecting(true);
     await connectToArduino();
@@ -81,6 +121,9 @@ const DashboardPage: React.FC = () => {
             </h1>
             
             <div className="flex items-center space-x-4">
+              {/* Emergency Stop */}
+              <EmergencyStopButton />
+              
               {/* Connection Status */}
               <ConnectionStatus 
                 status={connectionStatus}
@@ -145,6 +188,22 @@ const DashboardPage: React.FC = () => {
               <ReservoirStatus levels={reservoirLevels} />
             </div>
             
+            {/* Daily Light Integral & Nutrients */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <DliProgress plant={activePlant} />
+              <NutrientPlanner
+                plant={activePlant}
+                onDose={(ml) => sendControlAction('nutrients', { ml })}
+                disabled={isLoading || !connectionStatus.connected}
+              />
+            </div>
+            
+            {/* Scheduled Jobs */}
+            <ScheduleCalendar
+              plant={activePlant}
+              disabled={isLoading || !connectionStatus.connected}
+            />
+            
             {/* PDF Report Generator */}
             <PDFReportGenerator 
               plant={activePlant}
@@ -152,32 +211,65 @@ const DashboardPage: React.FC = () => {
             />
             
             {/* Historical Data */}
-            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mt-6 mb-4 font-['Poppins',_'Inter',_'system-ui',_sans-serif]">
-              Historical Data Analytics
-            </h2>
+            <div className="flex flex-wrap items-center justify-between gap-2 mt-6 mb-4">
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white font-['Poppins',_'Inter',_'system-ui',_sans-serif]">
+                Historical Data Analytics
+              </h2>
+              <div className="flex flex-wrap items-center gap-2">
+                {availableMetrics.length > 0 && (
+                  <div className="flex items-center">
+                    <select
+                      value={metricToAdd}
+                      onChange={(e) => setMetricToAdd(e.target.value as HistoryMetric | '')}
+                      className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-l-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      aria-label="Metric to chart"
+                    >
+                      <option value="">Add chart…</option>
+                      {availableMetrics.map(metric => (
+                        <option key={metric.key} value={metric.key}>{metric.label}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleAddChart}
+                      disabled={!metricToAdd}
+                      className="px-2 py-1.5 rounded-r-lg bg-green-600 text-white hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      aria-label="Add chart"
+                    >
+                      <Plus size={18} />
+                    </button>
+                  </div>
+                )}
+                <button
+                  onClick={() => setSyncRanges(!syncRanges)}
+                  className={`flex items-center px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                    syncRanges
+                      ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400'
+                      : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300'
+                  }`}
+                  aria-pressed={syncRanges}
+                >
+                  <Link2 size={16} className="mr-1.5" />
+                  {syncRanges ? 'Time ranges synced' : 'Sync time ranges'}
+                </button>
+              </div>
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              <HistoricalChart
-                title="Moisture Trends"
-                dataType="moisture"
-                unit="%"
-                color="#3b82f6"
-                isLoading={isLoading}
-              />
-              <HistoricalChart
-                title="Temperature Trends"
-                dataType="temperature"
-                unit="°C"
-                color="#ef4444"
-                isLoading={isLoading}
-              />
-              <HistoricalChart
-                title="Nutrient Level Trends"
-                dataType="nutrients"
-                unit="mg/kg"
-                color="#22c55e"
-                isLoading={isLoading}
-              />
+              {chartMetrics.map(key => (
+                <HistoricalChart
+                  key={key}
+                  chartId={key}
+                  metric={getMetric(key)}
+                  plant={activePlant}
+                  isLoading={isLoading}
+                  onRemove={() => handleRemoveChart(key)}
+                />
+              ))}
             </div>
+            {chartMetrics.length === 0 && (
+              <p className="text-sm text-gray-500 dark:text-gray-400 text-center">
+                No charts selected. Use "Add chart" to plot any sensor metric.
+              </p>
+            )}
           </div>
         </main>
         
@@ -1,5 +1,83 @@
 import { io, Socket } from 'socket.io-client';
-import { SensorData, PlantType, ControlAction, Alert, ReservoirLevels, ArduinoStatus } from '../types';
+import {
+  SensorData,
+  PlantType,
+  ControlAction,
+  ControlActuator,
+  ControlResult,
+  ConnectionEvent,
+  HistoryUpdate,
+  HistoryQuery,
+  LevelDataUpdate,
+  DataPoint,
+  TimestampedReservoirLevels,
+  ServiceError,
+  Alert,
+  ReservoirLevels,
+  GrowLevel,
+  RegisteredDevice,
+  Registry,
+} from '../types';
+import {
+  BackendCommandType,
+  BackendCommand,
+  ClientToServerEvents,
+  CommandAckPayload,
+  CommandStatusPayload,
+  DeviceState,
+  DeviceStatusUpdatePayload,
+  DeviceValues,
+  DoseRequest,
+  EmergencyStopState,
+  IrrigationStatus,
+  LightingStatus,
+  NutrientDose,
+  NutrientPlan,
+  ScheduledJob,
+  ScheduleRun,
+  SchedulesPayload,
+  ServerToClientEvents,
+} from '../types/socket';
+import {
+  ClearEmergencyStopRequest,
+  CommandAckResponse,
+  CommandHistoryEntry,
+  CommandHistoryResponse,
+  DeviceStatusResponse,
+  EmergencyStopResponse,
+  EngageEmergencyStopRequest,
+  GetCommandsResponse,
+  HistoricalDataResponse,
+  HistoryMetric,
+  HistorySeriesQuery,
+  HistorySeriesResponse,
+  InterlockRefusedResponse,
+  NutrientDosesResponse,
+  PumpCalibrationResponse,
+  PumpName,
+  RegistryResponse,
+  SaveIrrigationRequest,
+  SaveIrrigationResponse,
+  SaveLightingRequest,
+  SaveLightingResponse,
+  SaveNutrientSettingsRequest,
+  SaveNutrientSettingsResponse,
+  SaveLevelRequest,
+  SaveLevelResponse,
+  SaveDeviceResponse,
+  SavePumpCalibrationRequest,
+  SaveScheduleRequest,
+  SaveScheduleResponse,
+  ScheduleRunsResponse,
+  SchedulesResponse,
+  SendCommandRequest,
+  SendCommandResponse,
+  SkipOccurrenceRequest,
+} from '../types/api';
+import { TypedEventEmitter } from './TypedEventEmitter';
+import { TimeSeriesCache } from './TimeSeriesCache';
+import { DeviceMetricValues, composeLevelReading, mergeDeviceValues } from '../utils/sensorSources';
+import { parseControlAction } from '../utils/controls';
 
 // Utility function to safely convert values to numbers
 const safeNumber = (value: any, defaultValue: number = 0): number => {
@@ -11,7 +89,7 @@ const safeNumber = (value: any, defaultValue: number = 0): number => {
 };
 
 // Utility function to validate and process sensor data from ESP32 devices
-const validateSensorData = (data: any, deviceId: string = '', plantType: PlantType = 'level1'): SensorData => {
+const validateSensorData = (data: any, deviceId: string = ''): SensorData => {
   const now = new Date().toISOString();
   
   // Extract NPK values properly from nested structure or direct values
@@ -69,18 +147,70 @@ const validateSensorData = (data: any, deviceId: string = '', plantType: PlantTy
   };
 };
 
-class ArduinoService {
-  private socket: Socket | null = null;
+// Merge two sets of readings, keeping the latest copy of each timestamp, oldest first
+const mergeReadings = (existing: SensorData[], incoming: SensorData[]): SensorData[] => {
+  const byTimestamp = new Map<number, SensorData>();
+  
+  [...existing, ...incoming].forEach(reading => {
+    const time = new Date(reading.timestamp).getTime();
+    if (!isNaN(time)) {
+      byTimestamp.set(time, reading);
+    }
+  });
+  
+  return Array.from(byTimestamp.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, reading]) => reading);
+};
+
+// Events ArduinoService emits to its subscribers
+export interface ArduinoServiceEvents {
+  data: SensorData;
+  reservoir: ReservoirLevels;
+  connection: ConnectionEvent;
+  alert: Alert;
+  error: ServiceError;
+  controlSuccess: ControlResult;
+  controlError: ControlResult;
+  command: CommandStatusPayload; // Queued, acknowledged or timed out
+  deviceStatus: DeviceStatusUpdatePayload;
+  history: HistoryUpdate;
+  levelData: LevelDataUpdate;
+  registry: Registry;
+  emergencyStop: EmergencyStopState;
+  irrigation: IrrigationStatus;
+  lighting: LightingStatus;
+  nutrientPlan: NutrientPlan;
+  nutrientDose: NutrientDose;
+  schedules: SchedulesPayload;
+  scheduleRun: ScheduleRun;
+}
+
+class ArduinoService extends TypedEventEmitter<ArduinoServiceEvents> {
+  private socket: Socket<ServerToClientEvents, ClientToServerEvents> | null = null;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
-  private listeners: Map<string, Function[]> = new Map();
   private connected = false;
   private plantType: PlantType = 'level1';
+  private registry: Registry = { levels: [], devices: [] };
   private wateringActive = false;
   private lightActive = false;
   private backendUrl = import.meta.env.VITE_BACKEND_URL || 'https://smart-agri-backend-ysjs.onrender.com';
   private retryDelay = 5000;
-  private currentSensorData: Record<string, SensorData> = {};
+  private deviceValues: Record<string, DeviceMetricValues> = {}; // Latest values each device reported
+  private deviceStates: Record<string, DeviceState> = {};
+  private pendingCommands: Record<string, CommandStatusPayload> = {}; // Awaiting their device's ack, by id
+  private irrigationStatuses: Record<PlantType, IrrigationStatus> = {}; // What the automation of each level is doing
+  private lightingStatuses: Record<PlantType, LightingStatus> = {};
+  private nutrientPlans: Record<PlantType, NutrientPlan> = {};
+  private emergencyStop: EmergencyStopState = {
+    engaged: false,
+    engagedAt: null,
+    engagedBy: null,
+    reason: null,
+    clearedAt: null,
+    clearedBy: null,
+  };
   private currentReservoirLevels: ReservoirLevels = { 
     water: 75, 
     waterCm: 15,
@@ -88,10 +218,11 @@ class ArduinoService {
     fertilizerCm: 12 
   };
   private connectionTimeout: NodeJS.Timeout | null = null;
-  private historicalData: Record<string, SensorData[]> = {
-    level1: [],
-    level2: []
-  };
+  private historicalData: Record<string, SensorData[]> = {};
+  private maxHistoricalPoints = 2000;
+  private cache = new TimeSeriesCache({
+    retentionDays: Number(import.meta.env.VITE_HISTORY_RETENTION_DAYS) || undefined
+  });
 
   public async connect(): Promise<boolean> {
     // Clear any existing connection timeout
@@ -151,11 +282,14 @@ class ArduinoService {
           
           this.emit('connection', { connected: true });
           
-          // Request initial data for both devices
+          // Request initial data for every device
           this.socket?.emit('requestInitialData', { 
-            plantType: this.plantType,
-            deviceIds: ['esp32_1', 'esp32_2']
+            plantType: this.plantType
           });
+          this.loadRegistry();
+          
+          // Backfill the charts with what the backend already recorded
+          this.loadHistoricalData(this.plantType);
           
           // Emit success alert
           this.emit('alert', {
@@ -190,69 +324,145 @@ class ArduinoService {
   private setupSocketListeners(): void {
     if (!this.socket) return;
 
-    // Handle initial data from both ESP32 devices
-    this.socket.on('init', (data) => {
-      console.log('Initial sensor data received:', data);
+    // Handle initial data from all ESP32 devices
+    this.socket.on('initData', (payload) => {
+      console.log('Initial sensor data received:', payload);
       
-      // Process data from both devices
-      if (data.sensorData) {
-        Object.keys(data.sensorData).forEach(deviceId => {
-          const deviceData = data.sensorData[deviceId];
-          if (deviceData) {
-            this.currentSensorData[deviceId] = validateSensorData(deviceData, deviceId, this.plantType);
-          }
-        });
-        
-        // Emit data for current plant type
-        this.emitCurrentPlantData();
-      }
+      // Latest values of every device, mapped onto levels by their sensor sources
+      Object.keys(payload.sensorData).forEach(deviceId => {
+        const deviceData = payload.sensorData[deviceId];
+        if (deviceData) {
+          this.recordDeviceValues(deviceId, deviceData);
+        }
+      });
       
       // Process device states
-      if (data.deviceStates) {
-        Object.keys(data.deviceStates).forEach(deviceId => {
-          const deviceState = data.deviceStates[deviceId];
-          if (deviceState) {
-            if (deviceId === 'esp32_1') {
-              this.wateringActive = Boolean(deviceState.pump);
-            }
-            const currentDeviceId = this.plantType === 'level1' ? 'esp32_1' : 'esp32_2';
-            if (deviceId === currentDeviceId) {
-              this.lightActive = Boolean(deviceState.light);
-            }
-          }
-        });
+      Object.keys(payload.deviceStates).forEach(deviceId => {
+        this.applyDeviceState(deviceId, payload.deviceStates[deviceId]);
+      });
+      
+      // Commands still waiting for their device
+      this.pendingCommands = {};
+      Object.values(payload.pendingCommands || {}).flat().forEach(command => {
+        this.pendingCommands[command.id] = command;
+        this.emit('command', command);
+      });
+      
+      this.currentReservoirLevels = payload.reservoirLevels;
+      this.emit('reservoir', this.currentReservoirLevels);
+      
+      if (payload.emergencyStop) {
+        this.applyEmergencyStop(payload.emergencyStop);
       }
+      Object.values(payload.irrigation || {}).forEach(status => this.applyIrrigationStatus(status));
+      Object.values(payload.lighting || {}).forEach(status => this.applyLightingStatus(status));
+      Object.values(payload.nutrientPlans || {}).forEach(plan => this.applyNutrientPlan(plan));
+      
+      // Emit data for current plant type
+      this.emitCurrentPlantData();
+    });
+
+    // Raw values of a device report; levels are recomposed from their sources
+    this.socket.on('deviceReading', (payload) => {
+      this.recordDeviceValues(payload.deviceId, payload.data);
+      this.applyDeviceState(payload.deviceId, payload.state);
+      this.emitCurrentPlantData();
+    });
+
+    // Level readings stored by the backend for each report
+    this.socket.on('dataUpdate', (payload) => {
+      const reading = validateSensorData(payload.data, payload.deviceId);
+      this.applyDeviceState(payload.deviceId, payload.state);
+      this.cache.addSensorData(payload.plantType, reading);
+      this.mergeHistoricalData(payload.plantType, [reading]);
     });
 
-    // Handle command responses
-    this.socket.on('commandIssued', (command) => {
-      console.log('Command issued:', command);
+    this.socket.on('reservoirUpdate', (levels) => {
+      this.currentReservoirLevels = levels;
+      this.cache.addReservoirLevels(levels);
+      this.emit('reservoir', levels);
+    });
+
+    // Handle command results, including timeouts reported by the backend
+    this.socket.on('controlResponse', (response) => {
+      console.log('Control response:', response);
       
-      // Update local state based on command
-      if (command.command === 'water_pump' || command.command === 'WATER_PUMP') {
-        this.wateringActive = Boolean(command.value);
-      } else if (command.command === 'led' || command.command === 'LED') {
-        this.lightActive = Boolean(command.value);
+      if (response.deviceId && response.active !== undefined && this.deviceStates[response.deviceId]) {
+        if (response.action === 'water') {
+          this.deviceStates[response.deviceId].waterPump = response.active;
+        } else if (response.action === 'light') {
+          this.deviceStates[response.deviceId].light = response.active;
+        }
+        this.applyDeviceState(response.deviceId, this.deviceStates[response.deviceId]);
       }
 
-      this.emit('controlSuccess', {
-        action: this.mapCommandToAction(command.command),
-        success: true,
-        message: `${command.command} command executed successfully`,
-        timestamp: new Date().toISOString()
+      this.emit(response.success ? 'controlSuccess' : 'controlError', {
+        action: response.action,
+        commandId: response.commandId,
+        interlock: response.interlock?.reason,
+        success: response.success,
+        message: response.message || response.error || `${response.action} command ${response.success ? 'executed' : 'failed'}`,
+        timestamp: response.timestamp || new Date().toISOString()
       });
     });
 
-    // Handle command timeouts
-    this.socket.on('commandTimeout', (command) => {
-      console.log('Command timeout:', command);
+    // Commands move from pending to completed, failed or timeout
+    this.socket.on('commandStatus', (command) => {
+      if (command.status === 'pending') {
+        this.pendingCommands[command.id] = command;
+      } else {
+        delete this.pendingCommands[command.id];
+      }
+      this.emit('command', command);
+    });
+
+    // Levels or devices were added, removed or reassigned
+    this.socket.on('registryUpdate', (registry) => {
+      this.applyRegistry(registry);
+    });
+
+    this.socket.on('emergencyStop', (state) => {
+      this.applyEmergencyStop(state);
+    });
+
+    this.socket.on('irrigationStatus', (status) => {
+      this.applyIrrigationStatus(status);
+    });
+
+    this.socket.on('lightingStatus', (status) => {
+      this.applyLightingStatus(status);
+    });
+
+    this.socket.on('nutrientPlan', (plan) => {
+      this.applyNutrientPlan(plan);
+    });
+
+    this.socket.on('nutrientDose', (dose) => {
+      this.emit('nutrientDose', dose);
+    });
+
+    this.socket.on('schedules', (schedules) => {
+      this.emit('schedules', schedules);
+    });
+
+    this.socket.on('scheduleRun', (run) => {
+      this.emit('scheduleRun', run);
+    });
+
+    this.socket.on('deviceStatusUpdate', (update) => {
+      console.log('Device status update:', update);
       
-      this.emit('controlError', {
-        action: this.mapCommandToAction(command.command),
-        success: false,
-        message: `${command.command} command timed out`,
-        timestamp: new Date().toISOString()
-      });
+      if (this.deviceStates[update.deviceId]) {
+        this.deviceStates[update.deviceId].connectionStatus = update.status;
+        this.deviceStates[update.deviceId].lastSeen = update.timestamp;
+      }
+      
+      this.emit('deviceStatus', update);
+    });
+
+    this.socket.on('error', (error) => {
+      console.warn('Backend reported an error:', error.message);
+      this.emit('error', { message: error.message, details: error.error });
     });
 
     // Handle disconnection
@@ -267,11 +477,12 @@ class ArduinoService {
     });
 
     // Handle reconnection
-    this.socket.on('reconnect', (attemptNumber) => {
+    this.socket.io.on('reconnect', (attemptNumber) => {
       console.log('WebSocket reconnected after', attemptNumber, 'attempts');
       this.connected = true;
       this.reconnectAttempts = 0;
       this.emit('connection', { connected: true });
+      this.loadHistoricalData(this.plantType);
       
       // Emit reconnection success alert
       this.emit('alert', {
@@ -283,70 +494,104 @@ class ArduinoService {
       });
     });
 
-    this.socket.on('reconnect_error', (error) => {
+    this.socket.io.on('reconnect_error', (error) => {
       console.warn('WebSocket reconnection error:', error.message || error);
       this.handleConnectionError(error);
     });
   }
 
-  private mapCommandToAction(command: string): string {
-    const commandMap: Record<string, string> = {
-      'water_pump': 'water',
-      'WATER_PUMP': 'water',
-      'led': 'light',
-      'LED': 'light',
-      'fert_pump': 'nutrients',
-      'FERT_PUMP': 'nutrients',
-      'add_nutrients': 'nutrients',
-      'ADD_NUTRIENTS': 'nutrients'
-    };
-    return commandMap[command] || command;
+  private applyRegistry(registry: Registry): void {
+    this.registry = registry;
+    this.emit('registry', registry);
+    this.emitCurrentPlantData();
   }
 
-  private emitCurrentPlantData(): void {
-    // Combine data from both devices based on the specifications
-    const esp32_1_data = this.currentSensorData['esp32_1'];
-    const esp32_2_data = this.currentSensorData['esp32_2'];
+  private getLevel(plantType: PlantType): GrowLevel | undefined {
+    return this.registry.levels.find(level => level.id === plantType);
+  }
+
+  // Device whose readings belong to a level
+  public getSensorDeviceId(plantType: PlantType): string | null {
+    return this.getLevel(plantType)?.sensorDeviceId ?? null;
+  }
+
+  // Device that receives a level's actuator commands
+  public getActuatorDeviceId(plantType: PlantType): string | null {
+    return this.getLevel(plantType)?.actuatorDeviceId ?? null;
+  }
+
+  // Fetch stored readings from the backend and merge them into the local history
+  private async loadHistoricalData(plantType: PlantType): Promise<void> {
+    try {
+      const response = await fetch(`${this.backendUrl}/historical-data/${plantType}`);
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      
+      const result: HistoricalDataResponse = await response.json();
+      const readings = result.data.map(item => validateSensorData(item, item.deviceId));
+      
+      console.log(`Loaded ${readings.length} historical readings for ${plantType}`);
+      await this.cache.addSensorDataBatch(plantType, readings);
+      this.mergeHistoricalData(plantType, readings);
+    } catch (error) {
+      console.warn(`Failed to load historical data for ${plantType}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  // Restore readings persisted by earlier sessions, even while the backend is unreachable
+  private async loadCachedHistory(plantType: PlantType): Promise<void> {
+    const readings = await this.cache.querySensorData({ plantType });
+    if (readings.length > 0) {
+      console.log(`Restored ${readings.length} cached readings for ${plantType}`);
+      this.mergeHistoricalData(plantType, readings);
+    }
+  }
+
+  // Merge readings into the history of a plant type, dropping duplicate timestamps
+  private mergeHistoricalData(plantType: PlantType, readings: SensorData[]): void {
+    this.historicalData[plantType] = mergeReadings(this.historicalData[plantType] || [], readings)
+      .slice(-this.maxHistoricalPoints);
     
-    if (!esp32_1_data && !esp32_2_data) return;
+    this.emit('history', { plantType, data: this.historicalData[plantType] });
+  }
+
+  private applyDeviceState(deviceId: string, state: DeviceState | undefined): void {
+    if (!state) return;
     
-    let combinedData: SensorData;
+    this.deviceStates[deviceId] = { ...state };
     
-    if (this.plantType === 'level1') {
-      // Level 1: Use ESP32_1 data for moisture, sunlight, NPK
-      // Temperature and humidity from ESP32_1
-      combinedData = {
-        temperature: esp32_1_data?.temperature || 20,
-        humidity: esp32_1_data?.humidity || 50,
-        moisture: esp32_1_data?.moisture || 0, // Now using percentage
-        sunlight: esp32_1_data?.sunlight || 0,
-        nitrogen: esp32_1_data?.nitrogen || 0,
-        phosphorus: esp32_1_data?.phosphorus || 0,
-        potassium: esp32_1_data?.potassium || 0,
-        waterLevel: esp32_1_data?.waterLevel || 0,
-        fertilizerLevel: esp32_2_data?.fertilizerLevel || 0,
-        timestamp: new Date().toISOString(),
-        deviceId: 'esp32_1'
-      };
-    } else {
-      // Level 2: Use ESP32_2 data for moisture, sunlight, NPK
-      // Temperature and humidity from ESP32_1
-      combinedData = {
-        temperature: esp32_1_data?.temperature || 20,
-        humidity: esp32_1_data?.humidity || 50,
-        moisture: esp32_2_data?.moisture || 0, // Now using percentage
-        sunlight: esp32_2_data?.sunlight || 0,
-        nitrogen: esp32_2_data?.nitrogen || 0,
-        phosphorus: esp32_2_data?.phosphorus || 0,
-        potassium: esp32_2_data?.potassium || 0,
-        waterLevel: esp32_1_data?.waterLevel || 0,
-        fertilizerLevel: esp32_2_data?.fertilizerLevel || 0,
-        timestamp: new Date().toISOString(),
-        deviceId: 'esp32_2'
-      };
+    // Actuator flags always reflect the device behind the active level
+    if (deviceId === this.getActuatorDeviceId(this.plantType)) {
+      this.wateringActive = state.waterPump;
+      this.lightActive = state.light;
     }
+  }
+
+  private recordDeviceValues(deviceId: string, data: DeviceValues): void {
+    this.deviceValues[deviceId] = mergeDeviceValues(this.deviceValues[deviceId], data);
+  }
+
+  // View of one level, with each metric taken from the device its sensor sources name
+  private buildPlantData(plantType: PlantType): SensorData | null {
+    const level = this.getLevel(plantType);
+    return level ? composeLevelReading(level, this.deviceValues) : null;
+  }
+
+  private emitCurrentPlantData(): void {
+    // Every level is published for views that show several at once
+    this.registry.levels.forEach(({ id: plantType }) => {
+      const data = this.buildPlantData(plantType);
+      if (data) {
+        this.emit('levelData', { plantType, data });
+      }
+    });
     
-    this.emit('data', combinedData);
+    const combinedData = this.buildPlantData(this.plantType);
+    if (combinedData) {
+      this.emit('data', combinedData);
+    }
   }
 
   private handleConnectionError(error: any): void {
@@ -397,16 +642,28 @@ class ArduinoService {
   public setActivePlant(type: PlantType): void {
     this.plantType = type;
     
+    const actuatorDeviceId = this.getActuatorDeviceId(type);
+    const deviceState = actuatorDeviceId ? this.deviceStates[actuatorDeviceId] : undefined;
+    this.wateringActive = deviceState?.waterPump || false;
+    this.lightActive = deviceState?.light || false;
+    
     if (this.socket && this.connected) {
       // Notify backend about plant type change
-      this.socket.emit('setPlantType', { plantType: type });
+      this.socket.emit('setPlantType', { plantType: type, deviceId: this.getSensorDeviceId(type) || '' });
+      this.loadHistoricalData(type);
     }
     
-    // Emit current data for the new plant type
+    // Emit current data and known history for the new plant type
     this.emitCurrentPlantData();
+    this.emit('history', { plantType: type, data: this.historicalData[type] || [] });
+    this.loadCachedHistory(type);
   }
 
-  public async sendCommand(action: ControlAction): Promise<boolean> {
+  // A dose sizes water:on and nutrients commands; without one the stock run
+  // times are used
+  public async sendCommand(control: ControlAction, dose?: DoseRequest): Promise<boolean> {
+    const { actuator: action, state } = parseControlAction(control);
+    
     if (!this.connected || !this.socket) {
       console.error('Not connected to backend');
       this.emit('controlError', { 
@@ -419,18 +676,37 @@ class ArduinoService {
 
     try {
       // Determine which device to send command to based on current plant type
-      const deviceId = this.plantType === 'level1' ? 'esp32_1' : 'esp32_2';
+      const deviceId = this.getActuatorDeviceId(this.plantType);
+      if (!deviceId) {
+        this.emit('controlError', {
+          action,
+          success: false,
+          message: 'No actuator device is assigned to this level.'
+        });
+        return false;
+      }
       
       // Map frontend actions to backend commands
-      const commandMap: Record<ControlAction, string> = {
-        water: 'WATER_PUMP',
-        light: 'LED',
-        nutrients: 'FERT_PUMP'
+      const commandMap: Record<ControlActuator, BackendCommandType> = {
+        water: 'water_pump',
+        light: 'led',
+        nutrients: 'fert_pump'
       };
 
       const command = commandMap[action];
       
-      console.log(`Sending control command to ${deviceId}: ${command}`);
+      console.log(`Sending control command to ${deviceId}: ${command}${state ? ` ${state}` : ''}`, dose ?? '');
+      
+      // One key per user action, so a request the network delivers twice only runs once.
+      // The run time comes from the dose, or the backend's default without one.
+      const request: SendCommandRequest = {
+        deviceId,
+        plantType: this.plantType,
+        command,
+        state: state ?? undefined,
+        idempotencyKey: crypto.randomUUID(),
+        dose
+      };
       
       // Send command via HTTP POST to backend
       const response = await fetch(`${this.backendUrl}/send-command`, {
@@ -438,26 +714,36 @@ class ArduinoService {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          deviceId,
-          command,
-          value: 1,
-          duration: action === 'nutrients' ? 3000 : 5000
-        })
+        body: JSON.stringify(request)
       });
 
-      if (response.ok) {
-        const result = await response.json();
-        console.log('Command sent successfully:', result);
+      if (response.status === 409) {
+        // A replay of a command the backend already accepted
+        console.warn('Duplicate command ignored by backend');
+        return true;
+      } else if (response.ok) {
+        const result: SendCommandResponse = await response.json();
+        console.log('Command queued:', result.command);
         
-        // Update local state immediately for better UX
-        if (action === 'water') {
-          this.wateringActive = !this.wateringActive;
-        } else if (action === 'light') {
-          this.lightActive = !this.lightActive;
+        // Actuator state only changes once the device acknowledges the command
+        if (!this.pendingCommands[result.command.id] && result.command.status === 'pending') {
+          const command = { ...result.command, action };
+          this.pendingCommands[command.id] = command;
+          this.emit('command', command);
         }
         
         return true;
+      } else if (response.status === 423) {
+        // A safety interlock refused to start the actuator
+        const refused: InterlockRefusedResponse = await response.json();
+        console.warn('Command refused by interlock:', refused.interlock);
+        this.emit('controlError', {
+          action,
+          success: false,
+          message: refused.message,
+          interlock: refused.interlock.reason
+        });
+        return false;
       } else {
         const error = await response.text();
         console.error('Command failed:', error);
@@ -479,49 +765,552 @@ class ArduinoService {
     }
   }
 
-  public getReservoirLevels(): ReservoirLevels {
-    return this.currentReservoirLevels;
+  private applyEmergencyStop(state: EmergencyStopState): void {
+    this.emergencyStop = state;
+    this.emit('emergencyStop', state);
   }
 
-  public async getHistoricalData(): Promise<SensorData[]> {
-    return this.historicalData[this.plantType] || [];
+  public getEmergencyStop(): EmergencyStopState {
+    return this.emergencyStop;
   }
 
-  public isWateringActive(): boolean {
-    return this.wateringActive;
+  // Latch the emergency stop: the backend cancels waiting commands and
+  // switches off every pump and light until the stop is cleared
+  public async engageEmergencyStop(request: EngageEmergencyStopRequest = {}): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.backendUrl}/emergency-stop`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request)
+      });
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      
+      const result: EmergencyStopResponse = await response.json();
+      this.applyEmergencyStop(result.state);
+      return true;
+    } catch (error) {
+      console.error('Failed to engage emergency stop:', error instanceof Error ? error.message : error);
+      return false;
+    }
   }
 
-  public isLightActive(): boolean {
-    return this.lightActive;
+  public async clearEmergencyStop(clearedBy?: string): Promise<boolean> {
+    try {
+      const request: ClearEmergencyStopRequest = { clearedBy };
+      const response = await fetch(`${this.backendUrl}/emergency-stop/clear`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request)
+      });
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      
+      const result: EmergencyStopResponse = await response.json();
+      this.applyEmergencyStop(result.state);
+      return true;
+    } catch (error) {
+      console.warn('Failed to clear emergency stop:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  private applyIrrigationStatus(status: IrrigationStatus): void {
+    this.irrigationStatuses[status.plantType] = status;
+    this.emit('irrigation', status);
+  }
+
+  public getIrrigationStatus(plantType: PlantType): IrrigationStatus | null {
+    return this.irrigationStatuses[plantType] || null;
+  }
+
+  // Switch a level's irrigation between auto and manual or update its band
+  public async saveIrrigation(plantType: PlantType, changes: SaveIrrigationRequest): Promise<IrrigationStatus | null> {
+    try {
+      const response = await fetch(`${this.backendUrl}/automation/${encodeURIComponent(plantType)}/irrigation`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      });
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      
+      const result: SaveIrrigationResponse = await response.json();
+      this.applyIrrigationStatus(result.status);
+      return result.status;
+    } catch (error) {
+      console.warn(`Failed to save irrigation of ${plantType}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  private applyLightingStatus(status: LightingStatus): void {
+    this.lightingStatuses[status.plantType] = status;
+    this.emit('lighting', status);
+  }
+
+  public getLightingStatus(plantType: PlantType): LightingStatus | null {
+    return this.lightingStatuses[plantType] || null;
   }
 
-  public on(event: string, callback: Function): void {
-    if (!this.listeners.has(event)) {
-      this.listeners.set(event, []);
+  // Switch a level's grow light between auto and manual or change its photoperiod
+  public async saveLighting(plantType: PlantType, changes: SaveLightingRequest): Promise<LightingStatus | null> {
+    try {
+      const response = await fetch(`${this.backendUrl}/automation/${encodeURIComponent(plantType)}/lighting`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      });
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      
+      const result: SaveLightingResponse = await response.json();
+      this.applyLightingStatus(result.status);
+      return result.status;
+    } catch (error) {
+      console.warn(`Failed to save lighting of ${plantType}:`, error instanceof Error ? error.message : error);
+      return null;
     }
-    this.listeners.get(event)?.push(callback);
   }
 
-  public off(event: string, callback: Function): void {
-    if (!this.listeners.has(event)) return;
+  public getRegistry(): Registry {
+    return this.registry;
+  }
+
+  // Fetch levels and devices from the backend; keeps the last known registry on failure
+  public async loadRegistry(): Promise<Registry> {
+    try {
+      const response = await fetch(`${this.backendUrl}/registry`);
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      
+      const registry: RegistryResponse = await response.json();
+      this.applyRegistry(registry);
+    } catch (error) {
+      console.warn('Failed to load level registry:', error instanceof Error ? error.message : error);
+    }
     
-    const callbacks = this.listeners.get(event);
-    if (callbacks) {
-      const index = callbacks.indexOf(callback);
-      if (index !== -1) {
-        callbacks.splice(index, 1);
+    return this.registry;
+  }
+
+  // Create or update a level
+  public async saveLevel(plantType: PlantType, changes: SaveLevelRequest): Promise<GrowLevel | null> {
+    try {
+      const response = await fetch(`${this.backendUrl}/levels/${encodeURIComponent(plantType)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      });
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      
+      const result: SaveLevelResponse = await response.json();
+      await this.loadRegistry();
+      return result.level;
+    } catch (error) {
+      console.warn(`Failed to save level ${plantType}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  public async deleteLevel(plantType: PlantType): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.backendUrl}/levels/${encodeURIComponent(plantType)}`, { method: 'DELETE' });
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      
+      this.applyRegistry(await response.json());
+      return true;
+    } catch (error) {
+      console.warn(`Failed to delete level ${plantType}:`, error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  // Register or rename a device
+  public async saveDevice(deviceId: string, name: string): Promise<RegisteredDevice | null> {
+    try {
+      const response = await fetch(`${this.backendUrl}/devices/${encodeURIComponent(deviceId)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name })
+      });
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
       }
+      
+      const result: SaveDeviceResponse = await response.json();
+      await this.loadRegistry();
+      return result.device;
+    } catch (error) {
+      console.warn(`Failed to save device ${deviceId}:`, error instanceof Error ? error.message : error);
+      return null;
     }
   }
 
-  private emit(event: string, data: any): void {
-    if (!this.listeners.has(event)) return;
+  public getReservoirLevels(): ReservoirLevels {
+    return this.currentReservoirLevels;
+  }
+
+  public getActivePlant(): PlantType {
+    return this.plantType;
+  }
+
+  // Latest combined reading of any level, not only the active one
+  public getLevelData(plantType: PlantType): SensorData | null {
+    return this.buildPlantData(plantType);
+  }
+
+  // Readings within a time range, read from the persistent cache and the in-memory history
+  public async getHistoricalData(query: HistoryQuery = {}): Promise<SensorData[]> {
+    const plantType = query.plantType || this.plantType;
+    const from = query.from ?? 0;
+    const to = query.to ?? Date.now();
+    
+    const cached = await this.cache.querySensorData({ plantType, from, to });
+    const inMemory = (this.historicalData[plantType] || []).filter(reading => {
+      const time = new Date(reading.timestamp).getTime();
+      return time >= from && time <= to;
+    });
     
-    const callbacks = this.listeners.get(event);
-    if (callbacks) {
-      callbacks.forEach(callback => callback(data));
+    return mergeReadings(cached, inMemory);
+  }
+
+  // Bucketed series per metric, aggregated by the backend (defaults: last 24 hours, 10m buckets, avg)
+  // or null when the backend cannot be reached or rejects the query
+  public async queryHistory<M extends HistoryMetric>(query: HistorySeriesQuery<M>): Promise<Record<M, DataPoint[]> | null> {
+    const plantType = query.plantType || this.plantType;
+    const to = query.to ?? Date.now();
+    const from = query.from ?? to - 24 * 60 * 60 * 1000;
+    const params = new URLSearchParams({
+      from: String(from),
+      to: String(to),
+      metrics: query.metrics.join(','),
+      bucket: query.bucket || '10m',
+      agg: query.agg || 'avg',
+    });
+
+    try {
+      const response = await fetch(`${this.backendUrl}/historical-data/${plantType}?${params}`);
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      
+      const result: HistorySeriesResponse = await response.json();
+      const series = {} as Record<M, DataPoint[]>;
+      query.metrics.forEach(metric => {
+        series[metric] = result.series[metric] || [];
+      });
+      return series;
+    } catch (error) {
+      console.warn(`Failed to query history for ${plantType}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  public async getCommandHistory(query: HistoryQuery = {}): Promise<CommandHistoryEntry[]> {
+    const plantType = query.plantType || this.plantType;
+    const to = query.to ?? Date.now();
+    const from = query.from ?? to - 24 * 60 * 60 * 1000;
+
+    try {
+      const response = await fetch(`${this.backendUrl}/command-history/${plantType}?from=${from}&to=${to}`);
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      
+      const result: CommandHistoryResponse = await response.json();
+      return result.commands;
+    } catch (error) {
+      console.warn(`Failed to load command history for ${plantType}:`, error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
+  // Actuator state, connection and firmware of a device
+  public async getDeviceStatus(deviceId: string): Promise<DeviceStatusResponse | null> {
+    try {
+      const response = await fetch(`${this.backendUrl}/device-status/${encodeURIComponent(deviceId)}`);
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      
+      const result: DeviceStatusResponse = await response.json();
+      return result;
+    } catch (error) {
+      console.warn(`Failed to load status of ${deviceId}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  // Keep the latest plan of a level and pass it on to its listeners
+  private applyNutrientPlan(plan: NutrientPlan): void {
+    this.nutrientPlans[plan.plantType] = plan;
+    this.emit('nutrientPlan', plan);
+  }
+
+  public getNutrientPlan(plantType: PlantType): NutrientPlan | null {
+    return this.nutrientPlans[plantType] || null;
+  }
+
+  // Switch a level between recommended and automatic fertilizer doses or change its NPK targets
+  public async saveNutrientSettings(plantType: PlantType, changes: SaveNutrientSettingsRequest): Promise<NutrientPlan | null> {
+    try {
+      const response = await fetch(`${this.backendUrl}/automation/${encodeURIComponent(plantType)}/nutrients`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      });
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      
+      const result: SaveNutrientSettingsResponse = await response.json();
+      if (result.plan) this.applyNutrientPlan(result.plan);
+      return result.plan;
+    } catch (error) {
+      console.warn(`Failed to save nutrient settings of ${plantType}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  public async getNutrientDoses(plantType: PlantType, limit = 10): Promise<NutrientDose[] | null> {
+    try {
+      const response = await fetch(`${this.backendUrl}/nutrient-doses/${encodeURIComponent(plantType)}?limit=${limit}`);
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      
+      const result: NutrientDosesResponse = await response.json();
+      return result.doses;
+    } catch (error) {
+      console.warn(`Failed to load nutrient doses of ${plantType}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  // Jobs of a level with their occurrences over the next `days` days
+  public async getSchedules(plantType: PlantType, days = 7): Promise<SchedulesPayload | null> {
+    try {
+      const response = await fetch(`${this.backendUrl}/schedules/${encodeURIComponent(plantType)}?days=${days}`);
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      
+      const result: SchedulesResponse = await response.json();
+      return result;
+    } catch (error) {
+      console.warn(`Failed to load schedules of ${plantType}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  // Create a job, or change or pause an existing one when jobId is given
+  public async saveSchedule(plantType: PlantType, changes: SaveScheduleRequest, jobId?: string): Promise<ScheduledJob | null> {
+    try {
+      const url = `${this.backendUrl}/schedules/${encodeURIComponent(plantType)}${jobId ? `/${encodeURIComponent(jobId)}` : ''}`;
+      const response = await fetch(url, {
+        method: jobId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      });
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      
+      const result: SaveScheduleResponse = await response.json();
+      return result.job;
+    } catch (error) {
+      console.warn(`Failed to save schedule of ${plantType}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  public async deleteSchedule(plantType: PlantType, jobId: string): Promise<boolean> {
+    try {
+      const response = await fetch(
+        `${this.backendUrl}/schedules/${encodeURIComponent(plantType)}/${encodeURIComponent(jobId)}`,
+        { method: 'DELETE' }
+      );
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      
+      this.emit('schedules', await response.json());
+      return true;
+    } catch (error) {
+      console.warn(`Failed to delete schedule ${jobId}:`, error instanceof Error ? error.message : error);
+      return false;
     }
   }
+
+  // Skip one upcoming occurrence of a job, or run it after all
+  public async skipOccurrence(plantType: PlantType, jobId: string, occurrenceAt: string, skipped: boolean): Promise<boolean> {
+    try {
+      const request: SkipOccurrenceRequest = { occurrenceAt, skipped };
+      const response = await fetch(
+        `${this.backendUrl}/schedules/${encodeURIComponent(plantType)}/${encodeURIComponent(jobId)}/skips`,
+        {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(request)
+        }
+      );
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return true;
+    } catch (error) {
+      console.warn(`Failed to ${skipped ? 'skip' : 'restore'} ${occurrenceAt} of ${jobId}:`, error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  public async getScheduleRuns(plantType: PlantType, limit = 10): Promise<ScheduleRun[] | null> {
+    try {
+      const response = await fetch(`${this.backendUrl}/schedule-runs/${encodeURIComponent(plantType)}?limit=${limit}`);
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      
+      const result: ScheduleRunsResponse = await response.json();
+      return result.runs;
+    } catch (error) {
+      console.warn(`Failed to load schedule runs of ${plantType}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  // Flow rate of each pump of a device, used to turn ml doses into run times
+  public async getPumpCalibration(deviceId: string): Promise<PumpCalibrationResponse | null> {
+    try {
+      const response = await fetch(`${this.backendUrl}/pump-calibration/${encodeURIComponent(deviceId)}`);
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      
+      const result: PumpCalibrationResponse = await response.json();
+      return result;
+    } catch (error) {
+      console.warn(`Failed to load pump calibration of ${deviceId}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  public async savePumpCalibration(deviceId: string, pump: PumpName, mlPerSecond: number): Promise<PumpCalibrationResponse | null> {
+    try {
+      const request: SavePumpCalibrationRequest = { mlPerSecond };
+      const response = await fetch(`${this.backendUrl}/pump-calibration/${encodeURIComponent(deviceId)}/${pump}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request)
+      });
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      
+      const result: PumpCalibrationResponse = await response.json();
+      return result;
+    } catch (error) {
+      console.warn(`Failed to save ${pump} pump calibration of ${deviceId}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  // Fetch pending commands the way a polling board does. They are leased to
+  // the device, so only use this on behalf of the device (e.g. a simulator).
+  public async pollCommands(deviceId: string, limit?: number): Promise<GetCommandsResponse | null> {
+    try {
+      const query = limit !== undefined ? `?limit=${limit}` : '';
+      const response = await fetch(`${this.backendUrl}/get-commands/${encodeURIComponent(deviceId)}${query}`);
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      
+      const result: GetCommandsResponse = await response.json();
+      return result;
+    } catch (error) {
+      console.warn(`Failed to poll commands for ${deviceId}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  // Report the outcome of a polled command on behalf of its device
+  public async acknowledgeCommand(ack: CommandAckPayload): Promise<BackendCommand | null> {
+    try {
+      const response = await fetch(`${this.backendUrl}/command-ack`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ack)
+      });
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      
+      const result: CommandAckResponse = await response.json();
+      return result.command;
+    } catch (error) {
+      console.warn(`Failed to acknowledge command ${ack.commandId}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  public async getReservoirHistory(query: Omit<HistoryQuery, 'plantType'> = {}): Promise<TimestampedReservoirLevels[]> {
+    return this.cache.queryReservoirLevels(query);
+  }
+
+  public getHistoryRetentionDays(): number {
+    return this.cache.getRetentionDays();
+  }
+
+  public setHistoryRetentionDays(days: number): void {
+    this.cache.setRetentionDays(days);
+  }
+
+  // Command for an action of the active level that its device has not acknowledged yet
+  public getPendingCommand(action: ControlActuator): CommandStatusPayload | null {
+    const deviceId = this.getActuatorDeviceId(this.plantType);
+    return Object.values(this.pendingCommands).find(command =>
+      command.deviceId === deviceId && command.action === action
+    ) || null;
+  }
+
+  public isWateringActive(): boolean {
+    return this.wateringActive;
+  }
+
+  public isLightActive(): boolean {
+    return this.lightActive;
+  }
 }
 
 export const arduinoService = new ArduinoService();
@@ -0,0 +1,224 @@
+import { SensorData, ReservoirLevels, TimestampedReservoirLevels } from '../types';
+
+// Persistent time-series cache backed by IndexedDB.
+// Samples are partitioned by device, plant type and kind so that a week of
+// readings survives page reloads and backend restarts.
+
+type SampleKind = 'sensor' | 'reservoir';
+
+interface StoredSample {
+  partition: string; // `${deviceId}|${plantType}|${kind}`
+  time: number;
+  deviceId: string;
+  plantType: string;
+  kind: SampleKind;
+  data: SensorData | TimestampedReservoirLevels;
+}
+
+export interface TimeRangeQuery {
+  plantType: string;
+  deviceId?: string;
+  from?: number; // Epoch milliseconds, inclusive
+  to?: number; // Epoch milliseconds, inclusive
+}
+
+export interface TimeSeriesCacheOptions {
+  retentionDays?: number;
+}
+
+const DB_NAME = 'smartAgriTimeSeries';
+const DB_VERSION = 1;
+const STORE_NAME = 'samples';
+const RESERVOIR_PARTITION = { deviceId: 'reservoir', plantType: 'shared' };
+const DEFAULT_RETENTION_DAYS = 7;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000; // Prune expired samples at most hourly
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export class TimeSeriesCache {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private retentionMs: number;
+  private lastPrune = 0;
+
+  constructor(options: TimeSeriesCacheOptions = {}) {
+    this.retentionMs = (options.retentionDays ?? DEFAULT_RETENTION_DAYS) * 24 * 60 * 60 * 1000;
+  }
+
+  public getRetentionDays(): number {
+    return this.retentionMs / (24 * 60 * 60 * 1000);
+  }
+
+  public setRetentionDays(days: number): void {
+    if (!Number.isFinite(days) || days <= 0) return;
+    this.retentionMs = days * 24 * 60 * 60 * 1000;
+    this.lastPrune = 0;
+    this.prune();
+  }
+
+  public async addSensorData(plantType: string, reading: SensorData): Promise<void> {
+    await this.put({
+      partition: this.getPartition(reading.deviceId || 'unknown', plantType, 'sensor'),
+      time: new Date(reading.timestamp).getTime(),
+      deviceId: reading.deviceId || 'unknown',
+      plantType,
+      kind: 'sensor',
+      data: reading,
+    });
+  }
+
+  public async addSensorDataBatch(plantType: string, readings: SensorData[]): Promise<void> {
+    await this.putMany(readings.map(reading => ({
+      partition: this.getPartition(reading.deviceId || 'unknown', plantType, 'sensor'),
+      time: new Date(reading.timestamp).getTime(),
+      deviceId: reading.deviceId || 'unknown',
+      plantType,
+      kind: 'sensor' as const,
+      data: reading,
+    })));
+  }
+
+  public async addReservoirLevels(levels: ReservoirLevels, timestamp: string = new Date().toISOString()): Promise<void> {
+    await this.put({
+      partition: this.getPartition(RESERVOIR_PARTITION.deviceId, RESERVOIR_PARTITION.plantType, 'reservoir'),
+      time: new Date(timestamp).getTime(),
+      ...RESERVOIR_PARTITION,
+      kind: 'reservoir',
+      data: { ...levels, timestamp },
+    });
+  }
+
+  // Sensor readings for a plant type (optionally a single device), oldest first
+  public async querySensorData(query: TimeRangeQuery): Promise<SensorData[]> {
+    const samples = await this.query('sensor', query);
+    return samples.map(sample => sample.data as SensorData);
+  }
+
+  public async queryReservoirLevels(query: Omit<TimeRangeQuery, 'plantType' | 'deviceId'> = {}): Promise<TimestampedReservoirLevels[]> {
+    const samples = await this.query('reservoir', { ...query, ...RESERVOIR_PARTITION });
+    return samples.map(sample => sample.data as TimestampedReservoirLevels);
+  }
+
+  // Delete every sample older than the retention window
+  public async prune(): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+
+    this.lastPrune = Date.now();
+    const cutoff = Date.now() - this.retentionMs;
+
+    try {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const index = transaction.objectStore(STORE_NAME).index('time');
+      const request = index.openCursor(IDBKeyRange.upperBound(cutoff, true));
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+
+      await transactionDone(transaction);
+    } catch (error) {
+      console.warn('Failed to prune time-series cache:', error);
+    }
+  }
+
+  private getPartition(deviceId: string, plantType: string, kind: SampleKind): string {
+    return `${deviceId}|${plantType}|${kind}`;
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    if (typeof indexedDB === 'undefined') {
+      console.warn('IndexedDB is not available; history will not persist across reloads');
+      this.dbPromise = Promise.resolve(null);
+      return this.dbPromise;
+    }
+
+    this.dbPromise = new Promise(resolve => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: ['partition', 'time'] });
+          store.createIndex('time', 'time');
+          store.createIndex('plantKindTime', ['plantType', 'kind', 'time']);
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Failed to open time-series cache:', request.error);
+        resolve(null);
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  private async put(sample: StoredSample): Promise<void> {
+    await this.putMany([sample]);
+  }
+
+  private async putMany(samples: StoredSample[]): Promise<void> {
+    const validSamples = samples.filter(sample => !isNaN(sample.time));
+    if (validSamples.length === 0) return;
+
+    const db = await this.open();
+    if (!db) return;
+
+    try {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      validSamples.forEach(sample => store.put(sample));
+      await transactionDone(transaction);
+    } catch (error) {
+      console.warn('Failed to write to time-series cache:', error);
+    }
+
+    if (Date.now() - this.lastPrune > PRUNE_INTERVAL_MS) {
+      this.prune();
+    }
+  }
+
+  private async query(kind: SampleKind, query: TimeRangeQuery): Promise<StoredSample[]> {
+    const db = await this.open();
+    if (!db) return [];
+
+    const from = Math.max(query.from ?? 0, Date.now() - this.retentionMs);
+    const to = query.to ?? Date.now();
+    if (from > to) return [];
+
+    try {
+      const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+
+      if (query.deviceId) {
+        const partition = this.getPartition(query.deviceId, query.plantType, kind);
+        return await requestToPromise(store.getAll(IDBKeyRange.bound([partition, from], [partition, to])));
+      }
+
+      const index = store.index('plantKindTime');
+      return await requestToPromise(
+        index.getAll(IDBKeyRange.bound([query.plantType, kind, from], [query.plantType, kind, to]))
+      ) as StoredSample[];
+    } catch (error) {
+      console.warn('Failed to query time-series cache:', error);
+      return [];
+    }
+  }
+}
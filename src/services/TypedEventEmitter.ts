@@ -0,0 +1,92 @@
+// Minimal event emitter keyed by an event map, e.g. { data: SensorData }.
+// Event names and payloads are checked at compile time, and every
+// subscription returns a handle that removes it again.
+
+export type Listener<T> = (payload: T) => void;
+
+export type WildcardListener<Events> = (event: keyof Events, payload: Events[keyof Events]) => void;
+
+export type Unsubscribe = () => void;
+
+interface ListenerEntry<T> {
+  listener: Listener<T>;
+  once: boolean;
+}
+
+export class TypedEventEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, ListenerEntry<Events[keyof Events]>[]>();
+  private wildcardListeners: WildcardListener<Events>[] = [];
+
+  public on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): Unsubscribe;
+  public on(event: '*', listener: WildcardListener<Events>): Unsubscribe;
+  public on<K extends keyof Events>(
+    event: K | '*',
+    listener: Listener<Events[K]> | WildcardListener<Events>
+  ): Unsubscribe {
+    if (event === '*') {
+      const wildcard = listener as WildcardListener<Events>;
+      this.wildcardListeners.push(wildcard);
+      return () => this.offAny(wildcard);
+    }
+
+    return this.addListener(event, listener as Listener<Events[K]>, false);
+  }
+
+  public once<K extends keyof Events>(event: K, listener: Listener<Events[K]>): Unsubscribe {
+    return this.addListener(event, listener, true);
+  }
+
+  public off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    const entries = this.listeners.get(event);
+    if (!entries) return;
+
+    const index = entries.findIndex(entry => entry.listener === listener);
+    if (index !== -1) {
+      entries.splice(index, 1);
+    }
+  }
+
+  public offAny(listener: WildcardListener<Events>): void {
+    const index = this.wildcardListeners.indexOf(listener);
+    if (index !== -1) {
+      this.wildcardListeners.splice(index, 1);
+    }
+  }
+
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const entries = this.listeners.get(event);
+
+    if (entries) {
+      // Iterate over a copy so listeners can unsubscribe while being called
+      [...entries].forEach(entry => {
+        if (entry.once) {
+          this.removeEntry(event, entry);
+        }
+        (entry.listener as Listener<Events[K]>)(payload);
+      });
+    }
+
+    [...this.wildcardListeners].forEach(listener => listener(event, payload));
+  }
+
+  private addListener<K extends keyof Events>(event: K, listener: Listener<Events[K]>, once: boolean): Unsubscribe {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, []);
+    }
+    const entry = { listener, once } as ListenerEntry<Events[keyof Events]>;
+    this.listeners.get(event)?.push(entry);
+
+    // The handle removes this registration, not another one of the same function
+    return () => this.removeEntry(event, entry);
+  }
+
+  private removeEntry(event: keyof Events, entry: ListenerEntry<Events[keyof Events]>): void {
+    const entries = this.listeners.get(event);
+    if (!entries) return;
+
+    const index = entries.indexOf(entry);
+    if (index !== -1) {
+      entries.splice(index, 1);
+    }
+  }
+}
@@ -0,0 +1,339 @@
+import { DataPoint, GrowLevel, HistoryQuery, PlantType, RegisteredDevice, Registry } from './index';
+import {
+  ActuatorAction,
+  ActuatorState,
+  AutomationMode,
+  BackendCommand,
+  CommandStatusPayload,
+  DeviceSensorData,
+  DeviceState,
+  DoseRequest,
+  EmergencyStopState,
+  InterlockRefusal,
+  IrrigationStatus,
+  LightingStatus,
+  NutrientDose,
+  NutrientName,
+  NutrientPlan,
+  ScheduledJob,
+  ScheduleRun,
+  SchedulesPayload,
+} from './socket';
+
+// HTTP response shapes returned by backend.js routes.
+// backend.js references these interfaces through JSDoc.
+
+// Storage tier a history response was read from
+export type HistoryTier = 'raw' | '1m' | '1h';
+
+// Reading from a rollup tier: bucket averages plus min/max per metric
+export interface RollupSensorData extends DeviceSensorData {
+  sampleCount: number;
+  min: Partial<Record<keyof DeviceSensorData, number>>;
+  max: Partial<Record<keyof DeviceSensorData, number>>;
+}
+
+// GET /historical-data/:plantType
+export interface HistoricalDataResponse {
+  plantType: PlantType;
+  tier: HistoryTier;
+  from?: string; // Only present when a range was requested
+  to?: string;
+  data: (DeviceSensorData | RollupSensorData)[];
+  count: number;
+}
+
+// Query parameters for bucketed series from GET /historical-data/:plantType
+export type HistoryMetric = Exclude<keyof DeviceSensorData, 'timestamp' | 'deviceId'> | 'nutrients';
+export type HistoryBucket = '1m' | '10m' | '1h' | '1d';
+export type HistoryAggregation = 'avg' | 'min' | 'max' | 'last' | 'count';
+
+export interface HistorySeriesQuery<M extends HistoryMetric = HistoryMetric> extends HistoryQuery {
+  metrics: M[];
+  bucket?: HistoryBucket; // Defaults to 10m
+  agg?: HistoryAggregation; // Defaults to avg
+}
+
+export interface HistorySeriesResponse {
+  plantType: PlantType;
+  tier: HistoryTier;
+  from: string;
+  to: string;
+  bucket: HistoryBucket;
+  agg: HistoryAggregation;
+  series: Partial<Record<HistoryMetric, DataPoint[]>>;
+}
+
+// How long each tier is kept; hourlyDays null keeps hourly buckets forever
+export interface RetentionPolicy {
+  rawHours: number;
+  minuteDays: number;
+  hourlyDays: number | null;
+}
+
+// GET|PUT /retention-policy/:plantType
+export interface RetentionPolicyResponse {
+  plantType: PlantType;
+  policy: RetentionPolicy;
+}
+
+// GET /command-history/:plantType
+export type CommandHistoryEntry = CommandStatusPayload;
+
+export interface CommandHistoryResponse {
+  plantType: PlantType;
+  from: string;
+  to: string;
+  commands: CommandHistoryEntry[];
+  count: number;
+}
+
+// POST /send-command. Pump and light commands need a state; a request
+// repeating an earlier idempotency key is rejected with 409.
+export interface SendCommandRequest {
+  deviceId: string;
+  command: string; // 'water', 'light', 'nutrients' or a backend command type
+  state?: ActuatorState;
+  idempotencyKey?: string;
+  dose?: DoseRequest; // Overrides duration
+  plantType?: PlantType;
+  value?: number;
+  duration?: number;
+}
+
+// 423 reply of /send-command when a safety interlock refuses the command
+export interface InterlockRefusedResponse {
+  error: 'Interlock engaged';
+  message: string;
+  interlock: InterlockRefusal;
+}
+
+// The command is pending until its device acknowledges it
+export interface SendCommandResponse {
+  status: 'success';
+  message: string;
+  command: BackendCommand;
+}
+
+// POST /command-ack takes a CommandAckPayload
+export interface CommandAckResponse {
+  status: 'success';
+  command: BackendCommand;
+}
+
+// GET /get-commands/:deviceId; returned commands are leased to the device
+// until leasedUntil and handed out again if it has not acknowledged them by then
+export interface LeasedCommand extends CommandStatusPayload {
+  leasedUntil: string;
+}
+
+export interface GetCommandsResponse {
+  deviceId: string;
+  commands: LeasedCommand[];
+  count: number;
+  leaseMs: number;
+  timestamp: string;
+}
+
+// Firmware a device last reported with /update or /get-commands
+export interface FirmwareInfo {
+  version: string | null;
+  board: string | null;
+  reportedAt: string;
+}
+
+// GET /device-status/:deviceId
+export interface DeviceStatusResponse {
+  deviceId: string;
+  name: string;
+  state: DeviceState; // Actuators, connection and last seen time
+  firmware: FirmwareInfo | null;
+  levels: PlantType[]; // Levels the device serves
+  pendingCommands: number;
+  timestamp: string;
+}
+
+// Pumps with a flow calibration
+export type PumpName = 'water' | 'nutrients';
+
+export interface PumpCalibration {
+  mlPerSecond: number;
+  calibrated: boolean; // False while the default rate for the pump kind is used
+  updatedAt: string | null;
+}
+
+// GET /pump-calibration/:deviceId and PUT /pump-calibration/:deviceId/:pump
+export interface PumpCalibrationResponse {
+  deviceId: string;
+  pumps: Record<PumpName, PumpCalibration>;
+}
+
+export interface SavePumpCalibrationRequest {
+  mlPerSecond: number;
+}
+
+// Safety limits of one actuator; null disables a limit
+export interface InterlockLimits {
+  minReservoirLevel: number | null; // Percent of the tank the actuator draws from
+  maxRunMs: number | null; // Longest run; switched actuators are turned off after it
+  cooldownMs: number | null; // Minimum time between starts
+  maxDosesPerDay: number | null; // Starts allowed in any 24 hours
+}
+
+// Switched actuator that is on and when it was turned on
+export interface ActuatorRun {
+  deviceId: string;
+  actuator: ActuatorAction;
+  startedAt: string;
+}
+
+// GET /interlocks and PUT /interlocks/:actuator
+export interface InterlockLimitsResponse {
+  limits: Record<ActuatorAction, InterlockLimits>;
+  runs: ActuatorRun[];
+}
+
+export type SaveInterlockLimitsRequest = Partial<InterlockLimits>;
+
+// POST /emergency-stop; engagedBy defaults to the caller's address
+export interface EngageEmergencyStopRequest {
+  reason?: string;
+  engagedBy?: string;
+}
+
+export interface ClearEmergencyStopRequest {
+  clearedBy?: string;
+}
+
+// GET /emergency-stop, POST /emergency-stop and POST /emergency-stop/clear.
+// Engaging also returns the commands it cancelled and the off commands it sent.
+export interface EmergencyStopResponse {
+  state: EmergencyStopState;
+  cancelledCommands?: BackendCommand[];
+  offCommands?: BackendCommand[];
+}
+
+// Irrigation automation settings of a level
+export interface IrrigationSettings {
+  mode: AutomationMode;
+  moistureMin: number; // Percent; a cycle starts below it
+  moistureMax: number; // Percent; the target is the middle of min and max
+  pulseMs: number; // Length of one watering pulse
+  soakMs: number; // Wait after each pulse before moisture is judged again
+  maxPulses: number; // Pulses per cycle before the automation gives up
+}
+
+// Grow light automation settings of a level
+export interface LightingSettings {
+  mode: AutomationMode;
+  lightsOnAt: string; // HH:MM, backend local time
+  photoperiodHours: number; // Hours the light may be on from lightsOnAt
+  luxMin: number; // The light goes on below it
+  hysteresisLux: number; // And off again at luxMin + hysteresisLux
+  minHoldMs: number; // Least time between two switches within the photoperiod
+  targetDli: number | null; // mol/m²/day; a day short of it is lit past the photoperiod
+  ppfdFactor: number; // µmol/m²/s per lux of the light source
+  maxExtensionHours: number; // Longest the photoperiod is extended by
+}
+
+// NPK dosing planner settings of a level
+export interface NutrientSettings {
+  mode: AutomationMode; // manual only recommends doses
+  targets: Record<NutrientName, { min: number; max: number }>; // mg/kg
+  defaultDoseMl: number; // Dose size until doses have been measured
+  maxDoseMl: number;
+  minIntervalMs: number; // Least time between two fertilizer doses
+  settleMs: number; // Time after a dose before its effect is measured
+}
+
+// GET /automation; nutrientPlan is null until the level has been evaluated
+export interface AutomationResponse {
+  levels: Record<PlantType, {
+    irrigation: IrrigationSettings;
+    irrigationStatus: IrrigationStatus;
+    lighting: LightingSettings;
+    lightingStatus: LightingStatus;
+    nutrients: NutrientSettings;
+    nutrientPlan: NutrientPlan | null;
+  }>;
+}
+
+// PUT /automation/:plantType/irrigation; omitted settings keep their value
+export type SaveIrrigationRequest = Partial<IrrigationSettings>;
+
+export interface SaveIrrigationResponse {
+  plantType: PlantType;
+  irrigation: IrrigationSettings;
+  status: IrrigationStatus;
+}
+
+// PUT /automation/:plantType/lighting; omitted settings keep their value
+export type SaveLightingRequest = Partial<LightingSettings>;
+
+export interface SaveLightingResponse {
+  plantType: PlantType;
+  lighting: LightingSettings;
+  status: LightingStatus;
+}
+
+// PUT /automation/:plantType/nutrients; omitted settings keep their value and
+// targets may name only the nutrients that change
+export type SaveNutrientSettingsRequest = Partial<Omit<NutrientSettings, 'targets'>> & {
+  targets?: Partial<NutrientSettings['targets']>;
+};
+
+export interface SaveNutrientSettingsResponse {
+  plantType: PlantType;
+  nutrients: NutrientSettings;
+  plan: NutrientPlan | null;
+}
+
+// GET /nutrient-doses/:plantType, newest first
+export interface NutrientDosesResponse {
+  plantType: PlantType;
+  doses: NutrientDose[];
+}
+
+// GET /schedules/:plantType?days= and DELETE /schedules/:plantType/:jobId
+export type SchedulesResponse = SchedulesPayload;
+
+// POST /schedules/:plantType creates a job from these fields; PUT
+// /schedules/:plantType/:jobId changes some of them
+export type SaveScheduleRequest = Partial<Pick<ScheduledJob, 'label' | 'action' | 'dose' | 'time' | 'days' | 'paused'>>;
+
+// PUT /schedules/:plantType/:jobId/skips
+export interface SkipOccurrenceRequest {
+  occurrenceAt: string;
+  skipped: boolean;
+}
+
+export interface SaveScheduleResponse {
+  plantType: PlantType;
+  job: ScheduledJob;
+}
+
+// GET /schedule-runs/:plantType, newest first
+export interface ScheduleRunsResponse {
+  plantType: PlantType;
+  runs: ScheduleRun[];
+}
+
+// GET /registry
+export type RegistryResponse = Registry;
+
+// PUT /levels/:plantType; omitted fields keep their current value and
+// sensorSources replaces the level's whole mapping
+export type SaveLevelRequest = Partial<Omit<GrowLevel, 'id'>>;
+
+export interface SaveLevelResponse {
+  level: GrowLevel;
+}
+
+// PUT /devices/:deviceId
+export interface SaveDeviceRequest {
+  name: string;
+}
+
+export interface SaveDeviceResponse {
+  device: RegisteredDevice;
+}
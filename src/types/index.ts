@@ -12,14 +12,56 @@ export interface AuthState {
   error: string | null;
 }
 
-// Plant types - Fixed to only Level 1 and Level 2
-export type PlantType = 'level1' | 'level2';
+// Plant types are the ids of the grow levels registered with the backend,
+// e.g. 'level1' and 'level2' on a fresh install
+export type PlantType = string;
+
+// Sensor fields a device can report
+export type SensorMetric =
+  | 'temperature'
+  | 'humidity'
+  | 'moisture'
+  | 'sunlight'
+  | 'nitrogen'
+  | 'phosphorus'
+  | 'potassium'
+  | 'waterLevel'
+  | 'fertilizerLevel';
+
+// Device supplying one metric of a level; the fallback is used while the
+// primary device has not reported the metric recently
+export interface SensorSource {
+  deviceId: string;
+  fallbackDeviceId?: string | null;
+}
+
+// Grow level from the backend registry and the devices serving it
+export interface GrowLevel {
+  id: PlantType;
+  name: string;
+  position: number; // Sort order in the sidebar
+  sensorDeviceId: string | null; // Device whose readings belong to this level
+  actuatorDeviceId: string | null; // Device that receives this level's commands
+  sensorSources: Partial<Record<SensorMetric, SensorSource>>; // Metrics taken from other devices
+}
+
+export interface RegisteredDevice {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface Registry {
+  levels: GrowLevel[];
+  devices: RegisteredDevice[];
+}
 
 export interface Plant {
   id: PlantType;
   name: string;
   image: string;
   waterUsagePerDay?: number; // Liters per day
+  targetDli?: number; // Daily light integral, mol/m²/day
   optimalConditions: {
     moisture: { min: number; max: number; unit: string };
     waterLevel: { min: number; max: number; unit: string };
@@ -27,24 +69,24 @@ export interface Plant {
     temperature: { min: number; max: number; unit: string };
     humidity: { min: number; max: number; unit: string };
     nutrientLevel: { min: number; max: number; unit: string };
+    nitrogen: { min: number; max: number; unit: string };
+    phosphorus: { min: number; max: number; unit: string };
+    potassium: { min: number; max: number; unit: string };
   };
 }
 
-// Sensor data types with device-specific data distribution
+// Sensor data of one level, combined from the devices in its sensor sources
+// (by default temperature, humidity and the water tank come from ESP32_1 and
+// the fertilizer tank from ESP32_2 for both levels)
 export interface SensorData {
-  // Temperature and humidity from ESP32_1 for both levels
   temperature: number;
   humidity: number;
   
-  // Water level from ESP32_1 (displayed in reservoir for both levels)
+  // Tank levels (displayed in reservoir for all levels)
   waterLevel: number;
-  
-  // Fertilizer level from ESP32_2 (displayed in reservoir for both levels)
   fertilizerLevel: number;
   
-  // Level-specific data:
-  // Level 1: moisture, sunlight, NPK from ESP32_1
-  // Level 2: moisture, sunlight, NPK from ESP32_2
+  // Level-specific data, from the level's own sensor device by default
   moisture: number; // Soil moisture percentage
   sunlight: number; // Lux value
   nitrogen: number; // N value (mg/kg)
@@ -52,7 +94,7 @@ export interface SensorData {
   potassium: number; // K value (mg/kg)
   
   timestamp: string;
-  deviceId?: string; // 'esp32_1' or 'esp32_2'
+  deviceId?: string; // Sensor device of the level, e.g. 'esp32_1'
 }
 
 export interface PlantHealth {
@@ -61,25 +103,91 @@ export interface PlantHealth {
 }
 
 export interface ReservoirLevels {
-  water: number; // Percentage from ESP32_1
+  water: number; // Percentage
   waterCm: number; // Centimeters
-  fertilizer: number; // Percentage from ESP32_2
+  fertilizer: number; // Percentage
   fertilizerCm: number; // Centimeters
 }
 
+export interface TimestampedReservoirLevels extends ReservoirLevels {
+  timestamp: string;
+}
+
 export interface ArduinoStatus {
   connected: boolean;
   lastConnected: string | null;
 }
 
+// Full sensor history for one plant type, emitted whenever it changes
+export interface HistoryUpdate {
+  plantType: PlantType;
+  data: SensorData[];
+}
+
+// Latest reading of one level, emitted for every level on each update
+export interface LevelDataUpdate {
+  plantType: PlantType;
+  data: SensorData;
+}
+
+// Time range for reading stored history (epoch milliseconds)
+export interface HistoryQuery {
+  plantType?: PlantType;
+  from?: number;
+  to?: number;
+}
+
+// Time window shown by a history chart; custom ranges carry from/to (epoch milliseconds)
+export type ChartRangePreset = '1h' | '6h' | '24h' | '7d' | '30d' | 'custom';
+
+export interface ChartRange {
+  preset: ChartRangePreset;
+  from?: number;
+  to?: number;
+}
+
+// Absolute time window (epoch milliseconds)
+export interface TimeWindow {
+  from: number;
+  to: number;
+}
+
 // Historical data point
 export interface DataPoint {
   timestamp: string;
   value: number;
+  count?: number; // Readings aggregated into this point
 }
 
-// Control actions
-export type ControlAction = 'water' | 'light' | 'nutrients';
+// Actuators the controls drive
+export type ControlActuator = 'water' | 'light' | 'nutrients';
+
+// Control actions. The pump and light are switched to an explicit state, so a
+// repeated request cannot invert them; nutrients is a one-shot dose.
+export type ControlAction = 'water:on' | 'water:off' | 'light:on' | 'light:off' | 'nutrients';
+
+// Safety interlock that refused to start an actuator
+export type InterlockReason = 'emergency_stop' | 'reservoir_low' | 'max_run_time' | 'cooldown' | 'daily_cap';
+
+// Outcome of a control command, reported via controlSuccess / controlError
+export interface ControlResult {
+  action?: ControlActuator;
+  commandId?: string;
+  interlock?: InterlockReason; // Set when an interlock refused the command
+  success: boolean;
+  message: string;
+  timestamp?: string;
+}
+
+// Connection state changes emitted by ArduinoService
+export interface ConnectionEvent {
+  connected: boolean;
+}
+
+export interface ServiceError {
+  message: string;
+  details?: string;
+}
 
 // Alert types
 export type AlertType = 'info' | 'warning' | 'error' | 'success';
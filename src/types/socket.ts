@@ -0,0 +1,414 @@
+import { ControlAction, InterlockReason, PlantType, Registry, ReservoirLevels, SensorMetric } from './index';
+
+// Socket.IO event contract shared by ArduinoService and backend.js.
+// backend.js references these interfaces through JSDoc, so any change here
+// must be mirrored by the emits and handlers on the server side.
+
+export type DeviceConnectionStatus = 'connected' | 'disconnected';
+
+export type BackendCommandType =
+  | 'light_on'
+  | 'light_off'
+  | 'water_plant'
+  | 'add_nutrients'
+  | 'water_pump'
+  | 'fert_pump'
+  | 'led'
+  | 'grow_light'
+  | 'nutrient_pump';
+
+// Actuator a command drives
+export type ActuatorAction = 'water' | 'light' | 'nutrients';
+
+export type CommandStatus = 'pending' | 'completed' | 'failed' | 'timeout' | 'cancelled';
+
+// State a switched actuator (pump or light) is asked to take
+export type ActuatorState = 'on' | 'off';
+
+// Why the backend refused to start an actuator. limit and value are in the
+// unit of the limit (percent, ms or doses); retryAfterMs is set when waiting helps.
+export interface InterlockRefusal {
+  reason: InterlockReason;
+  actuator: ActuatorAction;
+  message: string;
+  limit?: number;
+  value?: number;
+  retryAfterMs?: number;
+}
+
+// Emergency stop latch. While engaged the backend refuses to start any
+// actuator; it stays engaged until an operator clears it.
+export interface EmergencyStopState {
+  engaged: boolean;
+  engagedAt: string | null;
+  engagedBy: string | null;
+  reason: string | null;
+  clearedAt: string | null;
+  clearedBy: string | null;
+}
+
+// Irrigation automation of a level. In auto mode the backend waters in
+// pulses with soak intervals while moisture is below moistureMin, until it
+// reaches the target in the middle of the band.
+export type AutomationMode = 'manual' | 'auto';
+
+export type IrrigationPhase =
+  | 'manual' // Automation off
+  | 'idle' // Moisture is fine
+  | 'watering' // A pulse is running
+  | 'soaking' // Waiting for the last pulse to soak in
+  | 'blocked' // An interlock or the pulse limit stopped it
+  | 'waiting'; // No actuator device or no recent moisture reading
+
+export interface IrrigationStatus {
+  plantType: PlantType;
+  mode: AutomationMode;
+  phase: IrrigationPhase;
+  message: string;
+  moisture: number | null;
+  moistureMin: number;
+  moistureMax: number;
+  target: number;
+  pulses: number; // Pulses in the current cycle
+  lastPulseAt: string | null;
+  nextCheckAt: string | null; // End of the soak interval
+  interlock?: InterlockReason; // When an interlock refused the last pulse
+  updatedAt: string;
+}
+
+// Grow light automation of a level. In auto mode the light is off outside
+// the daily photoperiod; inside it the light goes on below luxMin and off
+// again at luxOff, the top of the hysteresis band.
+export type LightingPhase =
+  | 'manual' // Automation off
+  | 'lit' // Grow light on during the photoperiod
+  | 'daylight' // Enough light during the photoperiod, grow light off
+  | 'night' // Outside the photoperiod
+  | 'extending' // Past the photoperiod, lit until the day reaches its target DLI
+  | 'blocked' // An interlock refused switching the light on
+  | 'waiting'; // No actuator device, or a light command is still pending
+
+// Daily light integral of a level's current photoperiod day, in mol/m²
+export interface DliStatus {
+  mol: number; // Light so far
+  target: number | null;
+  projected: number; // mol plus the current PPFD until the lights are due off
+  ppfd: number | null; // µmol/m²/s of the latest sample
+  ppfdFactor: number; // µmol/m²/s per lux
+  dayStartedAt: string;
+  extensionUntil: string | null; // Latest the light may stay on to reach the target
+}
+
+export interface LightingStatus {
+  plantType: PlantType;
+  mode: AutomationMode;
+  phase: LightingPhase;
+  message: string;
+  lux: number | null;
+  luxMin: number;
+  luxOff: number;
+  lightOn: boolean | null;
+  lightsOnAt: string; // HH:MM, backend local time
+  photoperiodHours: number;
+  lightsOffAt: string;
+  inPhotoperiod: boolean;
+  nextChangeAt: string | null; // Next start or end of the photoperiod
+  dli: DliStatus;
+  interlock?: InterlockReason;
+  updatedAt: string;
+}
+
+// NPK dosing planner of a level. Doses are recommended, or sent by the
+// backend in auto mode, when a nutrient is below its target band.
+export type NutrientName = 'nitrogen' | 'phosphorus' | 'potassium';
+
+export type NutrientPlanPhase =
+  | 'ok' // Nothing below target
+  | 'due' // A dose is recommended now; in auto mode it is being sent
+  | 'dosing' // A fertilizer command is still pending
+  | 'interval' // A dose is needed once the minimum interval has passed
+  | 'blocked' // An interlock refused the dose, or it would overshoot another nutrient
+  | 'waiting'; // No recent NPK reading or no actuator device
+
+export interface NutrientTargetStatus {
+  value: number | null; // Latest reading, mg/kg
+  min: number;
+  max: number;
+  target: number; // Middle of the band
+  deficit: number | null;
+}
+
+export interface NutrientPlan {
+  plantType: PlantType;
+  mode: AutomationMode;
+  phase: NutrientPlanPhase;
+  message: string;
+  nutrients: Record<NutrientName, NutrientTargetStatus>;
+  recommendedMl: number | null;
+  responsePerMl: Record<NutrientName, number | null>; // mg/kg per ml measured on recent doses
+  lastDoseAt: string | null;
+  nextDoseAt: string | null; // End of the minimum interval
+  interlock?: InterlockReason;
+  updatedAt: string;
+}
+
+// A completed fertilizer dose and how it moved the readings once settled
+export interface NutrientDose {
+  commandId: string;
+  plantType: PlantType;
+  deviceId: string;
+  issuedBy: string | null;
+  doseMl: number;
+  dosedAt: string;
+  before: Record<NutrientName, number | null>;
+  after: Record<NutrientName, number | null> | null; // null until measured
+  change: Record<NutrientName, number | null> | null;
+  measuredAt: string | null;
+}
+
+// Amount a pump command delivers: a run time, or a volume converted to a run
+// time with the pump's calibrated flow rate
+export type DoseRequest = { seconds: number } | { ml: number };
+
+// A control action repeated at a time of day (server local time) on chosen
+// weekdays; water:on and nutrients jobs may carry a dose
+export interface ScheduledJob {
+  id: string;
+  plantType: PlantType;
+  label: string;
+  action: ControlAction;
+  dose: DoseRequest | null;
+  time: string; // HH:MM
+  days: number[]; // 0 (Sunday) to 6 (Saturday)
+  paused: boolean;
+  skips: string[]; // Upcoming occurrences that will not run
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScheduleOccurrence {
+  jobId: string;
+  label: string;
+  action: ControlAction;
+  occurrenceAt: string;
+  paused: boolean;
+  skipped: boolean;
+}
+
+export type ScheduleRunStatus =
+  | 'pending' // Command sent, waiting for the device
+  | 'completed'
+  | 'failed'
+  | 'timeout'
+  | 'cancelled' // e.g. by the emergency stop
+  | 'refused' // An interlock or the emergency stop refused the command
+  | 'skipped'
+  | 'missed'; // The server was not running at the time
+
+// What became of one occurrence of a scheduled job
+export interface ScheduleRun {
+  id: number;
+  jobId: string;
+  plantType: PlantType;
+  label: string;
+  action: ControlAction;
+  occurrenceAt: string;
+  status: ScheduleRunStatus;
+  commandId: string | null;
+  message: string | null;
+  interlock?: InterlockReason;
+  recordedAt: string;
+  updatedAt: string;
+}
+
+export interface SchedulesPayload {
+  plantType: PlantType;
+  jobs: ScheduledJob[];
+  occurrences: ScheduleOccurrence[]; // Next seven days, paused jobs included
+}
+
+// Sensor reading for a single ESP32 after backend processing in /update
+export interface DeviceSensorData {
+  temperature: number;
+  humidity: number;
+  moisture: number;
+  sunlight: number;
+  nitrogen: number;
+  phosphorus: number;
+  potassium: number;
+  waterLevel?: number;
+  fertilizerLevel?: number;
+  timestamp: string;
+  deviceId: string;
+}
+
+// Metrics a device itself reported, before they are mapped onto levels
+export type DeviceValues = Partial<Record<SensorMetric, number>> & { timestamp: string };
+
+// Actuator and connection state the backend keeps per device
+export interface DeviceState {
+  light: boolean;
+  waterPump: boolean;
+  nutrientPump: boolean;
+  lastWatered: string | null;
+  lastNutrients: string | null;
+  lastUpdated: string;
+  connectionStatus: DeviceConnectionStatus;
+  lastSeen: string | null;
+}
+
+export interface BackendCommand {
+  id: string;
+  command: BackendCommandType;
+  originalCommand: string;
+  value: number;
+  deviceId: string;
+  plantType: PlantType;
+  duration: number;
+  timestamp: string;
+  status: CommandStatus;
+  issuedBy?: string;
+  timeoutAt?: string;
+  completedAt?: string;
+  message?: string;
+  desiredState?: ActuatorState; // Only on pump and light commands
+  idempotencyKey?: string; // Replays with the same key are rejected
+  doseMl?: number; // Volume the command was sized for
+  deliveredMl?: number; // Volume the device reported, or doseMl on completion
+}
+
+// Server -> client payloads
+export interface InitDataPayload {
+  sensorData: Record<string, DeviceValues>; // Latest values per device
+  deviceStates: Record<string, DeviceState>;
+  reservoirLevels: ReservoirLevels;
+  pendingCommands: Record<string, CommandStatusPayload[]>;
+  emergencyStop: EmergencyStopState;
+  irrigation: Record<PlantType, IrrigationStatus>;
+  lighting: Record<PlantType, LightingStatus>;
+  nutrientPlans: Record<PlantType, NutrientPlan>;
+  timestamp: string;
+}
+
+export interface DataUpdatePayload {
+  deviceId: string;
+  plantType: PlantType;
+  data: DeviceSensorData;
+  state: DeviceState;
+}
+
+// Raw values of one device report; dataUpdate carries the resulting level readings
+export interface DeviceReadingPayload {
+  deviceId: string;
+  data: DeviceValues;
+  state: DeviceState;
+}
+
+// Command after a status change; pending when queued, then completed, failed
+// or timeout once the device acknowledges it or never does
+export interface CommandStatusPayload extends BackendCommand {
+  action?: ActuatorAction;
+}
+
+export interface ControlResponsePayload {
+  action?: ActuatorAction;
+  deviceId?: string;
+  plantType?: PlantType;
+  commandId?: string;
+  success: boolean;
+  active?: boolean;
+  message: string;
+  error?: string;
+  interlock?: InterlockRefusal; // Set when an interlock refused the command
+  timestamp?: string;
+}
+
+export interface DeviceStatusUpdatePayload {
+  deviceId: string;
+  status: DeviceConnectionStatus;
+  timestamp: string;
+}
+
+export interface ExecuteCommandPayload {
+  id: string; // Echoed back in the device's ack
+  command: BackendCommandType;
+  state: ActuatorState | null; // Null for one-shot commands
+  value: number;
+  duration: number;
+}
+
+export interface TestEventPayload {
+  message: string;
+  timestamp: string;
+  randomValue: number;
+  sensorData: Record<string, DeviceSensorData>;
+  deviceStates: Record<string, DeviceState>;
+}
+
+export interface ServerErrorPayload {
+  message: string;
+  error?: string;
+}
+
+// Client -> server payloads
+export interface RequestInitialDataPayload {
+  plantType?: PlantType;
+  deviceId?: string;
+  deviceIds?: string[];
+}
+
+export interface ControlRequestPayload {
+  deviceId: string;
+  command: 'water_pump' | 'grow_light' | 'nutrient_pump';
+  state?: ActuatorState; // Required for water_pump and grow_light
+  idempotencyKey?: string;
+  dose?: DoseRequest; // water_pump (on) and nutrient_pump only
+  value?: number;
+  plantType?: PlantType;
+}
+
+// Sent by a device once it has run (or could not run) a command, through the
+// commandAck event or POST /command-ack. The optional state is the device's
+// actuator state afterwards and overrides what the backend would infer.
+export interface CommandAckPayload {
+  deviceId: string;
+  commandId: string;
+  status: 'completed' | 'failed';
+  message?: string;
+  state?: Partial<Pick<DeviceState, 'light' | 'waterPump' | 'nutrientPump'>>;
+  deliveredMl?: number; // Measured volume, for devices with a flow sensor
+}
+
+export interface SetPlantTypePayload {
+  plantType: PlantType;
+  deviceId: string;
+}
+
+export interface ServerToClientEvents {
+  initData: (payload: InitDataPayload) => void;
+  dataUpdate: (payload: DataUpdatePayload) => void;
+  deviceReading: (payload: DeviceReadingPayload) => void;
+  reservoirUpdate: (payload: ReservoirLevels) => void;
+  controlResponse: (payload: ControlResponsePayload) => void;
+  commandStatus: (payload: CommandStatusPayload) => void;
+  deviceStatusUpdate: (payload: DeviceStatusUpdatePayload) => void;
+  registryUpdate: (payload: Registry) => void;
+  emergencyStop: (payload: EmergencyStopState) => void; // Engaged or cleared
+  irrigationStatus: (payload: IrrigationStatus) => void; // Whenever a level's automation changes what it does
+  lightingStatus: (payload: LightingStatus) => void;
+  nutrientPlan: (payload: NutrientPlan) => void;
+  nutrientDose: (payload: NutrientDose) => void; // Recorded on completion and again once measured
+  schedules: (payload: SchedulesPayload) => void; // After a level's jobs or skips change
+  scheduleRun: (payload: ScheduleRun) => void; // Recorded, and again once its command settles
+  executeCommand: (payload: ExecuteCommandPayload) => void; // Only sent to device rooms
+  testEvent: (payload: TestEventPayload) => void;
+  error: (payload: ServerErrorPayload) => void;
+}
+
+export interface ClientToServerEvents {
+  requestInitialData: (payload: RequestInitialDataPayload) => void;
+  control: (payload: ControlRequestPayload) => void;
+  setPlantType: (payload: SetPlantTypePayload) => void;
+  deviceConnect: (deviceId: string) => void;
+  commandAck: (payload: CommandAckPayload) => void; // Only sent by devices
+}
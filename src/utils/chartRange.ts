@@ -0,0 +1,83 @@
+import { ChartRange, ChartRangePreset } from '../types';
+import { HistoryBucket } from '../types/api';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const DEFAULT_DURATION_MS = 6 * HOUR_MS; // Custom ranges without a start
+
+export const CHART_RANGE_PRESETS: { preset: Exclude<ChartRangePreset, 'custom'>; label: string; durationMs: number }[] = [
+  { preset: '1h', label: '1h', durationMs: HOUR_MS },
+  { preset: '6h', label: '6h', durationMs: 6 * HOUR_MS },
+  { preset: '24h', label: '24h', durationMs: DAY_MS },
+  { preset: '7d', label: '7d', durationMs: 7 * DAY_MS },
+  { preset: '30d', label: '30d', durationMs: 30 * DAY_MS },
+];
+
+export const DEFAULT_CHART_RANGE: ChartRange = { preset: '6h' };
+
+// Most points a chart should draw; the bucket size grows to stay under it
+const MAX_CHART_POINTS = 200;
+
+const BUCKET_SIZES: [HistoryBucket, number][] = [
+  ['1m', 60 * 1000],
+  ['10m', 10 * 60 * 1000],
+  ['1h', HOUR_MS],
+  ['1d', DAY_MS],
+];
+
+// Smallest bucket that keeps the span under MAX_CHART_POINTS
+export const pickBucket = (spanMs: number): HistoryBucket => {
+  const match = BUCKET_SIZES.find(([, size]) => spanMs / size <= MAX_CHART_POINTS);
+  return match ? match[0] : '1d';
+};
+
+// Absolute window and bucket size for a range; presets end at `now`
+export const resolveChartRange = (range: ChartRange, now: number = Date.now()): { from: number; to: number; bucket: HistoryBucket } => {
+  const preset = CHART_RANGE_PRESETS.find(option => option.preset === range.preset);
+  const to = range.preset === 'custom' ? (range.to ?? now) : now;
+  const from = range.preset === 'custom'
+    ? (range.from ?? to - DEFAULT_DURATION_MS)
+    : to - (preset?.durationMs ?? DEFAULT_DURATION_MS);
+
+  return { from, to, bucket: pickBucket(to - from) };
+};
+
+export const isLiveRange = (range: ChartRange): boolean => range.preset !== 'custom';
+
+// Live ranges refetch at most this often, however fast readings arrive
+export const LIVE_REFRESH_MS = 5 * 1000;
+
+export const describeChartRange = (range: ChartRange): string => {
+  switch (range.preset) {
+    case '1h':
+      return 'Last hour';
+    case '6h':
+      return 'Last 6 hours';
+    case '24h':
+      return 'Last 24 hours';
+    case '7d':
+      return 'Last 7 days';
+    case '30d':
+      return 'Last 30 days';
+    default: {
+      const { from, to } = resolveChartRange(range);
+      const format = (time: number) => new Date(time).toLocaleString([], {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      });
+      return `${format(from)} – ${format(to)}`;
+    }
+  }
+};
+
+// Axis label for a timestamp; multi-day ranges include the date
+export const formatChartTime = (timestamp: string, spanMs: number): string => {
+  const date = new Date(timestamp);
+  if (spanMs > DAY_MS) {
+    return date.toLocaleDateString([], { month: 'short', day: 'numeric' }) +
+      ' ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
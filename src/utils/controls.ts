@@ -0,0 +1,18 @@
+import { ControlAction, ControlActuator } from '../types';
+import { ActuatorState } from '../types/socket';
+
+// Split a control action into the actuator it drives and the state it asks for
+// ('nutrients' is a one-shot dose without a state)
+export const parseControlAction = (action: ControlAction): { actuator: ControlActuator; state: ActuatorState | null } => {
+  const [actuator, state] = action.split(':') as [ControlActuator, ActuatorState | undefined];
+  return { actuator, state: state ?? null };
+};
+
+// Short description of each control action, e.g. for scheduled jobs
+export const CONTROL_ACTION_LABELS: Record<ControlAction, string> = {
+  'water:on': 'Water',
+  'water:off': 'Water pump off',
+  'light:on': 'Grow light on',
+  'light:off': 'Grow light off',
+  'nutrients': 'Fertilizer',
+};
@@ -0,0 +1,40 @@
+import { Plant } from '../types';
+import { HistoryMetric } from '../types/api';
+
+// Display metadata for every metric that can be charted
+
+export interface MetricDescriptor {
+  key: HistoryMetric;
+  label: string;
+  unit: string;
+  color: string;
+  optimalCondition?: keyof Plant['optimalConditions']; // Source of the optimal range
+}
+
+export const METRICS: MetricDescriptor[] = [
+  { key: 'moisture', label: 'Moisture', unit: '%', color: '#3b82f6', optimalCondition: 'moisture' },
+  { key: 'temperature', label: 'Temperature', unit: '°C', color: '#ef4444', optimalCondition: 'temperature' },
+  { key: 'humidity', label: 'Humidity', unit: '%', color: '#06b6d4', optimalCondition: 'humidity' },
+  { key: 'sunlight', label: 'Sunlight', unit: 'lux', color: '#f59e0b', optimalCondition: 'sunlight' },
+  { key: 'nutrients', label: 'Nutrient Level', unit: 'mg/kg', color: '#22c55e', optimalCondition: 'nutrientLevel' },
+  { key: 'nitrogen', label: 'Nitrogen (N)', unit: 'mg/kg', color: '#8b5cf6', optimalCondition: 'nitrogen' },
+  { key: 'phosphorus', label: 'Phosphorus (P)', unit: 'mg/kg', color: '#ec4899', optimalCondition: 'phosphorus' },
+  { key: 'potassium', label: 'Potassium (K)', unit: 'mg/kg', color: '#f97316', optimalCondition: 'potassium' },
+  { key: 'waterLevel', label: 'Water Reservoir', unit: '%', color: '#0ea5e9', optimalCondition: 'waterLevel' },
+  { key: 'fertilizerLevel', label: 'Fertilizer Reservoir', unit: '%', color: '#84cc16' },
+];
+
+export const DEFAULT_CHART_METRICS: HistoryMetric[] = ['moisture', 'temperature', 'nutrients'];
+
+// Line colours of overlaid levels, in level order
+export const LEVEL_COLORS = ['#3b82f6', '#f97316', '#a855f7', '#14b8a6'];
+
+export const getMetric = (key: HistoryMetric): MetricDescriptor =>
+  METRICS.find(metric => metric.key === key) || METRICS[0];
+
+// Optimal range of a metric for a plant, if its profile defines one
+export const getOptimalRange = (metric: MetricDescriptor, plant: Plant): { min: number; max: number } | null => {
+  if (!metric.optimalCondition) return null;
+  const condition = plant.optimalConditions[metric.optimalCondition];
+  return condition ? { min: condition.min, max: condition.max } : null;
+};
@@ -0,0 +1,66 @@
+import { Plant, PlantHealth, SensorData } from '../types';
+
+// Score a reading against its optimal range: 100 inside the range, with some
+// tolerance outside it before the score drops sharply
+const calculateParameterScore = (value: number, optimal: { min: number; max: number }): number => {
+  if (value >= optimal.min && value <= optimal.max) {
+    return 100; // Perfect score if within optimal range
+  }
+  
+  const optimalMid = (optimal.min + optimal.max) / 2;
+  const optimalRange = optimal.max - optimal.min;
+  const deviation = Math.abs(value - optimalMid);
+  
+  // Calculate score based on how far from optimal range
+  // Give some tolerance outside the range before heavily penalizing
+  const tolerance = optimalRange * 0.2; // 20% tolerance
+  
+  if (deviation <= tolerance) {
+    return Math.max(80, 100 - (deviation / tolerance) * 20);
+  } else {
+    return Math.max(0, 80 - ((deviation - tolerance) / optimalRange) * 60);
+  }
+};
+
+// Updated plant health calculation - removed water level, increased sunlight to 25%
+export const calculatePlantHealth = (sensorData: SensorData | null, plant: Plant | null): PlantHealth => {
+  if (!sensorData || !plant) {
+    return { status: 'fair', score: 50 };
+  }
+
+  let totalScore = 0;
+  let factorCount = 0;
+
+  // Soil moisture (weight: 30% - most important)
+  const moistureScore = calculateParameterScore(sensorData.moisture, plant.optimalConditions.moisture);
+  totalScore += moistureScore * 0.3;
+  factorCount += 0.3;
+
+  // Temperature (weight: 25%)
+  const temperatureScore = calculateParameterScore(sensorData.temperature, plant.optimalConditions.temperature);
+  totalScore += temperatureScore * 0.25;
+  factorCount += 0.25;
+
+  // Sunlight (weight: 25% - increased from 15%)
+  const sunlightScore = calculateParameterScore(sensorData.sunlight, plant.optimalConditions.sunlight);
+  totalScore += sunlightScore * 0.25;
+  factorCount += 0.25;
+
+  // Humidity (weight: 20%)
+  const humidityScore = calculateParameterScore(sensorData.humidity, plant.optimalConditions.humidity);
+  totalScore += humidityScore * 0.2;
+  factorCount += 0.2;
+
+  // Water level removed from calculation
+
+  const overallScore = totalScore / factorCount;
+  
+  let status: PlantHealth['status'];
+  if (overallScore >= 90) status = 'excellent';
+  else if (overallScore >= 75) status = 'good';
+  else if (overallScore >= 60) status = 'fair';
+  else if (overallScore >= 40) status = 'poor';
+  else status = 'critical';
+
+  return { status, score: overallScore };
+};
@@ -0,0 +1,12 @@
+import { ScheduledJob } from '../types/socket';
+
+// Weekday names indexed like Date#getDay and the days of a scheduled job
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const describeDays = (days: number[]) =>
+  days.length === WEEKDAYS.length ? 'Every day' : days.map(day => WEEKDAYS[day]).join(', ');
+
+export const describeDose = (dose: ScheduledJob['dose']) => {
+  if (!dose) return null;
+  return 'seconds' in dose ? `${dose.seconds} s` : `${dose.ml} ml`;
+};
@@ -0,0 +1,86 @@
+import { GrowLevel, SensorData, SensorMetric, SensorSource } from '../types';
+import { DeviceValues } from '../types/socket';
+
+// Mirrors backend/sensorSources.js: a level takes every metric from its sensor
+// device unless its sensor sources name another device for that metric
+
+export const SENSOR_METRICS: SensorMetric[] = [
+  'temperature',
+  'humidity',
+  'moisture',
+  'sunlight',
+  'nitrogen',
+  'phosphorus',
+  'potassium',
+  'waterLevel',
+  'fertilizerLevel',
+];
+
+// A source that has not reported a metric for this long gives way to its fallback
+export const SOURCE_STALE_MS = 5 * 60 * 1000;
+
+// Used when no source has reported a metric yet; anything else defaults to 0
+const DEFAULT_VALUES: Partial<Record<SensorMetric, number>> = {
+  temperature: 20,
+  humidity: 50,
+};
+
+// Latest value and report time per metric of one device
+export type DeviceMetricValues = Partial<Record<SensorMetric, { value: number; time: number }>>;
+
+// Merge a device report into the values already known for that device
+export const mergeDeviceValues = (current: DeviceMetricValues = {}, data: DeviceValues): DeviceMetricValues => {
+  const parsed = new Date(data.timestamp).getTime();
+  const time = isNaN(parsed) ? Date.now() : parsed;
+  const next = { ...current };
+
+  SENSOR_METRICS.forEach(metric => {
+    const value = data[metric];
+    if (typeof value === 'number' && !isNaN(value)) {
+      next[metric] = { value, time };
+    }
+  });
+  return next;
+};
+
+// Primary and fallback device of one metric of a level
+export const resolveSensorSource = (level: GrowLevel, metric: SensorMetric): { deviceId: string | null; fallbackDeviceId: string | null } => {
+  const source: SensorSource | undefined = level.sensorSources?.[metric];
+  return {
+    deviceId: source?.deviceId || level.sensorDeviceId,
+    fallbackDeviceId: source?.fallbackDeviceId || null,
+  };
+};
+
+// Reading of a level from its mapped sources, or null while none of them has reported
+export const composeLevelReading = (
+  level: GrowLevel,
+  devices: Record<string, DeviceMetricValues>,
+  now: number = Date.now()
+): SensorData | null => {
+  const lookup = (deviceId: string | null, metric: SensorMetric) => {
+    const entry = deviceId ? devices[deviceId]?.[metric] : undefined;
+    return entry ? { ...entry, fresh: now - entry.time <= SOURCE_STALE_MS } : undefined;
+  };
+
+  let reported = false;
+  const values = SENSOR_METRICS.reduce((acc, metric) => {
+    const { deviceId, fallbackDeviceId } = resolveSensorSource(level, metric);
+    const primary = lookup(deviceId, metric);
+    const fallback = lookup(fallbackDeviceId, metric);
+
+    // A stale primary still beats having no value at all
+    const chosen = (primary?.fresh ? primary : null) || (fallback?.fresh ? fallback : null) || primary || fallback;
+    if (chosen) reported = true;
+    acc[metric] = chosen ? chosen.value : DEFAULT_VALUES[metric] ?? 0;
+    return acc;
+  }, {} as Record<SensorMetric, number>);
+
+  if (!reported) return null;
+
+  return {
+    ...values,
+    timestamp: new Date(now).toISOString(),
+    deviceId: level.sensorDeviceId ?? undefined,
+  };
+};